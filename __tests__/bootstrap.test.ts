@@ -0,0 +1,50 @@
+/**
+ * Bootstrap Tests
+ * Tests for resolving the configured game type at startup
+ */
+
+import { resolveGameType } from '../app/game/bootstrap';
+import { GameType, getAllGameTypes, RACING_CONFIG } from '../app/game/config/gameTypes';
+
+const appJson = require('../app.json');
+
+describe('Game Type Resolution', () => {
+  it('should resolve the game type configured in app.json', () => {
+    const resolution = resolveGameType(appJson.expo.extra.gameType);
+    expect(resolution.ok).toBe(true);
+    if (resolution.ok) {
+      expect(resolution.gameType).toBe(GameType.RACING);
+      expect(resolution.config).toBe(RACING_CONFIG);
+    }
+  });
+
+  it('should resolve every supported game type', () => {
+    getAllGameTypes().forEach(type => {
+      const resolution = resolveGameType(type);
+      expect(resolution.ok).toBe(true);
+    });
+  });
+
+  it('should report a missing game type', () => {
+    const resolution = resolveGameType(undefined);
+    expect(resolution.ok).toBe(false);
+    if (!resolution.ok) {
+      expect(resolution.error).toContain('No game type configured');
+    }
+  });
+
+  it('should report an unknown game type with the supported values', () => {
+    const resolution = resolveGameType('kart');
+    expect(resolution.ok).toBe(false);
+    if (!resolution.ok) {
+      expect(resolution.value).toBe('kart');
+      expect(resolution.error).toContain('"kart"');
+      expect(resolution.error).toContain('racing');
+    }
+  });
+
+  it('should reject non-string values', () => {
+    expect(resolveGameType(42).ok).toBe(false);
+    expect(resolveGameType({ type: 'racing' }).ok).toBe(false);
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * Card Tests
+ * Tests for the Pazaak rules, the opponent's strategies and the card duel
+ * built on them
+ */
+
+import { getLevelSettings } from '../app/config/levelBundles';
+import { LEVELS } from '../app/config/levels';
+import { AIDifficulty } from '../app/config/levelSchemas';
+import { GameType } from '../app/game/config/gameTypes';
+import { HeadlessSession } from '../app/game/runtime/headless';
+import { SeededRandom } from '../app/game/runtime/random';
+import {
+  CardStrategy,
+  EasyStrategy,
+  HardStrategy,
+  MediumStrategy,
+  createStrategy,
+  playOut,
+  unseenCards
+} from '../app/game/types/card/ai';
+import {
+  DEFAULT_SIDE_DECK,
+  HAND_SIZE,
+  PazaakSet,
+  SIDE_CARD_POOL,
+  SIDE_DECK_SIZE,
+  Seat,
+  SideCard,
+  TableCard,
+  cloneSet,
+  createMainDeck,
+  createSet,
+  endTurn,
+  playSideCard,
+  stand,
+  tableTotal,
+  totalAfter
+} from '../app/game/types/card/pazaak';
+import { CardSimulation, handButtonId, sideCardButtonId } from '../app/game/types/card/simulation';
+
+const plus = (value: number): SideCard => ({ kind: 'plus', value });
+const minus = (value: number): SideCard => ({ kind: 'minus', value });
+const plusMinus = (value: number): SideCard => ({ kind: 'plusMinus', value });
+
+/**
+ * A set whose main deck deals `draws` in order, starting with the player
+ */
+function setWith(draws: number[], hands: Partial<Record<Seat, SideCard[]>> = {}): PazaakSet {
+  const [first, ...rest] = draws;
+  const side = (hand: SideCard[] = []) => ({ table: [], hand, stood: false, tiebreaker: false });
+  const set: PazaakSet = {
+    target: 20,
+    deck: rest.reverse(),
+    turn: 'player',
+    playedThisTurn: false,
+    sides: { player: side(hands.player), opponent: side(hands.opponent) },
+    outcome: null
+  };
+  set.sides.player.table.push({ value: first, label: String(first), fromHand: false });
+  return set;
+}
+
+describe('Pazaak rules', () => {
+  it('should build a 40-card main deck of four of each value', () => {
+    const deck = createMainDeck(new SeededRandom(1));
+    expect(deck).toHaveLength(40);
+    for (let value = 1; value <= 10; value++) {
+      expect(deck.filter(card => card === value)).toHaveLength(4);
+    }
+  });
+
+  it('should deal hands from the side decks and open the first turn', () => {
+    const decks = {
+      player: DEFAULT_SIDE_DECK.map(index => SIDE_CARD_POOL[index]),
+      opponent: [plus(1), plus(2), plus(3), plus(4), plus(5)]
+    };
+    const set = createSet(new SeededRandom(3), decks, 'opponent', 20);
+
+    expect(set.sides.player.hand).toHaveLength(HAND_SIZE);
+    expect(set.sides.opponent.hand).toHaveLength(HAND_SIZE);
+    set.sides.player.hand.forEach(card => expect(decks.player).toContainEqual(card));
+    expect(set.turn).toBe('opponent');
+    expect(set.sides.opponent.table).toHaveLength(1);
+    expect(set.sides.player.table).toHaveLength(0);
+    expect(set.deck).toHaveLength(39);
+  });
+
+  it('should alternate turns, drawing a card for each', () => {
+    const set = setWith([5, 7, 3]);
+    endTurn(set);
+    expect(set.turn).toBe('opponent');
+    expect(tableTotal(set.sides.opponent)).toBe(7);
+    endTurn(set);
+    expect(tableTotal(set.sides.player)).toBe(8);
+  });
+
+  it('should allow one side card per turn, with a chosen sign for ± cards', () => {
+    const set = setWith([8, 2, 6], { player: [plusMinus(3), plus(1)] });
+    expect(playSideCard(set, 0, -1)).toEqual({ ok: true });
+    expect(tableTotal(set.sides.player)).toBe(5);
+    expect(set.sides.player.table[1].label).toBe('-3');
+    expect(playSideCard(set, 0)).toEqual({ ok: false, error: 'Only one side card per turn' });
+
+    endTurn(set);
+    endTurn(set);
+    expect(playSideCard(set, 0).ok).toBe(true);
+    expect(tableTotal(set.sides.player)).toBe(12);
+    expect(set.sides.player.hand).toHaveLength(0);
+  });
+
+  it('should flip the sign of the named values on the table', () => {
+    const set = setWith([4], { player: [{ kind: 'flip', values: [2, 4] }] });
+    set.sides.player.table.push({ value: 2, label: '2', fromHand: false }, { value: 6, label: '6', fromHand: false });
+
+    expect(totalAfter(set.sides.player, set.sides.player.hand[0])).toBe(0);
+    playSideCard(set, 0);
+    expect(set.sides.player.table.map(card => card.value)).toEqual([-4, -2, 6, 0]);
+    expect(tableTotal(set.sides.player)).toBe(0);
+  });
+
+  it('should lose the set for going over at the end of a turn, unless a card saves it', () => {
+    const bust = setWith([10, 5, 6, 5, 8]);
+    for (let turn = 0; turn < 4; turn++) endTurn(bust);
+    expect(tableTotal(bust.sides.player)).toBe(24);
+    endTurn(bust);
+    expect(bust.outcome).toEqual({ winner: 'opponent', reason: 'bust' });
+    expect(endTurn(bust).ok).toBe(false);
+
+    const saved = setWith([10, 5, 6, 5, 8, 1], { player: [minus(5)] });
+    for (let turn = 0; turn < 4; turn++) endTurn(saved);
+    playSideCard(saved, 0);
+    endTurn(saved);
+    expect(saved.outcome).toBeNull();
+    expect(tableTotal(saved.sides.player)).toBe(19);
+  });
+
+  it('should stand automatically on the target and let the other side play alone', () => {
+    const set = setWith([10, 5, 10, 5, 9]);
+    endTurn(set);
+    endTurn(set);
+    expect(tableTotal(set.sides.player)).toBe(20);
+    endTurn(set);
+    expect(set.sides.player.stood).toBe(true);
+    expect(set.turn).toBe('opponent');
+    expect(tableTotal(set.sides.opponent)).toBe(10);
+
+    endTurn(set);
+    expect(set.turn).toBe('opponent');
+    expect(tableTotal(set.sides.opponent)).toBe(19);
+    stand(set);
+    expect(set.outcome).toEqual({ winner: 'player', reason: 'score' });
+  });
+
+  it('should win the set by filling the table with nine cards', () => {
+    const set = setWith([1, 10, ...Array(8).fill(1)]);
+    endTurn(set);
+    stand(set);
+    for (let card = 1; card < 9; card++) endTurn(set);
+
+    expect(set.sides.player.table).toHaveLength(9);
+    endTurn(set);
+    expect(set.outcome).toEqual({ winner: 'player', reason: 'nineCards' });
+  });
+
+  it('should tie equal totals unless one side played a tiebreaker', () => {
+    const tie = setWith([10, 10, 8, 8]);
+    endTurn(tie);
+    endTurn(tie);
+    stand(tie);
+    stand(tie);
+    expect(tie.outcome).toEqual({ winner: null, reason: 'tie' });
+
+    const broken = setWith([10, 10, 9, 8], { opponent: [{ kind: 'tiebreaker' }] });
+    endTurn(broken);
+    endTurn(broken);
+    stand(broken);
+    playSideCard(broken, 0, 1);
+    stand(broken);
+    expect(tableTotal(broken.sides.opponent)).toBe(19);
+    expect(broken.outcome).toEqual({ winner: 'opponent', reason: 'tiebreaker' });
+  });
+
+  it('should clone sets independently', () => {
+    const set = setWith([5, 6], { player: [plus(2)] });
+    const copy = cloneSet(set);
+    playSideCard(copy, 0);
+    endTurn(copy);
+
+    expect(set.sides.player.hand).toHaveLength(1);
+    expect(set.sides.player.table).toHaveLength(1);
+    expect(set.deck).toEqual([6]);
+  });
+});
+
+/**
+ * Share of the decided sets `a` wins against `b`, taking turns to start
+ */
+function winRate(a: CardStrategy, b: CardStrategy, sets: number, seed: number): number {
+  const rng = new SeededRandom(seed);
+  const deck = DEFAULT_SIDE_DECK.map(index => SIDE_CARD_POOL[index]);
+  let wins = 0;
+  let losses = 0;
+  for (let i = 0; i < sets; i++) {
+    const set = createSet(rng, { player: deck, opponent: deck }, i % 2 ? 'opponent' : 'player', 20);
+    const { winner } = playOut(set, { player: a, opponent: b });
+    if (winner === 'player') wins++;
+    else if (winner === 'opponent') losses++;
+  }
+  return wins / (wins + losses);
+}
+
+describe('Card AI', () => {
+  const card = (value: number, fromHand = false): TableCard => ({ value, label: String(value), fromHand });
+
+  it('should count only main deck cards as seen', () => {
+    const set = setWith([10], { opponent: [plus(3)] });
+    set.sides.player.table.push(card(-2, true));
+    set.sides.opponent.table.push(card(10), card(4));
+
+    const unseen = unseenCards(set);
+    expect(unseen).toHaveLength(37);
+    expect(unseen.filter(value => value === 10)).toHaveLength(2);
+    expect(unseen.filter(value => value === 2)).toHaveLength(4);
+  });
+
+  it('should never play side cards on easy', () => {
+    const set = setWith([10, 5, 9], { player: [plus(1)] });
+    endTurn(set);
+    endTurn(set);
+    expect(new EasyStrategy().chooseMove(set, 'player')).toEqual({ card: null, stand: true });
+  });
+
+  it('should play a card on medium to reach the target or get back under it', () => {
+    const reach = setWith([10, 5, 8], { player: [plus(1), plusMinus(2)] });
+    endTurn(reach);
+    endTurn(reach);
+    expect(new MediumStrategy().chooseMove(reach, 'player')).toEqual({ card: { index: 1, sign: 1 }, stand: true });
+
+    const over = setWith([10, 5, 7, 5, 8], { player: [plus(3), minus(6)] });
+    for (let turn = 0; turn < 4; turn++) endTurn(over);
+    expect(tableTotal(over.sides.player)).toBe(25);
+    expect(new MediumStrategy().chooseMove(over, 'player')).toEqual({ card: { index: 1, sign: 1 }, stand: true });
+  });
+
+  it('should stand once ahead of a side that has stood', () => {
+    const behind = setWith([10, 9, 3, 7, 1]);
+    endTurn(behind);
+    endTurn(behind);
+    endTurn(behind);
+    stand(behind);
+    expect(tableTotal(behind.sides.player)).toBe(14);
+    expect(new MediumStrategy().chooseMove(behind, 'player').stand).toBe(false);
+
+    const ahead = setWith([10, 6, 3, 6, 1]);
+    endTurn(ahead);
+    endTurn(ahead);
+    endTurn(ahead);
+    stand(ahead);
+    expect(tableTotal(ahead.sides.player)).toBe(14);
+    expect(new MediumStrategy().chooseMove(ahead, 'player').stand).toBe(true);
+  });
+
+  it('should choose the same move on hard whatever order the deck is in', () => {
+    const set = setWith([10, 8, 3, 9, 7, 1, 2], { player: [plusMinus(3), minus(2)] });
+    endTurn(set);
+    endTurn(set);
+    const reversed = cloneSet(set);
+    reversed.deck.reverse();
+
+    const move = new HardStrategy(new SeededRandom(4), 20).chooseMove(set, 'player');
+    expect(new HardStrategy(new SeededRandom(4), 20).chooseMove(reversed, 'player')).toEqual(move);
+  });
+
+  it('should win more sets the harder the strategy', () => {
+    const rng = new SeededRandom(1);
+    const [easy, medium, hard] = (['easy', 'medium', 'hard'] as AIDifficulty[])
+      .map(difficulty => createStrategy(difficulty, rng));
+
+    expect(winRate(medium, easy, 200, 2)).toBeGreaterThan(0.65);
+    expect(winRate(hard, easy, 60, 3)).toBeGreaterThan(0.8);
+    expect(winRate(hard, medium, 80, 4)).toBeGreaterThan(0.55);
+  });
+});
+
+describe('Card simulation', () => {
+  const level = LEVELS[0];
+
+  it('should let the player pick a side deck before the first set', () => {
+    const session = new HeadlessSession(new CardSimulation(level, new SeededRandom(1)));
+    expect(session.simulation.getSnapshot().phase).toBe('choose');
+    expect(session.simulation.getSnapshot().sideDeck).toHaveLength(SIDE_DECK_SIZE);
+
+    // Swap +1 for the tiebreaker; the deck has to be full to start
+    session.press(sideCardButtonId(0));
+    session.press('start');
+    session.step();
+    expect(session.simulation.getSnapshot().phase).toBe('choose');
+
+    const tiebreaker = SIDE_CARD_POOL.findIndex(card => card.kind === 'tiebreaker');
+    session.press(sideCardButtonId(tiebreaker));
+    session.press('start');
+    session.step();
+
+    const snapshot = session.simulation.getSnapshot();
+    expect(snapshot.phase).toBe('player');
+    expect(snapshot.round).toBe(1);
+    expect(snapshot.playerTable).toHaveLength(1);
+    snapshot.hand.forEach(card => {
+      expect(snapshot.sideDeck.map(index => SIDE_CARD_POOL[index])).toContainEqual(card);
+    });
+  });
+
+  it('should play hand cards from button presses', () => {
+    const session = new HeadlessSession(new CardSimulation(level, new SeededRandom(1)));
+    session.press('start');
+    session.step();
+
+    const before = session.simulation.getSnapshot();
+    const signed = before.hand.findIndex(card => card.kind === 'plusMinus' || card.kind === 'minus');
+    const index = signed >= 0 ? signed : 0;
+    session.press(handButtonId(index, -1));
+    session.step();
+
+    const after = session.simulation.getSnapshot();
+    expect(after.hand).toHaveLength(before.hand.length - 1);
+    expect(after.playerTable).toHaveLength(2);
+    expect(after.canPlayCard).toBe(false);
+  });
+
+  it('should play the opponent at the difficulty the level sets', () => {
+    // Lose fewer sets to a plain stand-on-17 player the harder the opponent
+    const playerWinRate = (aiDifficulty: AIDifficulty) => {
+      const settings = { ...getLevelSettings(GameType.CARD, level.id), roundsToWin: 20, aiDifficulty };
+      const session = new HeadlessSession(new CardSimulation(level, new SeededRandom(9), settings));
+      session.press('start');
+      session.step();
+      while (!session.isGameOver) {
+        const { phase, playerScore } = session.simulation.getSnapshot();
+        if (phase === 'player') session.press(playerScore >= 17 ? 'stand' : 'end_turn');
+        if (phase === 'result') session.press('next_round');
+        session.step();
+      }
+      const { wins, losses } = session.simulation.getSnapshot();
+      return wins / (wins + losses);
+    };
+
+    const rates = (['easy', 'medium', 'hard'] as AIDifficulty[]).map(playerWinRate);
+    expect(rates[0]).toBeGreaterThan(rates[1]);
+    expect(rates[1]).toBeGreaterThan(rates[2]);
+    expect(rates[2]).toBeLessThan(0.25);
+  });
+});
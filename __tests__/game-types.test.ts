@@ -12,13 +12,14 @@ import {
   PUZZLE_CONFIG,
   WORD_CONFIG,
   CARD_CONFIG,
-  PLATFORMER_CONFIG
+  PLATFORMER_CONFIG,
+  RACING_CONFIG
 } from '../app/game/config/gameTypes';
 
 describe('Game Type System', () => {
-  it('should have 5 game types defined', () => {
+  it('should have 6 game types defined', () => {
     const types = getAllGameTypes();
-    expect(types).toHaveLength(5);
+    expect(types).toHaveLength(6);
   });
 
   it('should include all expected game types', () => {
@@ -28,6 +29,7 @@ describe('Game Type System', () => {
     expect(types).toContain(GameType.WORD);
     expect(types).toContain(GameType.CARD);
     expect(types).toContain(GameType.PLATFORMER);
+    expect(types).toContain(GameType.RACING);
   });
 
   it('should get config for each game type', () => {
@@ -137,3 +139,21 @@ describe('Platformer Configuration', () => {
     expect(PLATFORMER_CONFIG.theme.animations.easing).toBe('bounce');
   });
 });
+
+describe('Racing Configuration', () => {
+  it('should match the racing game type from app.json', () => {
+    expect(RACING_CONFIG.type).toBe('racing');
+    expect(GAME_TYPE_CONFIGS[GameType.RACING]).toBe(RACING_CONFIG);
+  });
+
+  it('should have deep space theme', () => {
+    expect(RACING_CONFIG.theme.name).toBe('Deep Space');
+  });
+
+  it('should tune speed for every difficulty', () => {
+    (['easy', 'medium', 'hard'] as const).forEach(difficulty => {
+      expect(RACING_CONFIG.levelParameters.baseSpeed[difficulty]).toBeGreaterThan(0);
+      expect(RACING_CONFIG.levelParameters.spawnInterval[difficulty]).toBeGreaterThan(0);
+    });
+  });
+});
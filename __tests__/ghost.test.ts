@@ -0,0 +1,153 @@
+/**
+ * Ghost Racer Tests
+ * Tests for recording, comparing and racing against stored runs
+ */
+
+import { getLevelById, Level } from '../app/config/levels';
+import { getLevelSettings } from '../app/config/levelBundles';
+import { GameType } from '../app/game/config/gameTypes';
+import { HeadlessSession } from '../app/game/runtime/headless';
+import { SeededRandom } from '../app/game/runtime/random';
+import { RacingSimulation } from '../app/game/types/racing/simulation';
+import {
+  GHOST_SAMPLE_INTERVAL,
+  GhostRecorder,
+  GhostRun,
+  ghostSampleAt,
+  isBetterGhost,
+  isGhostRun,
+  storeGhost,
+  storedGhostFor
+} from '../app/game/types/racing/ghost';
+
+/**
+ * Every spawn lands mid-screen, clear of a ship hugging the left edge
+ */
+class FixedRandom extends SeededRandom {
+  next(): number {
+    return 0.5;
+  }
+}
+
+function level(id: number): Level {
+  const found = getLevelById(id);
+  if (!found) throw new Error(`Missing level ${id}`);
+  return found;
+}
+
+// Level 2 with random spawns instead of its generated track
+const OPEN_FIELD = { ...getLevelSettings(GameType.RACING, 2), trackBudget: undefined, asteroidChance: 0.8 };
+
+function race(ghost: GhostRun | null, boostFrom?: number): HeadlessSession {
+  const session = new HeadlessSession(new RacingSimulation(level(2), 400, 800, new FixedRandom(), ghost, OPEN_FIELD));
+  session.script([{ tick: 0, type: 'button_press', buttonId: 'left' }]);
+  if (boostFrom !== undefined) {
+    session.script([{ tick: boostFrom, type: 'button_press', buttonId: 'right' }]);
+  }
+  return session;
+}
+
+function recordGhost(): GhostRun {
+  const session = race(null);
+  session.step(10000);
+  const ghost = (session.simulation as RacingSimulation).getGhostRun();
+  if (!ghost) throw new Error('Run was not won');
+  return ghost;
+}
+
+describe('GhostRecorder', () => {
+  it('should sample every few steps and the last, and clamp lookups to the run', () => {
+    const recorder = new GhostRecorder(4);
+    for (let tick = 0; tick < 7; tick++) recorder.push(10.4 + tick, tick * 2 + 0.5, tick >= 4);
+    const ghost = recorder.finish(50);
+
+    expect(ghost).toEqual({ ticks: 7, score: 50, interval: 4, x: [10, 14, 16], distance: [0, 8, 12], boost: [0, 1, 1] });
+    expect(ghostSampleAt(ghost, -5)).toEqual({ x: 10, distance: 0, boosting: false });
+    expect(ghostSampleAt(ghost, 99)).toEqual({ x: 16, distance: 12, boosting: true });
+    expect(ghostSampleAt(new GhostRecorder().finish(0), 0)).toBeNull();
+  });
+
+  it('should interpolate between samples', () => {
+    const recorder = new GhostRecorder(4);
+    for (let tick = 0; tick < 9; tick++) recorder.push(tick * 3, tick * 2, false);
+    const ghost = recorder.finish(0);
+
+    expect(ghost.x).toHaveLength(3);
+    for (let tick = 0; tick < 9; tick++) {
+      expect(ghostSampleAt(ghost, tick)).toEqual({ x: tick * 3, distance: tick * 2, boosting: false });
+    }
+  });
+
+  it('should keep the best runs of only the most recently improved levels', () => {
+    const ghost = new GhostRecorder().finish(0);
+    let stored = storeGhost(undefined, 1, ghost, 2);
+    stored = storeGhost(stored, 2, ghost, 2);
+    stored = storeGhost(stored, 1, { ...ghost, score: 10 }, 2);
+    stored = storeGhost(stored, 3, ghost, 2);
+
+    expect(stored.map(entry => entry.levelId)).toEqual([1, 3]);
+    expect(storedGhostFor(stored, 1)?.score).toBe(10);
+    expect(storedGhostFor(stored, 2)).toBeNull();
+    expect(storedGhostFor(undefined, 1)).toBeNull();
+  });
+
+  it('should prefer faster runs, then higher scores', () => {
+    const run = (ticks: number, score: number): GhostRun => ({
+      ticks, score, interval: 1, x: Array(ticks).fill(0), distance: Array(ticks).fill(0), boost: Array(ticks).fill(0)
+    });
+
+    expect(isBetterGhost(run(10, 0))).toBe(true);
+    expect(isBetterGhost(run(9, 0), run(10, 100))).toBe(true);
+    expect(isBetterGhost(run(10, 100), run(9, 0))).toBe(false);
+    expect(isBetterGhost(run(10, 101), run(10, 100))).toBe(true);
+  });
+
+  it('should reject malformed stored ghosts', () => {
+    expect(isGhostRun(null)).toBe(false);
+    expect(isGhostRun({ ticks: 2, score: 0, interval: 1, x: [0], distance: [0, 0], boost: [0, 0] })).toBe(false);
+    // Per-step ghosts saved before runs were sampled
+    expect(isGhostRun({ ticks: 2, score: 0, x: [0, 0], distance: [0, 0], boost: [0, 0] })).toBe(false);
+    expect(isGhostRun(new GhostRecorder().finish(0))).toBe(true);
+  });
+});
+
+describe('Racing against a ghost', () => {
+  it('should only produce a ghost for a won run', () => {
+    const lost = new HeadlessSession(new RacingSimulation(level(2), 400, 800, new FixedRandom(), null, OPEN_FIELD));
+    lost.step(10000);
+    expect(lost.getResult().outcome).toBe('lost');
+    expect((lost.simulation as RacingSimulation).getGhostRun()).toBeNull();
+
+    const ghost = recordGhost();
+    expect(isGhostRun(ghost)).toBe(true);
+    expect(ghost.x.length).toBeLessThanOrEqual(Math.ceil(ghost.ticks / GHOST_SAMPLE_INTERVAL) + 1);
+    expect(ghost.x[ghost.x.length - 1]).toBe(0);
+  });
+
+  it('should stay level with a ghost of the same inputs', () => {
+    const ghost = recordGhost();
+    const session = race(ghost);
+    const simulation = session.simulation as RacingSimulation;
+
+    expect(new RacingSimulation(level(2), 400, 800, new FixedRandom(), null, OPEN_FIELD).getSnapshot().ghostGap).toBeNull();
+    session.step(1000);
+    expect(simulation.getSnapshot().ghostGap).toBe(0);
+    session.step(10000);
+    expect(session.ticks).toBe(ghost.ticks);
+  });
+
+  it('should pull ahead of the ghost while boosting and beat it', () => {
+    const ghost = recordGhost();
+    const session = race(ghost, 600);
+    const simulation = session.simulation as RacingSimulation;
+
+    session.step(1200);
+    expect(simulation.getSnapshot().ghostGap).toBeGreaterThan(0);
+
+    session.step(10000);
+    expect(session.getResult().outcome).toBe('won');
+    const faster = simulation.getGhostRun()!;
+    expect(faster.ticks).toBeLessThan(ghost.ticks);
+    expect(isBetterGhost(faster, ghost)).toBe(true);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Headless Harness Tests
+ * Engine simulations stepped under a fake clock with scripted input
+ */
+
+import { getLevelById, Level } from '../app/config/levels';
+import { getLevelSettings } from '../app/config/levelBundles';
+import { GameType } from '../app/game/config/gameTypes';
+import { HeadlessSession, runHeadless } from '../app/game/runtime/headless';
+import { RacingSimulation } from '../app/game/types/racing/simulation';
+import { CardSimulation } from '../app/game/types/card/simulation';
+import { WordSimulation } from '../app/game/types/word/simulation';
+import { SeededRandom } from '../app/game/runtime/random';
+
+const SCREEN_WIDTH = 400;
+const SCREEN_HEIGHT = 800;
+
+/**
+ * Every spawn lands mid-screen and every card is a 6
+ */
+class FixedRandom extends SeededRandom {
+  next(): number {
+    return 0.5;
+  }
+}
+
+function level(id: number): Level {
+  const found = getLevelById(id);
+  if (!found) throw new Error(`Missing level ${id}`);
+  return found;
+}
+
+// Level 2 with random spawns instead of its generated track
+const OPEN_FIELD = { ...getLevelSettings(GameType.RACING, 2), trackBudget: undefined, asteroidChance: 0.8 };
+
+function openFieldRacer(): RacingSimulation {
+  return new RacingSimulation(level(2), SCREEN_WIDTH, SCREEN_HEIGHT, new FixedRandom(), null, OPEN_FIELD);
+}
+
+describe('Headless harness', () => {
+  it('should advance the fake clock by one fixed step per tick', () => {
+    const session = new HeadlessSession(new WordSimulation(level(1), new SeededRandom(1)), 120);
+    session.step(240);
+    expect(session.ticks).toBe(240);
+    expect(session.now).toBeCloseTo(2000);
+    expect(session.getResult().time).toBeCloseTo(2);
+  });
+
+  it('should finish level 2 of the racer by hugging the left edge', () => {
+    const result = runHeadless(openFieldRacer(), {
+      ticks: 10000,
+      inputs: [{ tick: 0, type: 'button_press', buttonId: 'left' }]
+    });
+
+    expect(result.outcome).toBe('won');
+    expect(result.lives).toBe(5);
+    expect(result.time).toBeCloseTo(2000 / 60, 1);
+  });
+
+  it('should lose the racer when flying straight into the asteroid lane', () => {
+    const result = runHeadless(openFieldRacer(), {
+      ticks: 10000
+    });
+
+    expect(result.outcome).toBe('lost');
+    expect(result.lives).toBe(0);
+  });
+
+  it('should stop stepping once the game is over', () => {
+    const session = new HeadlessSession(new WordSimulation(level(1), new SeededRandom(1)));
+    session.step(10000);
+
+    expect(session.getResult().outcome).toBe('lost');
+    // 60s time limit, give or take one step of float rounding
+    expect(Math.abs(session.ticks - 60 * 120)).toBeLessThanOrEqual(1);
+    session.step(100);
+    expect(Math.abs(session.ticks - 60 * 120)).toBeLessThanOrEqual(1);
+  });
+
+  it('should let the card opponent play on until it beats a player who stood', () => {
+    // Every shuffle comes out the same: the player draws 6, 10, 10... and the
+    // opponent 5, 5, 5...
+    const session = new HeadlessSession(new CardSimulation(level(1), new FixedRandom()));
+    session.press('start');
+    session.step();
+    session.press('end_turn');
+    session.step();
+    expect(session.simulation.getSnapshot().phase).toBe('opponent');
+
+    session.runUntil(s => s.simulation.getSnapshot().phase === 'player', 2 * 120);
+    expect(session.simulation.getSnapshot().playerScore).toBe(16);
+    session.press('stand');
+
+    const resolved = session.runUntil(s => s.simulation.getSnapshot().phase === 'result', 10 * 120);
+    const snapshot = session.simulation.getSnapshot();
+
+    expect(resolved).toBe(true);
+    expect(snapshot.playerScore).toBe(16);
+    expect(snapshot.opponentScore).toBe(20);
+    expect(snapshot.losses).toBe(1);
+    // One turn per second: 5, then 10 and 20 after the player stood
+    expect(session.getResult().time).toBeCloseTo(3, 1);
+  });
+
+  it('should end the card game once a side has won three sets', () => {
+    const session = new HeadlessSession(new CardSimulation(level(1), new SeededRandom(5)));
+    session.press('start');
+    session.step();
+
+    // Stand on 17 or more against whatever the opponent does
+    while (!session.isGameOver && session.ticks < 600 * 120) {
+      const { phase, playerScore } = session.simulation.getSnapshot();
+      if (phase === 'player') session.press(playerScore >= 17 ? 'stand' : 'end_turn');
+      if (phase === 'result') session.press('next_round');
+      session.step();
+    }
+
+    const { wins, losses, history } = session.simulation.getSnapshot();
+    const result = session.getResult();
+    expect(Math.max(wins, losses)).toBe(3);
+    expect(result.outcome).toBe(wins === 3 ? 'won' : 'lost');
+    expect(result.score).toBe(wins);
+    expect(history.filter(set => set.winner !== null)).toHaveLength(wins + losses);
+  });
+});
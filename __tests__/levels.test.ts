@@ -0,0 +1,268 @@
+/**
+ * Level Schema Tests
+ * Tests for level validation, per-game-type settings and the level build script
+ */
+
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LEVELS, Level } from '../app/config/levels';
+import {
+  checkDifficultyCurve,
+  findLevelSettings,
+  loadLevelBundle,
+  parseLevel,
+  parseLevelBundle,
+  parseLevelSettings
+} from '../app/config/levelSchemas';
+import { getLevelBundle, getLevelSettings } from '../app/config/levelBundles';
+import { GameType, getAllGameTypes } from '../app/game/config/gameTypes';
+import { HeadlessSession } from '../app/game/runtime/headless';
+import { SeededRandom } from '../app/game/runtime/random';
+import { RenderQueue, Shape } from '../app/game/runtime/rendering';
+import { getPlatformerMapNames } from '../app/game/types/platformer/maps';
+import { PuzzleSimulation } from '../app/game/types/puzzle/simulation';
+import { RacingSimulation } from '../app/game/types/racing/simulation';
+import { CardSimulation } from '../app/game/types/card/simulation';
+
+const PUZZLE_LEVEL = { levelId: 1, gridSize: 6, tileTypes: 5, moves: 30, hintDelay: 3 };
+const BUILD_SCRIPT = path.join(__dirname, '..', 'scripts', 'build-levels.js');
+
+function getLevel(id: number): Level {
+  return LEVELS.find(level => level.id === id)!;
+}
+
+function curveOf(...changes: Partial<Level>[]): Level[] {
+  return changes.map((change, index) => ({ ...LEVELS[index], ...change }));
+}
+
+/**
+ * Run the build script in check mode; returns its output and exit code
+ */
+function runBuildCheck(levelsDir?: string): { output: string; status: number } {
+  try {
+    const args = [BUILD_SCRIPT, '--check', ...(levelsDir ? [levelsDir] : [])];
+    return { output: execFileSync('node', args, { encoding: 'utf8' }), status: 0 };
+  } catch (error) {
+    const failed = error as { stdout: string; status: number };
+    return { output: failed.stdout, status: failed.status };
+  }
+}
+
+describe('Level validation', () => {
+  it('should accept every shipped level', () => {
+    LEVELS.forEach(level => expect(parseLevel(level)).toEqual({ ok: true, level }));
+  });
+
+  it('should report the level and field that is wrong', () => {
+    expect(parseLevel({ ...LEVELS[1], background: 'orange' })).toEqual({
+      ok: false,
+      error: 'level 2: background must be a #RRGGBB color',
+      levelId: 2,
+      field: 'background'
+    });
+    expect(parseLevel({ ...LEVELS[0], difficulty: 'extreme' }).ok).toBe(false);
+    expect(parseLevel({ ...LEVELS[0], seed: 1.5 }).ok).toBe(false);
+    expect(parseLevel({ ...LEVELS[0], bonus: 5 }).ok).toBe(false);
+  });
+
+  it('should find no errors in the shipped difficulty curve', () => {
+    const issues = checkDifficultyCurve(LEVELS);
+    expect(issues.filter(issue => issue.severity === 'error')).toEqual([]);
+    // Coming-soon levels are still being tuned
+    expect(issues.every(issue => !getLevel(issue.levelId).isPlayable)).toBe(true);
+  });
+
+  it('should reject playable levels that get easier', () => {
+    const issues = checkDifficultyCurve(curveOf({}, { targetScore: 50 }, { difficulty: 'easy', timeLimit: 90 }));
+    expect(issues.map(issue => [issue.levelId, issue.field, issue.severity])).toEqual([
+      [2, 'targetScore', 'error'],
+      [3, 'difficulty', 'error'],
+      [3, 'timeLimit', 'error']
+    ]);
+  });
+
+  it('should reject gaps and playable levels behind locked ones', () => {
+    const gap = checkDifficultyCurve([LEVELS[0], LEVELS[2]]);
+    expect(gap.map(issue => issue.field)).toEqual(['id']);
+
+    const unreachable = checkDifficultyCurve(curveOf({}, { isPlayable: false }, {}));
+    expect(unreachable.find(issue => issue.field === 'isPlayable')?.levelId).toBe(3);
+  });
+});
+
+describe('Level settings validation', () => {
+  it('should accept settings that match their game type', () => {
+    const result = parseLevelSettings({ gameType: 'puzzle', ...PUZZLE_LEVEL });
+    expect(result).toEqual({ ok: true, settings: { gameType: GameType.PUZZLE, ...PUZZLE_LEVEL } });
+  });
+
+  it('should name the level and field that is wrong', () => {
+    const result = parseLevelSettings({ gameType: 'puzzle', ...PUZZLE_LEVEL, levelId: 4, tileTypes: 9 });
+    expect(result).toEqual({
+      ok: false,
+      error: 'puzzle level 4: tileTypes must be an integer from 3 to 5',
+      levelId: 4,
+      field: 'tileTypes'
+    });
+  });
+
+  it('should reject unknown game types, missing fields and typos', () => {
+    const card = { gameType: 'card', levelId: 1, target: 20, roundsToWin: 3 };
+    expect(parseLevelSettings({ gameType: 'chess', levelId: 1 }).ok).toBe(false);
+    expect(parseLevelSettings(card).ok).toBe(false);
+    expect(parseLevelSettings({ ...card, aiDifficulty: 'brutal' }).ok).toBe(false);
+    expect(parseLevelSettings({ ...card, aiDifficulty: 'hard' }).ok).toBe(true);
+
+    const typo = parseLevelSettings({ gameType: 'puzzle', ...PUZZLE_LEVEL, gridsize: 8 });
+    expect(typo).toEqual({
+      ok: false,
+      error: 'puzzle level 1: unknown field "gridsize"',
+      levelId: 1,
+      field: 'gridsize'
+    });
+  });
+
+  it('should check racing layouts', () => {
+    const racing = {
+      gameType: 'racing',
+      levelId: 1,
+      distance: 500,
+      baseSpeed: 3,
+      spawnInterval: 1000
+    };
+    expect(parseLevelSettings({ ...racing, asteroidChance: 0.5 }).ok).toBe(true);
+    expect(parseLevelSettings({ ...racing, trackBudget: 0.5 }).ok).toBe(true);
+    expect(parseLevelSettings({ ...racing, track: ['A..C', '.AA.'] }).ok).toBe(true);
+    expect(parseLevelSettings({ ...racing, track: ['A..C', '.A'] }).ok).toBe(false);
+    expect(parseLevelSettings({ ...racing, track: ['A..X'] }).ok).toBe(false);
+    expect(parseLevelSettings({ ...racing, track: [] }).ok).toBe(false);
+    expect(parseLevelSettings({ ...racing, trackBudget: 1.5 }).ok).toBe(false);
+
+    expect(parseLevelSettings(racing).ok).toBe(false);
+    expect(parseLevelSettings({ ...racing, trackBudget: 0.5, asteroidChance: 0.5 })).toMatchObject({
+      ok: false,
+      field: 'asteroidChance'
+    });
+  });
+});
+
+describe('Level bundles', () => {
+  it('should validate every entry and sort by level id', () => {
+    const result = parseLevelBundle({
+      gameType: 'puzzle',
+      levels: [{ ...PUZZLE_LEVEL, levelId: 3 }, PUZZLE_LEVEL]
+    }, GameType.PUZZLE);
+    if (!result.ok) throw new Error(result.error);
+    expect(result.bundle.levels.map(level => level.levelId)).toEqual([1, 3]);
+  });
+
+  it('should reject duplicates, empty bundles and the wrong game type', () => {
+    expect(parseLevelBundle({ gameType: 'puzzle', levels: [PUZZLE_LEVEL, PUZZLE_LEVEL] })).toEqual({
+      ok: false,
+      error: 'puzzle level 1 is defined twice',
+      levelId: 1,
+      field: 'levelId'
+    });
+    expect(parseLevelBundle({ gameType: 'puzzle', levels: [] }).ok).toBe(false);
+    expect(parseLevelBundle({ gameType: 'puzzle', levels: [PUZZLE_LEVEL] }, GameType.WORD).ok).toBe(false);
+    expect(() => loadLevelBundle({ gameType: 'puzzle' }, GameType.PUZZLE)).toThrow('Invalid level bundle');
+  });
+
+  it('should fall back to the closest earlier level', () => {
+    const bundle = loadLevelBundle({
+      gameType: 'puzzle',
+      levels: [{ ...PUZZLE_LEVEL, levelId: 2, moves: 20 }, { ...PUZZLE_LEVEL, levelId: 5, moves: 10 }]
+    }, GameType.PUZZLE);
+
+    expect(findLevelSettings(bundle, 1).moves).toBe(20);
+    expect(findLevelSettings(bundle, 4).moves).toBe(20);
+    expect(findLevelSettings(bundle, 9).moves).toBe(10);
+  });
+
+  it('should bundle valid settings for every level of every game type', () => {
+    getAllGameTypes().forEach(gameType => {
+      const bundle = getLevelBundle(gameType);
+      expect(bundle.gameType).toBe(gameType);
+      expect(bundle.levels.map(level => level.levelId)).toEqual(LEVELS.map(level => level.id));
+    });
+  });
+
+  it('should only reference bundled platformer maps', () => {
+    const names = getPlatformerMapNames();
+    getLevelBundle(GameType.PLATFORMER).levels.forEach(level => {
+      expect(names).toContain(level.map);
+    });
+  });
+});
+
+describe('Level build script', () => {
+  it('should find the generated level module up to date', () => {
+    const { output, status } = runBuildCheck();
+    expect(output).toContain('0 errors');
+    expect(status).toBe(0);
+  });
+
+  it('should report bad level files with their line', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'levels-'));
+    try {
+      LEVELS.slice(0, 2).forEach(level => {
+        fs.writeFileSync(path.join(dir, `level-${level.id}.json`), JSON.stringify(level, null, 2));
+      });
+      fs.writeFileSync(
+        path.join(dir, 'level-3.json'),
+        JSON.stringify({ ...LEVELS[2], timeLimit: -5 }, null, 2)
+      );
+
+      const { output, status } = runBuildCheck(dir);
+      expect(status).toBe(1);
+      expect(output).toMatch(/level-3\.json:5: error: level 3: timeLimit must be a number > 0/);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Engines driven by level settings', () => {
+  const level = LEVELS[0];
+
+  it('should size the puzzle board and palette from settings', () => {
+    const settings = { ...getLevelSettings(GameType.PUZZLE, 1), gridSize: 8, tileTypes: 3 };
+    const { grid, moves } = new PuzzleSimulation(level, new SeededRandom(1), settings).getSnapshot();
+
+    expect(grid).toHaveLength(8);
+    expect(grid.every(row => row.length === 8)).toBe(true);
+    expect(new Set(grid.flat().map(tile => tile.color)).size).toBeLessThanOrEqual(3);
+    expect(moves).toBe(settings.moves);
+  });
+
+  it('should play the card rules from settings', () => {
+    const settings = { ...getLevelSettings(GameType.CARD, 1), target: 30, roundsToWin: 1 };
+    const snapshot = new CardSimulation(level, new SeededRandom(1), settings).getSnapshot();
+    expect(snapshot.target).toBe(30);
+    expect(snapshot.roundsToWin).toBe(1);
+  });
+
+  it('should spawn a fixed racing track row by row from the bottom', () => {
+    const settings = {
+      ...getLevelSettings(GameType.RACING, 1),
+      spawnInterval: 100,
+      track: ['C...', 'A..A']
+    };
+    const simulation = new RacingSimulation(level, 400, 800, new SeededRandom(1), null, settings);
+    const session = new HeadlessSession(simulation);
+    const objects = () => {
+      const queue = new RenderQueue();
+      simulation.render(queue, 1);
+      return queue.getSorted().filter(item => item.id.startsWith('obj_')) as Shape[];
+    };
+
+    session.step(13); // First spawn after 100ms
+    expect(objects().map(object => object.x)).toEqual([20, 320]);
+
+    session.step(12);
+    expect(objects().map(object => object.id)).toEqual(['obj_0', 'obj_1', 'obj_2']);
+    expect(objects()[2].x).toBe(35);
+  });
+});
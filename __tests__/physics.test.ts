@@ -0,0 +1,362 @@
+/**
+ * Physics Tests
+ * Tests for the 2D collision helpers, swept tests, SAT shapes, tiles and broadphase
+ */
+
+import {
+  AABB,
+  PhysicsBody,
+  SpatialHash,
+  Vector2D,
+  checkAABBCollision,
+  checkShapeCollision,
+  getPenetration,
+  moveAgainstTiles,
+  obbToPolygon,
+  polygonPenetration,
+  queryTiles,
+  regularPolygon,
+  rotatedAABB,
+  sweepAABB,
+  sweepCircle,
+  sweepCircleAABB,
+  TileGrid
+} from '../app/game/runtime/physics2d';
+import { SeededRandom } from '../app/game/runtime/random';
+
+interface Body extends AABB {
+  id: number;
+}
+
+function randomBodies(count: number, seed: number): Body[] {
+  const rng = new SeededRandom(seed);
+  return Array.from({ length: count }, (_, id) => ({
+    id,
+    x: rng.range(-200, 800),
+    y: rng.range(-200, 800),
+    width: rng.range(5, 150),
+    height: rng.range(5, 150)
+  }));
+}
+
+function ids(bodies: Body[]): number[] {
+  return bodies.map(body => body.id).sort((a, b) => a - b);
+}
+
+function bruteForcePairs(bodies: Body[]): string[] {
+  const pairs: string[] = [];
+  for (let i = 0; i < bodies.length; i++) {
+    for (let j = i + 1; j < bodies.length; j++) {
+      if (checkAABBCollision(bodies[i], bodies[j])) pairs.push(`${i}-${j}`);
+    }
+  }
+  return pairs.sort();
+}
+
+function hashPairs(hash: SpatialHash<Body>): string[] {
+  const pairs: string[] = [];
+  hash.queryPairs((a, b) => pairs.push(`${Math.min(a.id, b.id)}-${Math.max(a.id, b.id)}`));
+  return pairs.sort();
+}
+
+describe('SpatialHash', () => {
+  it('should find only items overlapping the query box', () => {
+    const hash = new SpatialHash<Body>(50);
+    const a = { id: 0, x: 0, y: 0, width: 10, height: 10 };
+    const b = { id: 1, x: 100, y: 100, width: 10, height: 10 };
+    const wide = { id: 2, x: -500, y: 40, width: 1000, height: 10 };
+    [a, b, wide].forEach(body => hash.insert(body, body));
+
+    expect(ids(hash.query({ x: 5, y: 5, width: 10, height: 10 }))).toEqual([0]);
+    expect(ids(hash.query({ x: -300, y: 30, width: 500, height: 100 }))).toEqual([1, 2]);
+    expect(hash.query({ x: 300, y: 300, width: 10, height: 10 })).toEqual([]);
+  });
+
+  it('should track moves and removals', () => {
+    const hash = new SpatialHash<Body>(32);
+    const body = { id: 0, x: 0, y: 0, width: 10, height: 10 };
+    hash.insert(body, body);
+
+    body.x = 500;
+    hash.update(body, body);
+    expect(hash.query({ x: 0, y: 0, width: 20, height: 20 })).toEqual([]);
+    expect(hash.query({ x: 495, y: 0, width: 20, height: 20 })).toEqual([body]);
+
+    expect(hash.remove(body)).toBe(true);
+    expect(hash.remove(body)).toBe(false);
+    expect(hash.size).toBe(0);
+    expect(hash.query({ x: 495, y: 0, width: 20, height: 20 })).toEqual([]);
+  });
+
+  it('should match a brute-force scan for queries', () => {
+    const bodies = randomBodies(200, 11);
+    const hash = new SpatialHash<Body>(64);
+    bodies.forEach(body => hash.insert(body, body));
+
+    randomBodies(50, 12).forEach(area => {
+      expect(ids(hash.query(area))).toEqual(ids(bodies.filter(body => checkAABBCollision(body, area))));
+    });
+  });
+
+  it('should report each overlapping pair exactly once', () => {
+    const bodies = randomBodies(150, 21);
+    const hash = new SpatialHash<Body>(40);
+    bodies.forEach(body => hash.insert(body, body));
+
+    expect(hashPairs(hash)).toEqual(bruteForcePairs(bodies));
+
+    // Still exact after everything moves
+    const rng = new SeededRandom(22);
+    bodies.forEach(body => {
+      body.x += rng.range(-100, 100);
+      body.y += rng.range(-100, 100);
+      hash.update(body, body);
+    });
+    expect(hashPairs(hash)).toEqual(bruteForcePairs(bodies));
+  });
+
+  it('should report neighbours of a single item', () => {
+    const hash = new SpatialHash<Body>(16);
+    const bodies = [
+      { id: 0, x: 0, y: 0, width: 20, height: 20 },
+      { id: 1, x: 15, y: 15, width: 20, height: 20 },
+      { id: 2, x: 40, y: 40, width: 20, height: 20 }
+    ];
+    bodies.forEach(body => hash.insert(body, body));
+
+    const touching: number[] = [];
+    hash.queryItem(bodies[1], (_, other) => touching.push(other.id));
+    expect(touching.sort()).toEqual([0]);
+  });
+
+  it('should reject a non-positive cell size', () => {
+    expect(() => new SpatialHash(0)).toThrow();
+  });
+});
+
+describe('Swept collision', () => {
+  const wall = { x: 100, y: 0, width: 4, height: 100 };
+
+  it('should find the time of impact and normal of a moving box', () => {
+    const box = { x: 0, y: 40, width: 20, height: 20 };
+    const hit = sweepAABB(box, new Vector2D(160, 0), wall);
+
+    expect(hit).not.toBeNull();
+    expect(hit!.time).toBeCloseTo(80 / 160);
+    expect(hit!.normal).toEqual(new Vector2D(-1, 0));
+  });
+
+  it('should catch a thin wall that a discrete check steps over', () => {
+    const box = { x: 0, y: 40, width: 20, height: 20 };
+    const displacement = new Vector2D(200, 0);
+    const end = { ...box, x: box.x + displacement.x };
+
+    expect(checkAABBCollision(end, wall)).toBe(false);
+    expect(sweepAABB(box, displacement, wall)).not.toBeNull();
+  });
+
+  it('should ignore misses, short moves, sliding and overlaps', () => {
+    const box = { x: 0, y: 40, width: 20, height: 20 };
+    expect(sweepAABB(box, new Vector2D(50, 0), wall)).toBeNull();
+    expect(sweepAABB(box, new Vector2D(-200, 0), wall)).toBeNull();
+    expect(sweepAABB({ ...box, y: 100 }, new Vector2D(200, 0), wall)).toBeNull();
+    expect(sweepAABB({ ...box, x: 90 }, new Vector2D(50, 0), wall)).toBeNull();
+  });
+
+  it('should report a box resting on a surface as it moves into it', () => {
+    const floor = { x: 0, y: 100, width: 200, height: 10 };
+    const hit = sweepAABB({ x: 50, y: 80, width: 20, height: 20 }, new Vector2D(0, 5), floor);
+    expect(hit).toEqual({ time: 0, normal: new Vector2D(0, -1) });
+  });
+
+  it('should sweep circles against circles', () => {
+    const hit = sweepCircle({ x: 0, y: 0, radius: 5 }, new Vector2D(100, 0), { x: 50, y: 0, radius: 5 });
+    expect(hit!.time).toBeCloseTo(0.4);
+    expect(hit!.normal.x).toBeCloseTo(-1);
+
+    expect(sweepCircle({ x: 0, y: 20, radius: 5 }, new Vector2D(100, 0), { x: 50, y: 0, radius: 5 })).toBeNull();
+    expect(sweepCircle({ x: 0, y: 0, radius: 5 }, new Vector2D(-100, 0), { x: 50, y: 0, radius: 5 })).toBeNull();
+  });
+
+  it('should sweep circles against box faces and rounded corners', () => {
+    const face = sweepCircleAABB({ x: 50, y: 0, radius: 10 }, new Vector2D(100, 0), wall);
+    expect(face!.time).toBeCloseTo(40 / 100);
+    expect(face!.normal).toEqual(new Vector2D(-1, 0));
+
+    // Passes the corner square of the grown box but misses the rounded corner
+    expect(sweepCircleAABB({ x: 70, y: 13, radius: 10 }, new Vector2D(40, -40), wall)).toBeNull();
+
+    const corner = sweepCircleAABB({ x: 50, y: -5, radius: 10 }, new Vector2D(100, 0), wall);
+    expect(corner).not.toBeNull();
+    expect(corner!.normal.x).toBeLessThan(0);
+    expect(corner!.normal.y).toBeLessThan(0);
+  });
+});
+
+describe('PhysicsBody collision modes', () => {
+  const wall = { x: 100, y: -50, width: 4, height: 100 };
+
+  function fastBody(mode: 'discrete' | 'continuous'): PhysicsBody {
+    const body = new PhysicsBody(0, 0, 10, 10);
+    body.collisionMode = mode;
+    body.friction = 0;
+    body.restitution = 0;
+    body.velocity = new Vector2D(12000, 0);
+    return body;
+  }
+
+  it('should let a fast discrete body tunnel through a thin wall', () => {
+    const body = fastBody('discrete');
+    expect(body.update(1 / 60, [wall])).toEqual([]);
+    expect(body.position.x).toBe(200);
+  });
+
+  it('should stop a fast continuous body at the wall', () => {
+    const body = fastBody('continuous');
+    const contacts = body.update(1 / 60, [wall]);
+
+    expect(contacts).toHaveLength(1);
+    expect(contacts[0].collider).toBe(wall);
+    expect(body.position.x).toBeCloseTo(90);
+    expect(body.velocity.x).toBeCloseTo(0);
+  });
+
+  it('should slide along a surface after impact', () => {
+    const floor = { x: -1000, y: 20, width: 2000, height: 10 };
+    const body = new PhysicsBody(0, 0, 10, 10);
+    body.collisionMode = 'continuous';
+    body.friction = 0;
+    body.restitution = 0;
+    body.velocity = new Vector2D(600, 600);
+
+    body.update(1 / 30, [floor]);
+    expect(body.position.y).toBeCloseTo(10);
+    expect(body.position.x).toBeCloseTo(20);
+    expect(body.velocity.y).toBeCloseTo(0);
+  });
+
+  it('should push a discrete body out of shallow overlaps', () => {
+    const floor = { x: -100, y: 10, width: 200, height: 50 };
+    const body = new PhysicsBody(0, 0, 10, 10);
+    body.friction = 0;
+    body.restitution = 0;
+    body.velocity = new Vector2D(0, 120);
+
+    const contacts = body.update(1 / 60, [floor]);
+    expect(contacts[0].normal).toEqual(new Vector2D(0, -1));
+    expect(body.position.y).toBeCloseTo(0);
+    expect(body.velocity.y).toBeCloseTo(0);
+  });
+});
+
+describe('Separating axis shapes', () => {
+  it('should build OBB corners rotated about the center', () => {
+    const corners = obbToPolygon({ x: 0, y: 0, halfWidth: 10, halfHeight: 5, rotation: Math.PI / 2 }).points;
+    expect(corners[0].x).toBeCloseTo(5);
+    expect(corners[0].y).toBeCloseTo(-10);
+  });
+
+  it('should agree with the AABB test for unrotated boxes', () => {
+    const a = { x: 0, y: 0, width: 20, height: 20 };
+    const b = { x: 15, y: 5, width: 20, height: 20 };
+    const hit = getPenetration(a, b)!;
+
+    expect(hit.normal.x).toBeCloseTo(1);
+    expect(hit.normal.y).toBeCloseTo(0);
+    expect(hit.depth).toBeCloseTo(5);
+    expect(getPenetration(a, { ...b, x: 25 })).toBeNull();
+  });
+
+  it('should clear the corners a rotated box no longer covers', () => {
+    const box = { x: 0, y: 0, width: 40, height: 40 };
+    const nearCorner = { x: 36, y: 36, width: 10, height: 10 };
+
+    expect(checkAABBCollision(box, nearCorner)).toBe(true);
+    expect(checkShapeCollision(rotatedAABB(box, Math.PI / 4), nearCorner)).toBe(false);
+  });
+
+  it('should give a penetration vector that separates the shapes', () => {
+    const a = regularPolygon(0, 0, 20, 6);
+    const b = obbToPolygon({ x: 25, y: 5, halfWidth: 10, halfHeight: 10, rotation: 0.3 });
+    const hit = polygonPenetration(a, b)!;
+    expect(hit.normal.x).toBeGreaterThan(0);
+
+    const push = hit.normal.multiply(hit.depth + 1e-6);
+    const moved = { points: b.points.map(point => point.add(push)) };
+    expect(polygonPenetration(a, moved)).toBeNull();
+  });
+
+  it('should test circles against polygon edges and corners', () => {
+    const box = rotatedAABB({ x: 0, y: 0, width: 20, height: 20 }, 0);
+
+    const edge = getPenetration(box, { x: 25, y: 10, radius: 6 })!;
+    expect(edge.normal.x).toBeCloseTo(1);
+    expect(edge.depth).toBeCloseTo(1);
+
+    // Inside the corner's bounding square but outside its radius
+    expect(getPenetration(box, { x: 24, y: 24, radius: 5 })).toBeNull();
+    expect(getPenetration(box, { x: 23, y: 23, radius: 5 })).not.toBeNull();
+
+    const flipped = getPenetration({ x: 25, y: 10, radius: 6 }, box)!;
+    expect(flipped.normal.x).toBeCloseTo(-1);
+  });
+
+  it('should match circle-circle distances', () => {
+    const hit = getPenetration({ x: 0, y: 0, radius: 5 }, { x: 0, y: 8, radius: 5 })!;
+    expect(hit.normal).toEqual(new Vector2D(0, 1));
+    expect(hit.depth).toBeCloseTo(2);
+  });
+});
+
+describe('Tile grids', () => {
+  // '#' solid, '=' one-way, '.' empty; 10px tiles
+  function grid(rows: string[]): TileGrid<string> {
+    return {
+      tileSize: 10,
+      columns: rows[0].length,
+      rows: rows.length,
+      tileAt: (column, row) => {
+        const tile = rows[row]?.[column];
+        return tile === undefined || tile === '.' ? null : tile;
+      }
+    };
+  }
+  const blocks = (tile: string, normal: Vector2D) => tile === '#' || (tile === '=' && normal.y < 0);
+
+  it('should return only tiles a box overlaps, edges excluded', () => {
+    const map = grid(['#..', '.#.', '..#']);
+    expect(queryTiles(map, { x: 5, y: 5, width: 10, height: 10 }).map(hit => [hit.column, hit.row])).toEqual([[0, 0], [1, 1]]);
+    expect(queryTiles(map, { x: 10, y: 0, width: 10, height: 10 })).toEqual([]);
+  });
+
+  it('should land flush on the floor and report the contact', () => {
+    const map = grid(['...', '...', '###']);
+    const moved = moveAgainstTiles(map, { x: 5, y: 5, width: 10, height: 10 }, new Vector2D(0, 12), blocks);
+
+    expect(moved.y).toBe(10);
+    expect(moved.contacts.map(contact => contact.normal)).toEqual([new Vector2D(0, -1), new Vector2D(0, -1)]);
+  });
+
+  it('should stop at walls however far the move', () => {
+    const map = grid(['.....#....']);
+    const moved = moveAgainstTiles(map, { x: 0, y: 0, width: 10, height: 10 }, new Vector2D(500, 0), blocks);
+    expect(moved.x).toBe(40);
+    expect(moved.contacts[0].column).toBe(5);
+  });
+
+  it('should let boxes jump up through one-way tiles and stand on them', () => {
+    const map = grid(['...', '===', '...']);
+    const up = moveAgainstTiles(map, { x: 5, y: 20, width: 10, height: 10 }, new Vector2D(0, -25), blocks);
+    expect(up.y).toBe(-5);
+    expect(up.contacts).toEqual([]);
+
+    const down = moveAgainstTiles(map, { x: 5, y: -5, width: 10, height: 10 }, new Vector2D(0, 10), blocks);
+    expect(down.y).toBe(0);
+  });
+
+  it('should slide along a floor while moving sideways', () => {
+    const map = grid(['....', '####']);
+    const moved = moveAgainstTiles(map, { x: 0, y: 0, width: 10, height: 10 }, new Vector2D(15, 3), blocks);
+    expect(moved).toMatchObject({ x: 15, y: 0 });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Platformer Tests
+ * Tests for tilemap loading and tile-based platforming
+ */
+
+import { getLevelById, Level } from '../app/config/levels';
+import { HeadlessSession } from '../app/game/runtime/headless';
+import { Camera, RenderQueue } from '../app/game/runtime/rendering';
+import { loadTilemap, parseTilemap } from '../app/game/types/platformer/tilemap';
+import { getPlatformerMap } from '../app/game/types/platformer/maps';
+import { PlatformerSimulation } from '../app/game/types/platformer/simulation';
+
+function level(id: number): Level {
+  const found = getLevelById(id);
+  if (!found) throw new Error(`Missing level ${id}`);
+  return found;
+}
+
+function run(rows: string[]): HeadlessSession {
+  return new HeadlessSession(new PlatformerSimulation(level(1), loadTilemap({ rows }, 'test')));
+}
+
+describe('Tilemap format', () => {
+  it('should parse tiles, size and spawn', () => {
+    const result = parseTilemap({ tileSize: 32, rows: ['S..G', '####'] });
+    if (!result.ok) throw new Error(result.error);
+
+    expect(result.map).toMatchObject({ tileSize: 32, columns: 4, rows: 2, width: 128, height: 64 });
+    expect(result.map.spawn).toEqual({ column: 0, row: 0 });
+    expect(result.map.tileAt(3, 0)).toBe('goal');
+    expect(result.map.tileAt(0, 0)).toBeNull();
+    expect(result.map.tileAt(9, 9)).toBeNull();
+  });
+
+  it('should reject malformed maps', () => {
+    expect(parseTilemap(null).ok).toBe(false);
+    expect(parseTilemap({ rows: [] }).ok).toBe(false);
+    expect(parseTilemap({ rows: ['S.G', '##'] }).ok).toBe(false);
+    expect(parseTilemap({ rows: ['S.G', '#x#'] })).toEqual({ ok: false, error: "Unknown tile 'x' at row 1, column 1" });
+    expect(parseTilemap({ rows: ['..G', '###'] }).ok).toBe(false);
+    expect(parseTilemap({ rows: ['SSG', '###'] }).ok).toBe(false);
+    expect(parseTilemap({ rows: ['S..', '###'] }).ok).toBe(false);
+    expect(parseTilemap({ tileSize: 0, rows: ['S.G', '###'] }).ok).toBe(false);
+  });
+
+  it('should bundle a valid map for every playable level, larger than one screen', () => {
+    [1, 2, 3].forEach(id => {
+      const map = getPlatformerMap(id);
+      expect(map.width).toBeGreaterThan(1000);
+    });
+  });
+
+  it('should hand out independent copies', () => {
+    const map = getPlatformerMap(1);
+    map.clearTile(45, 9);
+    expect(getPlatformerMap(1).tileAt(45, 9)).toBe('goal');
+  });
+});
+
+describe('PlatformerSimulation', () => {
+  it('should spawn standing on the floor', () => {
+    const session = run(['......', 'S....G', '######']);
+    session.step(10);
+
+    const simulation = session.simulation as PlatformerSimulation;
+    expect(simulation.getSnapshot().isGrounded).toBe(true);
+    expect(simulation.position.y).toBe(40);
+  });
+
+  it('should walk to the goal, collecting coins on the way', () => {
+    const session = run(['S.CC.G', '######']);
+    session.press('right');
+    session.step(600);
+
+    const result = session.getResult();
+    expect(result.outcome).toBe('won');
+    expect(result.score).toBe(level(1).coinValue * 2);
+  });
+
+  it('should lose on hazards and in pits', () => {
+    const spikes = run(['S.^..G', '######']);
+    spikes.press('right');
+    spikes.step(600);
+    expect(spikes.getResult().outcome).toBe('lost');
+
+    const pit = run(['S....G', '##..##']);
+    pit.press('right');
+    pit.step(600);
+    expect(pit.getResult().outcome).toBe('lost');
+  });
+
+  it('should jump over a pit', () => {
+    const session = run(['......', 'S....G', '##..##']);
+    session.press('right');
+    session.step(6);
+    session.press('jump');
+    session.step(600);
+    expect(session.getResult().outcome).toBe('won');
+  });
+
+  it('should jump up through one-way platforms and land on them', () => {
+    const session = run([
+      '.....',
+      '..G..',
+      '=====',
+      '.....',
+      'S....',
+      '#####'
+    ]);
+    session.step(2);
+    session.press('jump');
+    session.step(30);
+    session.press('right');
+    session.step(120);
+
+    expect(session.getResult().outcome).toBe('won');
+  });
+
+  it('should not jump in mid-air', () => {
+    const highest = (jumps: number[]) => {
+      const session = run(['......', '......', '......', '......', 'S....G', '######']);
+      const simulation = session.simulation as PlatformerSimulation;
+      session.script(jumps.map(tick => ({ tick, type: 'button_press' as const, buttonId: 'jump' })));
+
+      let top = simulation.position.y;
+      for (let i = 0; i < 240; i++) {
+        session.step();
+        top = Math.min(top, simulation.position.y);
+      }
+      return top;
+    };
+
+    expect(highest([2, 30])).toBe(highest([2]));
+    expect(highest([2])).toBeLessThan(160);
+  });
+
+  it('should scroll the camera with the player and keep it inside the map', () => {
+    const simulation = new PlatformerSimulation(level(1));
+    const camera = new Camera(400, 800);
+    const queue = new RenderQueue();
+
+    simulation.render(queue, 1, camera);
+    expect(camera.x).toBe(0);
+    const firstFrameTiles = queue.count();
+
+    const session = new HeadlessSession(simulation);
+    session.press('right');
+    session.step(120 * 3);
+    for (let frame = 0; frame < 60; frame++) {
+      queue.clear();
+      simulation.render(queue, 1, camera);
+    }
+
+    expect(camera.x).toBeGreaterThan(0);
+    expect(camera.x).toBeLessThanOrEqual(simulation.map.width - camera.width);
+    // Off-screen tiles are culled
+    expect(queue.count()).toBeLessThan(simulation.map.columns * simulation.map.rows);
+    expect(firstFrameTiles).toBeGreaterThan(0);
+  });
+
+  it('should move the camera by simulation steps, not by frames drawn', () => {
+    const cameraAfter = (framesPerStep: number) => {
+      const simulation = new PlatformerSimulation(level(1));
+      const camera = new Camera(400, 800);
+      const queue = new RenderQueue();
+      const session = new HeadlessSession(simulation);
+      session.press('right');
+      for (let step = 0; step < 120; step++) {
+        session.step();
+        for (let frame = 0; frame < framesPerStep; frame++) {
+          queue.clear();
+          simulation.render(queue, 1, camera);
+        }
+      }
+      return camera.x;
+    };
+
+    expect(cameraAfter(1)).toBeGreaterThan(0);
+    expect(cameraAfter(4)).toBeCloseTo(cameraAfter(1));
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Puzzle Tests
+ * Tests for match-3 board generation, move finding, hints and reshuffles
+ */
+
+import { LEVELS } from '../app/config/levels';
+import { getLevelSettings } from '../app/config/levelBundles';
+import { GameType } from '../app/game/config/gameTypes';
+import { HeadlessSession } from '../app/game/runtime/headless';
+import { SeededRandom } from '../app/game/runtime/random';
+import {
+  Colored,
+  Special,
+  applyGravity,
+  cellAt,
+  findMatches,
+  findMoves,
+  generateBoard,
+  isValidMove,
+  reshuffleBoard
+} from '../app/game/types/puzzle/board';
+import {
+  COLORS,
+  GridPosition,
+  PuzzleSimulation,
+  SHUFFLE_DURATION,
+  SWAP_DURATION,
+  tileButtonId
+} from '../app/game/types/puzzle/simulation';
+import {
+  blastArea,
+  clearedCells,
+  findRuns,
+  specialsFromRuns
+} from '../app/game/types/puzzle/specials';
+
+const SPECIAL_CODES: Record<string, Special> = { R: 'row', C: 'column', B: 'bomb', X: 'colorBomb' };
+
+/**
+ * Board from rows of color letters, e.g. ['ab', 'ba']. Upper case letters
+ * are specials (R row, C column, B bomb, X color bomb) colored 's'.
+ */
+function board(rows: string[]): Colored[][] {
+  return rows.map(row => [...row].map(code =>
+    SPECIAL_CODES[code] ? { color: 's', special: SPECIAL_CODES[code] } : { color: code }
+  ));
+}
+
+function cellKeys(cells: { row: number; col: number }[]): string[] {
+  return cells.map(({ row, col }) => `${row}:${col}`).sort();
+}
+
+const newTile = (color: string) => ({ color });
+
+describe('Match and move finding', () => {
+  it('should find runs of three or more in both directions', () => {
+    const grid = board([
+      'aaab',
+      'cdeb',
+      'fghb',
+      'ijkl'
+    ]);
+    expect(findMatches(grid)).toEqual([
+      { row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }, { row: 0, col: 3 },
+      { row: 1, col: 3 }, { row: 2, col: 3 }
+    ]);
+    expect(findMatches(board(['ab', 'ba']))).toEqual([]);
+  });
+
+  it('should find the swaps that make a match', () => {
+    const grid = board([
+      'aab',
+      'cda',
+      'efg'
+    ]);
+    expect(findMoves(grid)).toEqual([{ from: { row: 0, col: 2 }, to: { row: 1, col: 2 } }]);
+    expect(isValidMove(grid, { from: { row: 1, col: 2 }, to: { row: 0, col: 2 } })).toBe(true);
+    expect(isValidMove(grid, { from: { row: 0, col: 0 }, to: { row: 1, col: 1 } })).toBe(false);
+    // Checking a move leaves the board as it was
+    expect(grid.map(row => row.map(tile => tile.color).join(''))).toEqual(['aab', 'cda', 'efg']);
+  });
+});
+
+describe('Board generation', () => {
+  it('should start without matches and with at least one move', () => {
+    for (let seed = 0; seed < 40; seed++) {
+      const size = 4 + (seed % 5);
+      const colors = COLORS.slice(0, 3 + (seed % 3));
+      const grid = generateBoard(size, colors, newTile, new SeededRandom(seed));
+
+      expect(grid).toHaveLength(size);
+      expect(findMatches(grid)).toEqual([]);
+      expect(findMoves(grid).length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should be reproducible from a seed', () => {
+    const generate = (seed: number) => generateBoard(6, COLORS, newTile, new SeededRandom(seed));
+    expect(generate(3)).toEqual(generate(3));
+    expect(generate(3)).not.toEqual(generate(4));
+  });
+
+  it('should reshuffle the same tiles into a solvable board', () => {
+    const grid = generateBoard(5, COLORS, newTile, new SeededRandom(8));
+    const shuffled = reshuffleBoard(grid, new SeededRandom(9))!;
+    const sorted = (tiles: Colored[][]) => tiles.flat().map(tile => tile.color).sort();
+
+    expect(sorted(shuffled)).toEqual(sorted(grid));
+    expect(new Set(shuffled.flat())).toEqual(new Set(grid.flat()));
+    expect(findMatches(shuffled)).toEqual([]);
+    expect(findMoves(shuffled).length).toBeGreaterThan(0);
+  });
+
+  it('should give up on tiles that can never match', () => {
+    expect(reshuffleBoard(board(['ab', 'cd']), new SeededRandom(1))).toBeNull();
+  });
+});
+
+describe('Special tiles', () => {
+  it('should make a line clear from four in a line', () => {
+    const grid = board([
+      'aaaa',
+      'bcbc',
+      'cbcb',
+      'bcbc'
+    ]);
+    const runs = findRuns(grid);
+    expect(runs).toHaveLength(1);
+    expect(specialsFromRuns(grid, runs, [{ row: 0, col: 3 }, { row: 1, col: 3 }])).toEqual([
+      { at: { row: 0, col: 3 }, special: 'row', color: 'a' }
+    ]);
+
+    const column = board(['abc', 'abc', 'acb', 'abc']);
+    expect(specialsFromRuns(column, findRuns(column))).toEqual([
+      { at: { row: 2, col: 0 }, special: 'column', color: 'a' }
+    ]);
+  });
+
+  it('should make a color bomb from five in a line and a bomb from crossing runs', () => {
+    const five = board(['aaaaa', 'bcbcb', 'cbcbc', 'bcbcb', 'cbcbc']);
+    expect(specialsFromRuns(five, findRuns(five))[0].special).toBe('colorBomb');
+
+    const corner = board([
+      'aaab',
+      'acbc',
+      'abcb',
+      'bcbc'
+    ]);
+    expect(findRuns(corner)).toHaveLength(2);
+    expect(specialsFromRuns(corner, findRuns(corner))).toEqual([
+      { at: { row: 0, col: 0 }, special: 'bomb', color: 'a' }
+    ]);
+
+    expect(specialsFromRuns(board(['aaa', 'bcb', 'cbc']), findRuns(board(['aaa', 'bcb', 'cbc'])))).toEqual([]);
+  });
+
+  it('should clear each special\'s area and set off the specials it hits', () => {
+    const grid = board([
+      'abcd',
+      'bRdB',
+      'cdab',
+      'dabc'
+    ]);
+    expect(cellKeys(blastArea(grid, { row: 1, col: 1 }, 'row'))).toEqual(['1:0', '1:1', '1:2', '1:3']);
+    expect(cellKeys(blastArea(grid, { row: 0, col: 0 }, 'bomb'))).toEqual(['0:0', '0:1', '1:0', '1:1']);
+    expect(cellKeys(blastArea(grid, { row: 2, col: 2 }, 'colorBomb', 'd'))).toEqual(['0:3', '1:2', '2:1', '2:2', '3:0']);
+    expect(blastArea(grid, { row: 2, col: 2 }, 'colorBomb', null)).toHaveLength(16);
+
+    // Clearing the line clear sets off the bomb at the end of its row
+    expect(cellKeys(clearedCells(grid, [{ row: 1, col: 1 }]))).toEqual([
+      '0:2', '0:3', '1:0', '1:1', '1:2', '1:3', '2:2', '2:3'
+    ]);
+  });
+
+  it('should let a color bomb swap with anything', () => {
+    const grid = board(['Xa', 'bc']);
+    expect(isValidMove(grid, { from: { row: 0, col: 0 }, to: { row: 1, col: 0 } })).toBe(true);
+    expect(findMatches(board(['XXX']))).toEqual([]);
+  });
+
+  it('should drop tiles into gaps and refill from the top', () => {
+    const grid: (Colored | null)[][] = board(['ab', 'cd', 'ef']);
+    grid[1][0] = null;
+    grid[2][0] = null;
+    const falls = applyGravity(grid, () => ({ color: 'n' }));
+
+    expect(grid.map(row => row.map(tile => tile!.color).join(''))).toEqual(['nb', 'nd', 'af']);
+    expect(falls.get(grid[2][0]!)).toBe(2);
+    expect(falls.get(grid[0][0]!)).toBe(2);
+    expect(falls.has(grid[0][1]!)).toBe(false);
+  });
+});
+
+describe('Puzzle simulation', () => {
+  const level = { ...LEVELS[0], targetScore: 1000000 };
+  const settings = getLevelSettings(GameType.PUZZLE, 1);
+
+  it('should hint a valid move once the player is idle', () => {
+    const session = new HeadlessSession(new PuzzleSimulation(level, new SeededRandom(2), settings));
+    session.step(Math.floor(settings.hintDelay * 120) - 10);
+    expect(session.simulation.getSnapshot().hint).toBeNull();
+
+    session.step(20);
+    const { grid, hint } = session.simulation.getSnapshot();
+    expect(hint).not.toBeNull();
+    expect(isValidMove(grid, hint!)).toBe(true);
+
+    session.press(tileButtonId(0, 0));
+    session.step();
+    expect(session.simulation.getSnapshot().hint).toBeNull();
+  });
+
+  it('should cascade until no matches are left, raising the combo', () => {
+    const session = new HeadlessSession(new PuzzleSimulation(level, new SeededRandom(4), { ...settings, moves: 100, hintDelay: 0.5 }));
+    let bestCombo = 0;
+    let lastScore = 0;
+
+    for (let tick = 0; tick < 120 * 30; tick++) {
+      session.step();
+      const { grid, hint, fall, combo, score } = session.simulation.getSnapshot();
+      if (fall) bestCombo = Math.max(bestCombo, combo);
+      expect(score).toBeGreaterThanOrEqual(lastScore);
+      lastScore = score;
+
+      if (hint) {
+        // A hint only shows once the board has settled
+        expect(findMatches(grid)).toEqual([]);
+        session.press(tileButtonId(hint.from.row, hint.from.col));
+        session.press(tileButtonId(hint.to.row, hint.to.col));
+      }
+    }
+    expect(bestCombo).toBeGreaterThan(0);
+    expect(lastScore).toBeGreaterThan(0);
+  });
+
+  it('should reshuffle a deadlocked board and block input meanwhile', () => {
+    // Small boards with many colors run out of moves quickly
+    const small = { ...settings, gridSize: 4, tileTypes: 5, moves: 200, hintDelay: 0.1 };
+
+    for (let seed = 0; seed < 20; seed++) {
+      const session = new HeadlessSession(new PuzzleSimulation(level, new SeededRandom(seed), small));
+
+      for (let turn = 0; turn < small.moves; turn++) {
+        // Wait for the swap and its cascades to resolve and the next hint to show
+        let snapshot = session.simulation.getSnapshot();
+        for (let wait = 0; wait < 50 && !snapshot.shuffle && (wait === 0 || !snapshot.hint); wait++) {
+          session.step(12);
+          snapshot = session.simulation.getSnapshot();
+        }
+        const { hint, shuffle, grid } = snapshot;
+        if (shuffle) {
+          const ids = grid.flat().map(tile => tile.id).sort();
+          expect(Object.keys(shuffle.from).sort()).toEqual(ids);
+
+          session.press(tileButtonId(0, 0));
+          session.step();
+          expect(session.simulation.getSnapshot().selectedTile).toBeNull();
+
+          session.step(Math.ceil(SHUFFLE_DURATION * 120) + 1);
+          const after = session.simulation.getSnapshot();
+          expect(after.shuffle).toBeNull();
+          expect(findMatches(after.grid)).toEqual([]);
+          expect(findMoves(after.grid).length).toBeGreaterThan(0);
+          return;
+        }
+        if (!hint) break;
+        session.press(tileButtonId(hint.from.row, hint.from.col));
+        session.press(tileButtonId(hint.to.row, hint.to.col));
+      }
+    }
+    throw new Error('No seed reached a deadlock');
+  });
+});
+
+describe('Puzzle gestures', () => {
+  const level = { ...LEVELS[0], targetScore: 1000000 };
+  const settings = getLevelSettings(GameType.PUZZLE, 1);
+  const LAYOUT = { x: 20, y: 100, cellSize: 50 };
+
+  // Screen position of a cell's center
+  const center = ({ row, col }: GridPosition) => ({
+    x: LAYOUT.x + (col + 0.5) * LAYOUT.cellSize,
+    y: LAYOUT.y + (row + 0.5) * LAYOUT.cellSize
+  });
+
+  function createSession(seed: number) {
+    const simulation = new PuzzleSimulation(level, new SeededRandom(seed), settings);
+    simulation.setLayout(LAYOUT);
+    return new HeadlessSession(simulation);
+  }
+
+  it('should map screen positions to grid cells', () => {
+    expect(cellAt(LAYOUT, 6, 20, 100)).toEqual({ row: 0, col: 0 });
+    expect(cellAt(LAYOUT, 6, 169, 351)).toEqual({ row: 5, col: 2 });
+    expect(cellAt(LAYOUT, 6, 19, 120)).toBeNull();
+    expect(cellAt(LAYOUT, 6, 100, 400)).toBeNull();
+  });
+
+  it('should swap a swiped tile with its neighbour', () => {
+    const session = createSession(6);
+    const [move] = findMoves(session.simulation.getSnapshot().grid);
+    const start = center(move.from);
+    const horizontal = move.to.col !== move.from.col;
+    const [dx, dy] = horizontal ? [60, 5] : [-5, 60];
+
+    session.input(horizontal ? 'swipe_right' : 'swipe_down', undefined, start.x + dx, start.y + dy, dx, dy);
+    session.step();
+
+    const { swap, moves } = session.simulation.getSnapshot();
+    expect(swap).toMatchObject({ from: move.from, to: move.to, returning: false });
+    expect(moves).toBe(settings.moves - 1);
+
+    session.step(Math.ceil(SWAP_DURATION * 120) + 1);
+    expect(session.simulation.getSnapshot().fall).not.toBeNull();
+  });
+
+  it('should swap back after a drag that makes no match', () => {
+    const session = createSession(7);
+    const before = session.simulation.getSnapshot().grid;
+    const from = { row: 0, col: 0 };
+    const to = [{ row: 0, col: 1 }, { row: 1, col: 0 }]
+      .find(cell => !isValidMove(before.map(row => [...row]), { from, to: cell }))!;
+    const start = center(from);
+    const end = center(to);
+
+    session.input('drag_start', undefined, start.x + 8, start.y + 8, 8, 8);
+    session.input('drag_move', undefined, (start.x + end.x) / 2 + 2, (start.y + end.y) / 2 + 2, 4, 4);
+    session.step();
+    expect(session.simulation.getSnapshot().swap).toMatchObject({ from, to, returning: false });
+
+    session.step(Math.ceil(SWAP_DURATION * 120));
+    const returning = session.simulation.getSnapshot();
+    expect(returning.swap?.returning).toBe(true);
+    expect(returning.grid).toEqual(before);
+    expect(returning.moves).toBe(settings.moves);
+
+    session.input('drag_end', undefined, end.x, end.y);
+    session.step(Math.ceil(SWAP_DURATION * 120));
+    expect(session.simulation.getSnapshot().swap).toBeNull();
+  });
+
+  it('should still swap with two taps', () => {
+    const session = createSession(8);
+    const [move] = findMoves(session.simulation.getSnapshot().grid);
+
+    session.press(tileButtonId(move.from.row, move.from.col));
+    session.step();
+    expect(session.simulation.getSnapshot().selectedTile).toEqual(move.from);
+
+    session.press(tileButtonId(move.to.row, move.to.col));
+    session.step();
+    expect(session.simulation.getSnapshot().swap).toMatchObject({ from: move.from, to: move.to });
+  });
+
+  it('should ignore gestures that start off the board', () => {
+    const session = createSession(9);
+    session.input('swipe_right', undefined, 80, 40, 60, 0);
+    session.step();
+    expect(session.simulation.getSnapshot().swap).toBeNull();
+  });
+});
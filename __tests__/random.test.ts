@@ -0,0 +1,90 @@
+/**
+ * Seeded Random Tests
+ * Tests for deterministic random numbers and reproducible runs
+ */
+
+import { SeededRandom, seedFromString } from '../app/game/runtime/random';
+import { random, randomInt } from '../app/game/runtime/physics2d';
+import { ParticleSystem } from '../app/game/runtime/rendering';
+import { runHeadless } from '../app/game/runtime/headless';
+import { RunnerSimulation } from '../app/game/types/runner/simulation';
+import { WordSimulation } from '../app/game/types/word/simulation';
+import { LEVELS } from '../app/config/levels';
+
+function sequence(rng: SeededRandom, count: number): number[] {
+  return Array.from({ length: count }, () => rng.next());
+}
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    expect(sequence(new SeededRandom(42), 20)).toEqual(sequence(new SeededRandom(42), 20));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(sequence(new SeededRandom(1), 20)).not.toEqual(sequence(new SeededRandom(2), 20));
+  });
+
+  it('should stay within [0, 1)', () => {
+    const values = sequence(new SeededRandom(7), 1000);
+    values.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should cover both ends of an integer range', () => {
+    const rng = new SeededRandom(3);
+    const rolls = new Set(Array.from({ length: 500 }, () => rng.int(1, 10)));
+    expect(rolls).toEqual(new Set([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]));
+  });
+
+  it('should hash string seeds consistently', () => {
+    expect(new SeededRandom('daily-2026-10-19').seed).toBe(seedFromString('daily-2026-10-19'));
+    expect(seedFromString('daily-2026-10-19')).not.toBe(seedFromString('daily-2026-10-20'));
+  });
+
+  it('should resume a sequence from saved state', () => {
+    const rng = new SeededRandom(99);
+    sequence(rng, 5);
+    const saved = rng.getState();
+    const expected = sequence(rng, 5);
+
+    rng.setState(saved);
+    expect(sequence(rng, 5)).toEqual(expected);
+  });
+
+  it('should drive the physics2d and particle helpers', () => {
+    expect(random(0, 10, new SeededRandom(5))).toBe(random(0, 10, new SeededRandom(5)));
+    expect(randomInt(0, 10, new SeededRandom(5))).toBe(randomInt(0, 10, new SeededRandom(5)));
+
+    const a = new ParticleSystem(10, new SeededRandom(8));
+    const b = new ParticleSystem(10, new SeededRandom(8));
+    a.emit(0, 0, 10);
+    b.emit(0, 0, 10);
+    expect(a.getShapes()).toEqual(b.getShapes());
+  });
+});
+
+describe('Seeded runs', () => {
+  it('should replay a runner level identically from the same seed', () => {
+    const level = LEVELS[2];
+    const run = () => runHeadless(new RunnerSimulation(level, 400, new SeededRandom(1234)), {
+      ticks: 120 * 30,
+      inputs: [
+        { tick: 240, type: 'swipe_up' },
+        { tick: 900, type: 'swipe_down' },
+        { tick: 1500, type: 'swipe_down' }
+      ]
+    });
+
+    expect(run()).toEqual(run());
+  });
+
+  it('should deal the same letters for the same seed', () => {
+    const letters = (seed: number) =>
+      new WordSimulation(LEVELS[0], new SeededRandom(seed)).getSnapshot().letters;
+
+    expect(letters(77)).toEqual(letters(77));
+    expect(letters(77)).not.toEqual(letters(78));
+  });
+});
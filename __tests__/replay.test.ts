@@ -0,0 +1,138 @@
+/**
+ * Replay Tests
+ * Tests for input recording, serialization and step-accurate playback
+ */
+
+import {
+  Replay,
+  ReplayRecorder,
+  ReplayPlayer,
+  serializeReplay,
+  parseReplay
+} from '../app/game/runtime/replay';
+import { HeadlessSession, runReplay } from '../app/game/runtime/headless';
+import { SeededRandom } from '../app/game/runtime/random';
+import { RunnerSimulation } from '../app/game/types/runner/simulation';
+import { PuzzleSimulation, tileButtonId } from '../app/game/types/puzzle/simulation';
+import { WordSimulation } from '../app/game/types/word/simulation';
+import { LEVELS } from '../app/config/levels';
+
+const SAMPLE: Replay = {
+  version: 1,
+  levelId: 2,
+  seed: 987654321,
+  updateRate: 120,
+  ticks: 900,
+  events: [
+    { tick: 10, type: 'button_press', buttonId: 'left' },
+    { tick: 10, type: 'swipe_up' },
+    { tick: 250, type: 'tap', x: 120, y: 48 },
+    { tick: 250, type: 'swipe_left', x: 40, y: 52, dx: -80, dy: 4 },
+    { tick: 600, type: 'button_release', buttonId: 'left' }
+  ],
+  result: { score: 420, won: true }
+};
+
+describe('Replay format', () => {
+  it('should round-trip through serialization', () => {
+    const parsed = parseReplay(serializeReplay(SAMPLE));
+    expect(parsed).toEqual({ ok: true, replay: SAMPLE });
+  });
+
+  it('should delta-encode ticks compactly', () => {
+    const packed = JSON.parse(serializeReplay(SAMPLE));
+    expect(packed.e.map((event: number[]) => event[0])).toEqual([10, 0, 240, 0, 350]);
+  });
+
+  it('should reject malformed replays', () => {
+    expect(parseReplay('not json').ok).toBe(false);
+    expect(parseReplay('{"v":99}').ok).toBe(false);
+    expect(parseReplay('{"v":1,"l":1,"s":1,"r":0,"t":0,"e":[]}').ok).toBe(false);
+    expect(parseReplay('{"v":1,"l":1,"s":1,"r":120,"t":0,"e":[[-1,0]]}').ok).toBe(false);
+    expect(parseReplay('{"v":1,"l":1,"s":1,"r":120,"t":0,"e":[[0,42]]}').ok).toBe(false);
+  });
+});
+
+describe('ReplayPlayer', () => {
+  it('should release events on the step they were recorded', () => {
+    const player = new ReplayPlayer(SAMPLE);
+    expect(player.eventsAt(9)).toHaveLength(0);
+    expect(player.eventsAt(10).map(event => event.type)).toEqual(['button_press', 'swipe_up']);
+    expect(player.eventsAt(11)).toHaveLength(0);
+
+    const [tap] = player.eventsAt(300);
+    expect(tap.position.x).toBe(120);
+    expect(tap.timestamp).toBeCloseTo((250 / 120) * 1000);
+  });
+});
+
+describe('Recorded sessions', () => {
+  it('should reproduce a runner session from seed and inputs', () => {
+    const level = LEVELS[1];
+    const seed = 2024;
+    const recorder = new ReplayRecorder(level.id, seed);
+
+    const live = new HeadlessSession(new RunnerSimulation(level, 400, new SeededRandom(seed)));
+    live.recordInto(recorder);
+    live.step(300);
+    live.input('swipe_up');
+    live.step(700);
+    live.input('swipe_down');
+    live.input('swipe_down');
+    live.step(1400);
+
+    const replay = recorder.toReplay();
+    expect(replay.events).toHaveLength(3);
+    expect(replay.ticks).toBe(live.ticks);
+
+    // Fresh simulation from the serialized replay alone
+    const parsed = parseReplay(serializeReplay(replay));
+    if (!parsed.ok) throw new Error(parsed.error);
+    const replayed = runReplay(
+      new RunnerSimulation(level, 400, new SeededRandom(parsed.replay.seed)),
+      parsed.replay
+    );
+
+    expect(replayed).toEqual(live.getResult());
+  });
+
+  it('should reproduce puzzle swaps and their cascades', () => {
+    const level = LEVELS[0];
+    const recorder = new ReplayRecorder(level.id, 5);
+    const live = new HeadlessSession(new PuzzleSimulation(level, new SeededRandom(5)));
+    live.recordInto(recorder);
+
+    for (let col = 0; col < 5; col++) {
+      live.press(tileButtonId(2, col));
+      live.press(tileButtonId(2, col + 1));
+      live.step(60);
+    }
+
+    const replayed = new PuzzleSimulation(level, new SeededRandom(5));
+    runReplay(replayed, recorder.toReplay());
+    expect(replayed.getSnapshot()).toEqual(live.simulation.getSnapshot());
+  });
+
+  it('should replay drags that end a fraction of a pixel from a cell', () => {
+    const level = LEVELS[0];
+    const layout = { x: 0, y: 0, cellSize: 40 };
+    const recorder = new ReplayRecorder(level.id, 7);
+    const simulation = new WordSimulation(level, new SeededRandom(7));
+    simulation.setLayout(layout);
+    const live = new HeadlessSession(simulation);
+    live.recordInto(recorder);
+
+    // 14.3px from the centre of the cell below, just outside its 14px pick radius
+    live.input('drag_start', undefined, 20, 20, 0, 0);
+    live.input('drag_move', undefined, 20, 45.7);
+    live.step(10);
+    expect(live.simulation.getSnapshot().path).toEqual([0]);
+
+    const parsed = parseReplay(serializeReplay(recorder.toReplay()));
+    if (!parsed.ok) throw new Error(parsed.error);
+    const replayed = new WordSimulation(level, new SeededRandom(7));
+    replayed.setLayout(layout);
+    runReplay(replayed, parsed.replay);
+    expect(replayed.getSnapshot()).toEqual(live.simulation.getSnapshot());
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Fixed Timestep Tests
+ * Tests for frame-rate independent simulation stepping
+ */
+
+import { Animation, Easing } from '../app/game/runtime/rendering';
+import { FixedTimestep } from '../app/game/runtime/timestep';
+
+/**
+ * Feed `seconds` of frames at the given display rate, returning the step sizes taken
+ */
+function simulate(timestep: FixedTimestep, fps: number, seconds: number): number[] {
+  const steps: number[] = [];
+  const frameMs = 1000 / fps;
+  const frames = Math.round(seconds * fps);
+  for (let frame = 0; frame <= frames; frame++) {
+    timestep.advance(frame * frameMs, dt => steps.push(dt));
+  }
+  return steps;
+}
+
+describe('FixedTimestep', () => {
+  it('should always step with the same delta time', () => {
+    const timestep = new FixedTimestep({ updateRate: 120 });
+    const steps = simulate(timestep, 37, 1);
+    expect(new Set(steps).size).toBe(1);
+    expect(steps[0]).toBeCloseTo(1 / 120);
+  });
+
+  it('should run the same number of steps regardless of frame rate', () => {
+    const at30 = simulate(new FixedTimestep({ updateRate: 120 }), 30, 2).length;
+    const at60 = simulate(new FixedTimestep({ updateRate: 120 }), 60, 2).length;
+    const at144 = simulate(new FixedTimestep({ updateRate: 120 }), 144, 2).length;
+    expect(Math.abs(at30 - 240)).toBeLessThanOrEqual(1);
+    expect(Math.abs(at60 - 240)).toBeLessThanOrEqual(1);
+    expect(Math.abs(at144 - 240)).toBeLessThanOrEqual(1);
+  });
+
+  it('should not step on the first frame', () => {
+    const timestep = new FixedTimestep();
+    const step = jest.fn();
+    expect(timestep.advance(1000, step)).toBe(0);
+    expect(step).not.toHaveBeenCalled();
+  });
+
+  it('should return the leftover fraction as interpolation alpha', () => {
+    const timestep = new FixedTimestep({ updateRate: 100 });
+    timestep.advance(0, () => {});
+    const alpha = timestep.advance(25, () => {}); // 2.5 steps
+    expect(alpha).toBeCloseTo(0.5);
+  });
+
+  it('should clamp long frames to avoid a spiral of death', () => {
+    const timestep = new FixedTimestep({ updateRate: 120, maxFrameTime: 0.25, maxStepsPerFrame: 100 });
+    const step = jest.fn();
+    timestep.advance(0, step);
+    timestep.advance(10000, step);
+    expect(step).toHaveBeenCalledTimes(30);
+  });
+
+  it('should not simulate time across a resync', () => {
+    const timestep = new FixedTimestep({ updateRate: 120 });
+    const step = jest.fn();
+    timestep.advance(0, step);
+    timestep.resync();
+    timestep.advance(5000, step);
+    expect(step).not.toHaveBeenCalled();
+    expect(timestep.getStepCount()).toBe(0);
+  });
+});
+
+describe('Animation', () => {
+  it('should advance by fixed steps without the wall clock', () => {
+    const values: number[] = [];
+    const done = jest.fn();
+    const animation = new Animation(0, 10, 1, value => values.push(value), Easing.easeIn, done);
+
+    expect(animation.step(0.5)).toBe(false); // Not started
+    animation.start();
+    expect(animation.step(0.5)).toBe(true);
+    expect(values).toEqual([2.5]);
+    expect(animation.step(0.75)).toBe(false);
+    expect(values).toEqual([2.5, 10]);
+    expect(done).toHaveBeenCalledTimes(1);
+    expect(animation.running()).toBe(false);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Racing Track Tests
+ * Tests for procedural track generation and its guaranteed way through
+ */
+
+import { getLevelById } from '../app/config/levels';
+import { getLevelSettings } from '../app/config/levelBundles';
+import { GameType } from '../app/game/config/gameTypes';
+import { runHeadless } from '../app/game/runtime/headless';
+import { SeededRandom } from '../app/game/runtime/random';
+import { RacingSimulation } from '../app/game/types/racing/simulation';
+import { TrackOptions, chunkBudget, extendTrack, generateTrack } from '../app/game/types/racing/track';
+
+const OPTIONS: TrackOptions = { lanes: 5, reach: 1, rows: 64, budget: 0.5 };
+
+/**
+ * Rows in the order they reach the ship
+ */
+function arrivalRows(rows: string[]): string[] {
+  return [...rows].reverse();
+}
+
+/**
+ * Whether some sequence of open lanes, moving at most `reach` lanes per row,
+ * runs from the first row to the last
+ */
+function isTraversable(rows: string[], reach: number): boolean {
+  let reachable = [...rows[0]].map(cell => cell !== 'A');
+  for (const row of rows.slice(1)) {
+    reachable = [...row].map((cell, lane) =>
+      cell !== 'A' && reachable.some((open, from) => open && Math.abs(from - lane) <= reach)
+    );
+  }
+  return reachable.some(Boolean);
+}
+
+function count(rows: string[], char: string): number {
+  return rows.join('').split(char).length - 1;
+}
+
+describe('Track generation', () => {
+  it('should be reproducible from a seed', () => {
+    const track = (seed: number) => generateTrack(OPTIONS, new SeededRandom(seed));
+    expect(track(11)).toEqual(track(11));
+    expect(track(11).rows).not.toEqual(track(12).rows);
+  });
+
+  it('should generate whole chunks covering the requested rows', () => {
+    const { rows, safeLine } = generateTrack({ ...OPTIONS, rows: 20, chunkRows: 8 }, new SeededRandom(1));
+    expect(rows).toHaveLength(24);
+    expect(safeLine).toHaveLength(24);
+    expect(rows.every(row => row.length === 5 && /^[.AC]+$/.test(row))).toBe(true);
+  });
+
+  it('should keep a safe line the ship can steer along', () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const reach = seed % 3;
+      const { rows, safeLine } = generateTrack({ ...OPTIONS, reach, budget: 1 }, new SeededRandom(seed));
+      const arrival = arrivalRows(rows);
+
+      safeLine.forEach((lane, row) => {
+        expect(arrival[row][lane]).not.toBe('A');
+        if (row > 0) expect(Math.abs(lane - safeLine[row - 1])).toBeLessThanOrEqual(reach);
+      });
+      expect(isTraversable(arrival, reach)).toBe(true);
+    }
+  });
+
+  it('should keep the way through when a track is extended past its end', () => {
+    for (let seed = 0; seed < 30; seed++) {
+      const reach = seed % 3;
+      const options = { ...OPTIONS, reach, rows: 16, budget: 1 };
+      const rng = new SeededRandom(seed);
+      const first = generateTrack(options, rng);
+      let track = first;
+      for (let chunk = 0; chunk < 3; chunk++) track = extendTrack(track, options, rng);
+
+      const arrival = arrivalRows(track.rows);
+      expect(arrival).toHaveLength(40);
+      expect(arrival.slice(0, 16)).toEqual(arrivalRows(first.rows));
+      track.safeLine.forEach((lane, row) => {
+        expect(arrival[row][lane]).not.toBe('A');
+        if (row > 0) expect(Math.abs(lane - track.safeLine[row - 1])).toBeLessThanOrEqual(reach);
+      });
+      // Across the join, where repeating the track from its start could wall it off
+      expect(isTraversable(arrival.slice(8, 24), reach)).toBe(true);
+      expect(isTraversable(arrival, reach)).toBe(true);
+    }
+  });
+
+  it('should scale asteroid density with the budget', () => {
+    const asteroids = (budget: number) =>
+      count(generateTrack({ ...OPTIONS, budget }, new SeededRandom(3)).rows, 'A');
+
+    expect(asteroids(0)).toBe(0);
+    expect(asteroids(0.2)).toBeLessThan(asteroids(0.5));
+    expect(asteroids(0.5)).toBeLessThan(asteroids(0.9));
+  });
+
+  it('should ramp difficulty up from chunk to chunk', () => {
+    expect(chunkBudget(0.8, 0, 5)).toBeCloseTo(0.4);
+    expect(chunkBudget(0.8, 4, 5)).toBeCloseTo(0.8);
+
+    const arrival = arrivalRows(generateTrack({ ...OPTIONS, rows: 80 }, new SeededRandom(5)).rows);
+    expect(count(arrival.slice(0, 8), 'A')).toBeLessThan(count(arrival.slice(-8), 'A'));
+  });
+
+  it('should lay coins off the safe line, flanked by asteroids', () => {
+    const { rows, safeLine } = generateTrack({ ...OPTIONS, budget: 0.6 }, new SeededRandom(9));
+    const arrival = arrivalRows(rows);
+    let coins = 0;
+    let flanked = 0;
+
+    arrival.forEach((row, index) => {
+      [...row].forEach((cell, lane) => {
+        if (cell !== 'C') return;
+        coins++;
+        expect(lane).not.toBe(safeLine[index]);
+        if (row[lane - 1] === 'A' || row[lane + 1] === 'A') flanked++;
+      });
+    });
+
+    expect(coins).toBeGreaterThan(0);
+    expect(flanked / coins).toBeGreaterThan(0.75);
+  });
+});
+
+describe('Generated racing levels', () => {
+  it('should replay the same generated level from the same seed', () => {
+    const level = getLevelById(3)!;
+    const run = () => runHeadless(new RacingSimulation(level, 400, 800, new SeededRandom(42)), {
+      ticks: 120 * 20,
+      inputs: [{ tick: 300, type: 'button_press', buttonId: 'left' }]
+    });
+
+    expect(getLevelSettings(GameType.RACING, 3).trackBudget).toBeDefined();
+    expect(run()).toEqual(run());
+  });
+});
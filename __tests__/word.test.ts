@@ -0,0 +1,420 @@
+/**
+ * Word Tests
+ * Tests for packed dictionaries, letter grids, word validation and scoring
+ */
+
+import { LEVELS, getPlayableLevels } from '../app/config/levels';
+import { getLevelSettings } from '../app/config/levelBundles';
+import { GameType } from '../app/game/config/gameTypes';
+import { HeadlessSession } from '../app/game/runtime/headless';
+import { SeededRandom } from '../app/game/runtime/random';
+import { Dawg, LEAF, ROOT, packWords } from '../app/game/types/word/dawg';
+import { getDictionary } from '../app/game/types/word/dictionary';
+import {
+  GridCell,
+  areNeighbours,
+  findWords,
+  generateGrid,
+  isTraceable,
+  collapseCells,
+  landingRow,
+  pathWord
+} from '../app/game/types/word/grid';
+import {
+  LETTER_COUNTS,
+  LETTER_VALUES,
+  drawLetter,
+  lengthBonus,
+  scoreWord
+} from '../app/game/types/word/letters';
+import { WordSimulation, WordSnapshot, letterButtonId } from '../app/game/types/word/simulation';
+
+describe('Packed dictionaries', () => {
+  const words = ['cat', 'cats', 'bat', 'bats', 'at', 'scat'];
+  const dawg = new Dawg(packWords(words));
+
+  it('should contain exactly the packed words', () => {
+    words.forEach(word => expect(dawg.has(word)).toBe(true));
+    ['ca', 'ba', 'batss', 'dog', '', 's'].forEach(word => expect(dawg.has(word)).toBe(false));
+    expect(dawg.size).toBe(words.length);
+  });
+
+  it('should answer prefix queries', () => {
+    expect(dawg.hasPrefix('SC')).toBe(true);
+    expect(dawg.hasPrefix('cat')).toBe(true);
+    expect(dawg.hasPrefix('catz')).toBe(false);
+    expect(dawg.child(ROOT, 'Q')).toBeUndefined();
+    expect(dawg.isWord(LEAF)).toBe(true);
+  });
+
+  it('should share suffixes between words', () => {
+    const { nodes } = packWords(words);
+    // "-ATS" after B and C (and "-AT" after S-C) is stored once
+    expect(nodes.split(',').length).toBeLessThan(8);
+    expect(packWords(['cat', 'bat']).nodes).toBe('B1C1,A2,T');
+  });
+
+  it('should reject anything but letters', () => {
+    expect(() => packWords(['it\'s'])).toThrow('letters A-Z');
+    expect(() => new Dawg({ format: 'trie-9' as never, words: 0, nodes: '' })).toThrow('Unsupported');
+  });
+});
+
+describe('Bundled dictionary', () => {
+  const dictionary = getDictionary('common');
+
+  it('should load once and know everyday words', () => {
+    expect(getDictionary('common')).toBe(dictionary);
+    expect(dictionary.size).toBeGreaterThan(30000);
+    ['cat', 'jump', 'the', 'quiz', 'rhythm', 'keyboard'].forEach(word => {
+      expect(dictionary.has(word)).toBe(true);
+    });
+  });
+
+  it('should reject non-words', () => {
+    ['zzzz', 'qwrt', 'abcde', 'catx'].forEach(word => expect(dictionary.has(word)).toBe(false));
+  });
+});
+
+describe('Letter scoring', () => {
+  it('should use Scrabble letter values', () => {
+    expect(Object.keys(LETTER_VALUES)).toHaveLength(26);
+    expect(scoreWord('cat')).toBe(5);
+    expect(scoreWord('QUIZ')).toBe(22);
+  });
+
+  it('should reward long words', () => {
+    expect(lengthBonus(4)).toBe(0);
+    expect(lengthBonus(5)).toBe(2);
+    expect(lengthBonus(7)).toBe(12);
+    expect(scoreWord('rhythm')).toBe(1 + 4 + 4 + 1 + 4 + 3 + lengthBonus(6));
+  });
+
+  it('should draw common letters more often', () => {
+    const rng = new SeededRandom(1);
+    const counts: Record<string, number> = {};
+    for (let i = 0; i < 5000; i++) {
+      const letter = drawLetter(rng);
+      counts[letter] = (counts[letter] ?? 0) + 1;
+    }
+    expect(counts.E).toBeGreaterThan(counts.Z * 4);
+    expect(Object.keys(counts).every(letter => LETTER_COUNTS[letter] > 0)).toBe(true);
+    expect(drawLetter(rng, 'AEIOU')).toMatch(/^[AEIOU]$/);
+  });
+});
+
+describe('Letter grids', () => {
+  const dawg = new Dawg(packWords(['cat', 'cats', 'act', 'sat', 'tact', 'taco']));
+  const grid = [
+    ['C', 'A'],
+    ['S', 'T']
+  ];
+
+  it('should treat diagonals as touching', () => {
+    expect(areNeighbours({ row: 0, col: 0 }, { row: 1, col: 1 })).toBe(true);
+    expect(areNeighbours({ row: 0, col: 0 }, { row: 0, col: 2 })).toBe(false);
+    expect(areNeighbours({ row: 1, col: 1 }, { row: 1, col: 1 })).toBe(false);
+
+    const path = [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 1, col: 1 }];
+    expect(isTraceable(path)).toBe(true);
+    expect(pathWord(grid, path)).toBe('CAT');
+    expect(isTraceable([...path, { row: 0, col: 1 }])).toBe(false);
+  });
+
+  it('should find every traceable word without reusing cells', () => {
+    expect(findWords(grid, dawg, 3)).toEqual(['ACT', 'CAT', 'CATS', 'SAT']);
+    expect(findWords(grid, dawg, 4)).toEqual(['CATS']);
+  });
+
+  it('should let letters fall into the gaps left by a word', () => {
+    const well = [
+      [null, null, null],
+      ['A', null, null],
+      ['B', 'C', null],
+      ['D', 'E', 'F']
+    ];
+    expect(landingRow(well, 0)).toBe(0);
+    expect(landingRow(well, 2)).toBe(2);
+
+    const falls = collapseCells(well, [{ row: 2, col: 0 }, { row: 3, col: 0 }, { row: 3, col: 1 }]);
+    expect(well).toEqual([
+      [null, null, null],
+      [null, null, null],
+      [null, null, null],
+      ['A', 'C', 'F']
+    ]);
+    expect(falls).toEqual([{ row: 3, col: 0, rows: 2 }, { row: 3, col: 1, rows: 1 }]);
+    expect(landingRow([['A']], 0)).toBe(-1);
+  });
+
+  it('should guarantee the minimum number of words', () => {
+    const dictionary = getDictionary('common');
+    const options = { rows: 4, cols: 4, minWords: 40, minLength: 3 };
+    for (let seed = 0; seed < 10; seed++) {
+      const generated = generateGrid(options, dictionary, new SeededRandom(seed));
+      expect(generated.length).toBe(4);
+      expect(findWords(generated, dictionary, 3).length).toBeGreaterThanOrEqual(40);
+    }
+    const impossible = { rows: 2, cols: 2, minWords: 100, minLength: 3 };
+    expect(() => generateGrid(impossible, dictionary, new SeededRandom(1))).toThrow('Could not generate');
+  });
+});
+
+/**
+ * A snapshot's letters as rows
+ */
+function gridOf(snapshot: WordSnapshot): (string | null)[][] {
+  return Array.from({ length: snapshot.rows }, (_, row) =>
+    snapshot.letters.slice(row * snapshot.cols, (row + 1) * snapshot.cols)
+  );
+}
+
+/**
+ * Cells spelling a word in the grid
+ */
+function pathFor(grid: (string | null)[][], word: string): GridCell[] {
+  const search = (path: GridCell[]): GridCell[] | null => {
+    if (path.length === word.length) return path;
+    for (let row = 0; row < grid.length; row++) {
+      for (let col = 0; col < grid[row].length; col++) {
+        const cell = { row, col };
+        const next = [...path, cell];
+        if (grid[row][col] === word[path.length] && isTraceable(next)) {
+          const found = search(next);
+          if (found) return found;
+        }
+      }
+    }
+    return null;
+  };
+  const path = search([]);
+  if (!path) throw new Error(`${word} is not in the grid`);
+  return path;
+}
+
+describe('Word simulation', () => {
+  const level = LEVELS[0];
+  const settings = { ...getLevelSettings(GameType.WORD, 1), minWords: 20, minWordLength: 3 };
+  const layout = { x: 100, y: 200, cellSize: 40 };
+
+  function createSession(seed = 1) {
+    const simulation = new WordSimulation(level, new SeededRandom(seed), settings);
+    simulation.setLayout(layout);
+    return new HeadlessSession(simulation);
+  }
+
+  const centre = ({ row, col }: GridCell) => ({
+    x: layout.x + (col + 0.5) * layout.cellSize,
+    y: layout.y + (row + 0.5) * layout.cellSize
+  });
+
+  /**
+   * Drag through the centres of a path of cells, then let go
+   */
+  function trace(session: HeadlessSession<WordSnapshot>, path: GridCell[], release = true) {
+    const points = path.map(centre);
+    const first = points[0];
+    session.input('drag_start', undefined, first.x, first.y, 0, 0);
+    points.slice(1).forEach(point => session.input('drag_move', undefined, point.x, point.y));
+    const last = points[points.length - 1];
+    if (release) session.input('drag_end', undefined, last.x, last.y);
+    session.step();
+  }
+
+  it('should lay out the configured grid with the promised words', () => {
+    const snapshot = new WordSimulation(level, new SeededRandom(3)).getSnapshot();
+    expect(snapshot.rows).toBe(10);
+    expect(snapshot.cols).toBe(6);
+    expect(snapshot.letters).toHaveLength(60);
+
+    const words = findWords(gridOf(snapshot), getDictionary('common'), 3);
+    expect(words.length).toBeGreaterThanOrEqual(getLevelSettings(GameType.WORD, 1).minWords);
+  });
+
+  it('should score a word traced by dragging', () => {
+    const session = createSession();
+    const snapshot = session.simulation.getSnapshot();
+    const [word] = findWords(gridOf(snapshot), getDictionary('common'), 3);
+
+    trace(session, pathFor(gridOf(snapshot), word));
+    const after = session.simulation.getSnapshot();
+
+    expect(after.foundWords).toEqual([word]);
+    expect(after.score).toBe(scoreWord(word) * level.coinValue);
+    expect(after.path).toEqual([]);
+  });
+
+  it('should follow the finger between cells and step back along the trace', () => {
+    const session = createSession();
+    const path = [{ row: 0, col: 0 }, { row: 1, col: 1 }, { row: 2, col: 1 }];
+    trace(session, path, false);
+    expect(session.simulation.getSnapshot().path).toEqual([0, 7, 13]);
+
+    // Back to the second cell drops the third; cells two away are skipped
+    const back = centre(path[1]);
+    session.input('drag_move', undefined, back.x, back.y);
+    const far = centre({ row: 1, col: 3 });
+    session.input('drag_move', undefined, far.x, far.y);
+    session.step();
+    // The straight line to column 3 runs through column 2
+    expect(session.simulation.getSnapshot().path).toEqual([0, 7, 8, 9]);
+  });
+
+  it('should only let taps add touching letters', () => {
+    const session = createSession();
+    session.press(letterButtonId(0));
+    session.press(letterButtonId(2));
+    session.press(letterButtonId(6));
+    session.step();
+    expect(session.simulation.getSnapshot().path).toEqual([0, 6]);
+
+    session.press(letterButtonId(6));
+    session.step();
+    expect(session.simulation.getSnapshot().path).toEqual([0]);
+  });
+
+  it('should reject traces that are not words', () => {
+    const session = createSession();
+    const snapshot = session.simulation.getSnapshot();
+    const grid = gridOf(snapshot);
+    const dictionary = getDictionary('common');
+    const path = [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }, { row: 0, col: 3 }];
+    const bogus = dictionary.has(pathWord(grid, path)) ? path.slice(1) : path;
+    expect(dictionary.has(pathWord(grid, bogus))).toBe(false);
+
+    trace(session, bogus);
+    const after = session.simulation.getSnapshot();
+    expect(after.feedback?.title).toBe('Invalid');
+    expect(after.score).toBe(0);
+  });
+
+  it('should list the longest missed words at the end', () => {
+    const session = createSession();
+    const grid = gridOf(session.simulation.getSnapshot());
+    const words = findWords(grid, getDictionary('common'), 3)
+      .sort((a, b) => b.length - a.length || a.localeCompare(b));
+
+    trace(session, pathFor(grid, words[0]));
+    const summary = session.simulation.getSummary?.() ?? '';
+
+    expect(summary).toContain(words[1]);
+    expect(summary).not.toContain(`${words[0]},`);
+    expect(summary).toContain(`and ${words.length - 1 - 8} more`);
+  });
+});
+
+describe('Word tower', () => {
+  const level = LEVELS[3];
+  const towerSettings = getLevelSettings(GameType.WORD, 4);
+  // Long enough that nothing drops while a test traces a word
+  const slow = { ...towerSettings, dropInterval: 100 };
+
+  /**
+   * Every column is a solid stack resting on the bottom
+   */
+  function isSettled(snapshot: WordSnapshot): boolean {
+    const stack = gridOf(snapshot);
+    return stack[0].every((_, col) => {
+      const column = stack.map(cells => cells[col]);
+      const top = column.findIndex(letter => letter !== null);
+      return top === -1 || column.slice(top).every(letter => letter !== null);
+    });
+  }
+
+  it('should be played on a level that is open to players', () => {
+    const towers = getPlayableLevels()
+      .map(playable => getLevelSettings(GameType.WORD, playable.id))
+      .filter(settings => settings.mode === 'tower');
+
+    expect(towers.length).toBeGreaterThan(0);
+    towers.forEach(settings => expect(settings.dropInterval).toBeDefined());
+  });
+
+  it('should start with a few solvable rows at the bottom', () => {
+    expect(towerSettings.mode).toBe('tower');
+    const snapshot = new WordSimulation(level, new SeededRandom(2)).getSnapshot();
+    const stack = gridOf(snapshot);
+
+    expect(stack.slice(0, 7).flat().every(letter => letter === null)).toBe(true);
+    expect(stack.slice(7).flat().every(letter => letter !== null)).toBe(true);
+    expect(findWords(stack, getDictionary('common'), 3).length).toBeGreaterThanOrEqual(towerSettings.minWords);
+  });
+
+  it('should drop letters into the well over time', () => {
+    const session = new HeadlessSession(new WordSimulation(level, new SeededRandom(2)));
+    const count = () => session.simulation.getSnapshot().letters.filter(letter => letter !== null).length;
+
+    expect(session.runUntil(s => s.simulation.getSnapshot().falling.length > 0, 2 * 120)).toBe(true);
+    const { falling } = session.simulation.getSnapshot();
+    expect(falling[0].row).toBeLessThan(0.5);
+
+    session.step(2 * 120);
+    expect(count()).toBeGreaterThan(18);
+    expect(isSettled(session.simulation.getSnapshot())).toBe(true);
+  });
+
+  it('should be lost when the stack reaches the top', () => {
+    const fast = { ...towerSettings, dropInterval: 0.05 };
+    const session = new HeadlessSession(new WordSimulation(level, new SeededRandom(2), fast));
+    session.step(level.timeLimit * 120);
+    const snapshot = session.simulation.getSnapshot();
+
+    expect(session.getResult().outcome).toBe('lost');
+    expect(session.getResult().time).toBeLessThan(level.timeLimit);
+    expect(gridOf(snapshot)[0].some(letter => letter !== null)).toBe(true);
+  });
+
+  it('should clear a traced word and settle the letters above it', () => {
+    const simulation = new WordSimulation(level, new SeededRandom(2), slow);
+    const before = simulation.getSnapshot();
+    const stack = gridOf(before);
+
+    // Spell a word by tapping, the same path a drag would take
+    const [word] = findWords(stack, getDictionary('common'), 3);
+    const cells = pathFor(stack, word);
+
+    const session = new HeadlessSession(simulation);
+    cells.forEach(({ row, col }) => session.press(letterButtonId(row * before.cols + col)));
+    session.press('submit');
+    session.step();
+
+    const after = simulation.getSnapshot();
+    const remaining = (snapshot: WordSnapshot) => snapshot.letters.filter(letter => letter !== null).length;
+    expect(after.foundWords).toEqual([word]);
+    expect(remaining(after)).toBe(remaining(before) - word.length);
+    expect(isSettled(after)).toBe(true);
+
+    session.step(120);
+    expect(simulation.getSnapshot().settling).toEqual({});
+  });
+
+  it('should take a word again once new letters spell it', () => {
+    const spell = (session: HeadlessSession<WordSnapshot>, word: string) => {
+      const snapshot = session.simulation.getSnapshot();
+      pathFor(gridOf(snapshot), word).forEach(({ row, col }) => {
+        session.press(letterButtonId(row * snapshot.cols + col));
+      });
+      session.press('submit');
+      session.step();
+    };
+
+    // The first word that can still be traced after its letters are cleared
+    const dictionary = getDictionary('common');
+    const words = findWords(gridOf(new WordSimulation(level, new SeededRandom(2), slow).getSnapshot()), dictionary, 3);
+    let twice: { session: HeadlessSession<WordSnapshot>; word: string } | null = null;
+    for (const word of words) {
+      const session = new HeadlessSession(new WordSimulation(level, new SeededRandom(2), slow));
+      spell(session, word);
+      if (findWords(gridOf(session.simulation.getSnapshot()), dictionary, 3).includes(word)) {
+        twice = { session, word };
+        break;
+      }
+    }
+    if (!twice) throw new Error('No word can be spelled twice');
+
+    spell(twice.session, twice.word);
+    const snapshot = twice.session.simulation.getSnapshot();
+    expect(snapshot.feedback).toBeNull();
+    expect(snapshot.foundWords).toEqual([twice.word, twice.word]);
+  });
+});
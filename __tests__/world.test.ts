@@ -0,0 +1,164 @@
+/**
+ * Physics World Tests
+ * Tests for body stepping, contact resolution, layers and triggers
+ */
+
+import { Vector2D } from '../app/game/runtime/physics2d';
+import { PhysicsWorld, WorldEvent, getContact } from '../app/game/runtime/world';
+
+const STEP = 1 / 120;
+
+function stepFor<TData>(world: PhysicsWorld<TData>, seconds: number): void {
+  for (let i = 0; i < Math.round(seconds / STEP); i++) {
+    world.step(STEP);
+  }
+}
+
+describe('PhysicsWorld', () => {
+  it('should drop a dynamic box onto a static floor and keep it there', () => {
+    const world = new PhysicsWorld({ gravity: new Vector2D(0, 1000) });
+    const floor = world.addBody({ type: 'static', x: 0, y: 200, width: 400, height: 20 });
+    const box = world.addBody({ x: 100, y: 0, width: 20, height: 20 });
+
+    stepFor(world, 2);
+    expect(box.position.y).toBeCloseTo(180, 0);
+    expect(box.velocity.y).toBeCloseTo(0, 0);
+    expect(floor.position.y).toBe(200);
+  });
+
+  it('should bounce using restitution', () => {
+    const world = new PhysicsWorld();
+    world.addBody({ type: 'static', x: 0, y: 100, width: 400, height: 20 });
+    const ball = world.addBody({ x: 100, y: 78, radius: 10, restitution: 0.5 });
+    ball.velocity = new Vector2D(0, 600);
+
+    world.step(STEP);
+    expect(ball.velocity.y).toBeCloseTo(-300);
+    expect(ball.position.y + ball.height).toBeLessThanOrEqual(100 + 1e-9);
+  });
+
+  it('should slow sliding bodies with contact friction', () => {
+    const world = new PhysicsWorld({ gravity: new Vector2D(0, 1000) });
+    world.addBody({ type: 'static', x: -1000, y: 20, width: 2000, height: 20, friction: 0.5 });
+    const rough = world.addBody({ x: 0, y: 0, width: 20, height: 20, friction: 0.5 });
+    const slick = world.addBody({ x: 200, y: 0, width: 20, height: 20, friction: 0 });
+    rough.velocity = new Vector2D(300, 0);
+    slick.velocity = new Vector2D(300, 0);
+
+    stepFor(world, 0.5);
+    expect(slick.velocity.x).toBeCloseTo(300);
+    expect(rough.velocity.x).toBeLessThan(300);
+    expect(rough.velocity.x).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should push dynamic bodies with kinematic ones but not the reverse', () => {
+    const world = new PhysicsWorld();
+    const pusher = world.addBody({ type: 'kinematic', x: 0, y: 0, width: 20, height: 20 });
+    const crate = world.addBody({ x: 25, y: 0, width: 20, height: 20 });
+    pusher.velocity = new Vector2D(600, 0);
+
+    stepFor(world, 0.1);
+    expect(pusher.position.x).toBeCloseTo(60);
+    expect(pusher.velocity.x).toBe(600);
+    expect(crate.position.x).toBeGreaterThanOrEqual(pusher.position.x + 20 - 1e-6);
+  });
+
+  it('should share the separation between two dynamic bodies by mass', () => {
+    const world = new PhysicsWorld();
+    const light = world.addBody({ x: 0, y: 0, width: 20, height: 20, mass: 1 });
+    const heavy = world.addBody({ x: 10, y: 0, width: 20, height: 20, mass: 3 });
+
+    world.step(STEP);
+    expect(light.position.x).toBeCloseTo(-7.5);
+    expect(heavy.position.x).toBeCloseTo(12.5);
+  });
+
+  it('should only collide bodies whose layers match each other\'s masks', () => {
+    const PLAYER = 1 << 0;
+    const ENEMY = 1 << 1;
+    const world = new PhysicsWorld();
+    const player = world.addBody({ x: 0, y: 0, width: 20, height: 20, layer: PLAYER, mask: ENEMY });
+    const ghost = world.addBody({ x: 10, y: 0, width: 20, height: 20, layer: PLAYER, mask: ENEMY });
+    const enemy = world.addBody({ x: -10, y: 15, width: 15, height: 20, layer: ENEMY });
+
+    const hits: string[] = [];
+    world.on('collision', ({ a, b }) => hits.push(`${a.id}-${b.id}`));
+    world.step(STEP);
+
+    expect(hits).toEqual([`${player.id}-${enemy.id}`]);
+    expect(ghost.position.x).toBe(10);
+    expect(world.queryAABB({ x: 0, y: 0, width: 5, height: 5 }, ENEMY)).toEqual([]);
+  });
+
+  it('should raise trigger enter and exit events without resolving', () => {
+    const world = new PhysicsWorld<string>();
+    const coin = world.addBody({ type: 'static', x: 100, y: 0, width: 20, height: 20, isTrigger: true, data: 'coin' });
+    const player = world.addBody({ x: 0, y: 0, width: 20, height: 20, data: 'player' });
+    player.velocity = new Vector2D(1200, 0);
+
+    const events: WorldEvent<string>[] = [];
+    const record = (event: WorldEvent<string>) => events.push(event);
+    world.on('trigger_enter', record);
+    world.on('trigger_exit', record);
+    world.on('collision', record);
+
+    stepFor(world, 0.2);
+
+    expect(events.map(event => `${event.type}:${event.a.data}:${event.b.data}`)).toEqual([
+      'trigger_enter:coin:player',
+      'trigger_exit:coin:player'
+    ]);
+    expect(player.velocity.x).toBe(1200);
+    expect(coin.position.x).toBe(100);
+  });
+
+  it('should let listeners remove bodies mid-step', () => {
+    const world = new PhysicsWorld<string>();
+    world.addBody({ type: 'static', x: 10, y: 0, width: 20, height: 20, isTrigger: true, data: 'coin' });
+    world.addBody({ x: 0, y: 0, width: 20, height: 20, data: 'player' });
+
+    const collected: string[] = [];
+    world.on('trigger_enter', ({ a }) => {
+      collected.push(a.data!);
+      world.removeBody(a);
+    });
+    stepFor(world, 0.1);
+
+    expect(collected).toEqual(['coin']);
+    expect(world.bodyCount).toBe(1);
+  });
+
+  it('should stop fast continuous bodies at thin walls', () => {
+    const world = new PhysicsWorld();
+    world.addBody({ type: 'static', x: 100, y: -50, width: 4, height: 100 });
+    const bullet = world.addBody({ x: 0, y: 0, width: 10, height: 10 });
+    bullet.collisionMode = 'continuous';
+    bullet.velocity = new Vector2D(24000, 0);
+
+    world.step(STEP);
+    expect(bullet.position.x).toBeCloseTo(90);
+  });
+});
+
+describe('getContact', () => {
+  const world = new PhysicsWorld();
+
+  it('should point the normal from the first body to the second', () => {
+    const circle = world.addBody({ x: 0, y: 0, radius: 10 });
+    const box = world.addBody({ x: 15, y: 0, width: 20, height: 20 });
+
+    const contact = getContact(circle, box)!;
+    expect(contact.normal).toEqual(new Vector2D(1, 0));
+    expect(contact.depth).toBeCloseTo(5);
+    expect(getContact(box, circle)!.normal.x).toBeCloseTo(-1);
+  });
+
+  it('should separate circles and miss box corners they only reach in bounds', () => {
+    const a = world.addBody({ x: 0, y: 0, radius: 10 });
+    const b = world.addBody({ x: 15, y: 0, radius: 10 });
+    expect(getContact(a, b)!.depth).toBeCloseTo(5);
+
+    const corner = world.addBody({ x: 18, y: 18, width: 20, height: 20 });
+    expect(getContact(a, corner)).toBeNull();
+  });
+});
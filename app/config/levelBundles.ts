@@ -0,0 +1,48 @@
+/**
+ * Level Bundles
+ * Bundled per-game-type level settings, validated on first use
+ */
+
+import { GameType } from '../game/config/gameTypes';
+import {
+  LevelBundle,
+  LevelSettingsFor,
+  findLevelSettings,
+  loadLevelBundle
+} from './levelSchemas';
+import runner from './bundles/runner.json';
+import puzzle from './bundles/puzzle.json';
+import word from './bundles/word.json';
+import card from './bundles/card.json';
+import platformer from './bundles/platformer.json';
+import racing from './bundles/racing.json';
+
+const BUNDLE_DATA: Record<GameType, unknown> = {
+  [GameType.RUNNER]: runner,
+  [GameType.PUZZLE]: puzzle,
+  [GameType.WORD]: word,
+  [GameType.CARD]: card,
+  [GameType.PLATFORMER]: platformer,
+  [GameType.RACING]: racing
+};
+
+const loaded: { [T in GameType]?: LevelBundle<T> } = {};
+
+/**
+ * Validated bundle for a game type; throws if the bundled JSON is invalid
+ */
+export function getLevelBundle<T extends GameType>(gameType: T): LevelBundle<T> {
+  const cached = loaded[gameType] as LevelBundle<T> | undefined;
+  if (cached) return cached;
+
+  const bundle = loadLevelBundle(BUNDLE_DATA[gameType], gameType);
+  (loaded as Record<GameType, unknown>)[gameType] = bundle;
+  return bundle;
+}
+
+/**
+ * A level's settings for one game type
+ */
+export function getLevelSettings<T extends GameType>(gameType: T, levelId: number): LevelSettingsFor<T> {
+  return findLevelSettings(getLevelBundle(gameType), levelId);
+}
@@ -0,0 +1,139 @@
+/**
+ * Level Data
+ * Generated by scripts/build-levels.js from levels/*.json. Do not edit by hand.
+ */
+
+import { Level } from './levels';
+
+export const LEVEL_DATA: Level[] = [
+  {
+    id: 1,
+    name: 'Getting Started',
+    difficulty: 'easy',
+    timeLimit: 60,
+    targetScore: 100,
+    obstacles: 5,
+    powerUps: 3,
+    coinValue: 10,
+    background: '#87CEEB',
+    isPlayable: true,
+    comingSoon: false
+  },
+  {
+    id: 2,
+    name: 'Level Up',
+    difficulty: 'medium',
+    timeLimit: 45,
+    targetScore: 200,
+    obstacles: 10,
+    powerUps: 2,
+    coinValue: 15,
+    background: '#FFB347',
+    isPlayable: true,
+    comingSoon: false
+  },
+  {
+    id: 3,
+    name: 'Expert Challenge',
+    difficulty: 'hard',
+    timeLimit: 30,
+    targetScore: 300,
+    obstacles: 20,
+    powerUps: 1,
+    coinValue: 20,
+    background: '#FF6961',
+    isPlayable: true,
+    comingSoon: false
+  },
+  {
+    id: 4,
+    name: 'Advanced Trial',
+    difficulty: 'hard',
+    timeLimit: 30,
+    targetScore: 400,
+    obstacles: 25,
+    powerUps: 1,
+    coinValue: 25,
+    background: '#9B59B6',
+    isPlayable: false,
+    comingSoon: true
+  },
+  {
+    id: 5,
+    name: 'Speed Run',
+    difficulty: 'hard',
+    timeLimit: 20,
+    targetScore: 350,
+    obstacles: 30,
+    powerUps: 1,
+    coinValue: 30,
+    background: '#E74C3C',
+    isPlayable: false,
+    comingSoon: true
+  },
+  {
+    id: 6,
+    name: 'Master Class',
+    difficulty: 'hard',
+    timeLimit: 25,
+    targetScore: 500,
+    obstacles: 35,
+    powerUps: 0,
+    coinValue: 35,
+    background: '#1ABC9C',
+    isPlayable: false,
+    comingSoon: true
+  },
+  {
+    id: 7,
+    name: 'Nightmare Mode',
+    difficulty: 'hard',
+    timeLimit: 20,
+    targetScore: 600,
+    obstacles: 40,
+    powerUps: 0,
+    coinValue: 40,
+    background: '#34495E',
+    isPlayable: false,
+    comingSoon: true
+  },
+  {
+    id: 8,
+    name: 'Epic Journey',
+    difficulty: 'hard',
+    timeLimit: 40,
+    targetScore: 700,
+    obstacles: 45,
+    powerUps: 2,
+    coinValue: 45,
+    background: '#16A085',
+    isPlayable: false,
+    comingSoon: true
+  },
+  {
+    id: 9,
+    name: 'Ultimate Test',
+    difficulty: 'hard',
+    timeLimit: 35,
+    targetScore: 800,
+    obstacles: 50,
+    powerUps: 1,
+    coinValue: 50,
+    background: '#2C3E50',
+    isPlayable: false,
+    comingSoon: true
+  },
+  {
+    id: 10,
+    name: 'Legendary',
+    difficulty: 'hard',
+    timeLimit: 50,
+    targetScore: 1000,
+    obstacles: 60,
+    powerUps: 2,
+    coinValue: 60,
+    background: '#8E44AD',
+    isPlayable: false,
+    comingSoon: true
+  }
+];
@@ -0,0 +1,435 @@
+/**
+ * Level Schemas
+ * Runtime validation for levels and their per-game-type settings
+ *
+ * A Level (config/levels.ts) holds what every game shares: name, target
+ * score, time limit, reward. Each game type layers its own settings on top,
+ * authored as a JSON bundle with one entry per level id, so levels can be
+ * tuned without touching engine code. scripts/build-levels.js runs the same
+ * checks over the JSON sources.
+ */
+
+import { GameType } from '../game/config/gameTypes';
+import { Level } from './levels';
+
+export type AIDifficulty = 'easy' | 'medium' | 'hard';
+export const AI_DIFFICULTIES: AIDifficulty[] = ['easy', 'medium', 'hard'];
+
+export type WordDictionary = 'common';
+export const WORD_DICTIONARIES: WordDictionary[] = ['common'];
+
+// grid: find words in a full grid; tower: clear letters as they stack up
+export type WordMode = 'grid' | 'tower';
+export const WORD_MODES: WordMode[] = ['grid', 'tower'];
+
+// Racing track rows: . open space, A asteroid, C coin
+export const TRACK_CHARS = '.AC';
+
+export interface RunnerLevelSettings {
+  gameType: GameType.RUNNER;
+  levelId: number;
+  distance: number;     // Distance to the finish (10 per meter)
+  obstacleRate: number; // Obstacles per second
+  coinRate: number;     // Coins per second
+}
+
+export interface PuzzleLevelSettings {
+  gameType: GameType.PUZZLE;
+  levelId: number;
+  gridSize: number;  // Tiles per side
+  tileTypes: number; // Distinct tile colors
+  moves: number;
+  hintDelay: number; // Idle seconds before a possible move is highlighted
+}
+
+export interface WordLevelSettings {
+  gameType: GameType.WORD;
+  levelId: number;
+  mode: WordMode;
+  minWords: number; // Words the letter grid (or the tower's first rows) is guaranteed to hold
+  minWordLength: number;
+  dictionary: WordDictionary;
+  dropInterval?: number; // Seconds between falling letters in tower mode
+}
+
+export interface CardLevelSettings {
+  gameType: GameType.CARD;
+  levelId: number;
+  target: number;      // Total to reach without going over
+  roundsToWin: number;
+  aiDifficulty: AIDifficulty;
+}
+
+export interface PlatformerLevelSettings {
+  gameType: GameType.PLATFORMER;
+  levelId: number;
+  map: string; // Name of a bundled tilemap, e.g. "level-1"
+}
+
+export interface RacingLevelSettings {
+  gameType: GameType.RACING;
+  levelId: number;
+  distance: number;
+  baseSpeed: number;      // Pixels per 60 Hz frame
+  spawnInterval: number;  // Milliseconds between spawns (or track rows)
+  // Layout: exactly one of
+  track?: string[];        // Fixed rows (see TRACK_CHARS)
+  trackBudget?: number;    // Procedural track; 0-1 asteroid density
+  asteroidChance?: number; // Random spawns; share that are asteroids
+}
+
+export type LevelSettings =
+  | RunnerLevelSettings
+  | PuzzleLevelSettings
+  | WordLevelSettings
+  | CardLevelSettings
+  | PlatformerLevelSettings
+  | RacingLevelSettings;
+
+export type LevelSettingsFor<T extends GameType> = Extract<LevelSettings, { gameType: T }>;
+
+/**
+ * Bundle as stored in JSON; entries inherit the bundle's game type
+ */
+export interface LevelBundleData {
+  gameType: string;
+  levels: Record<string, unknown>[];
+}
+
+export interface LevelBundle<T extends GameType = GameType> {
+  gameType: T;
+  levels: LevelSettingsFor<T>[];
+}
+
+/**
+ * A failed check; levelId and field point tooling at the offending entry
+ */
+export interface LevelSchemaError {
+  ok: false;
+  error: string;
+  levelId?: number;
+  field?: string;
+}
+
+export type LevelParseResult =
+  | { ok: true; level: Level }
+  | LevelSchemaError;
+
+export type LevelSettingsParseResult<T extends GameType = GameType> =
+  | { ok: true; settings: LevelSettingsFor<T> }
+  | LevelSchemaError;
+
+export type LevelBundleParseResult<T extends GameType = GameType> =
+  | { ok: true; bundle: LevelBundle<T> }
+  | LevelSchemaError;
+
+/**
+ * Difficulty curve problems. Errors block a build; warnings are reported for
+ * levels that are not playable yet.
+ */
+export interface LevelCurveIssue {
+  levelId: number;
+  field: keyof Level;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export const DIFFICULTY_ORDER: Level['difficulty'][] = ['easy', 'medium', 'hard'];
+
+/**
+ * Returns a description of what was expected, or null when the value fits
+ */
+type FieldCheck = (value: unknown) => string | null;
+
+const integer = (min: number, max: number = Infinity): FieldCheck => value =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+    ? null
+    : max === Infinity ? `an integer >= ${min}` : `an integer from ${min} to ${max}`;
+
+const positive: FieldCheck = value =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? null : 'a number > 0';
+
+const nonNegative: FieldCheck = value =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0 ? null : 'a number >= 0';
+
+const fraction: FieldCheck = value =>
+  typeof value === 'number' && value >= 0 && value <= 1 ? null : 'a number from 0 to 1';
+
+const oneOf = (options: readonly string[]): FieldCheck => value =>
+  options.includes(value as string) ? null : `one of ${options.join(', ')}`;
+
+const text: FieldCheck = value =>
+  typeof value === 'string' && value.length > 0 ? null : 'a non-empty string';
+
+const flag: FieldCheck = value =>
+  typeof value === 'boolean' ? null : 'true or false';
+
+const color: FieldCheck = value =>
+  typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value) ? null : 'a #RRGGBB color';
+
+const optional = (check: FieldCheck): FieldCheck => value =>
+  value === undefined ? null : check(value);
+
+const trackRows: FieldCheck = value => {
+  const expected = `equal-length rows of "${TRACK_CHARS}"`;
+  if (!Array.isArray(value) || value.length === 0) return expected;
+  const width = String(value[0]).length;
+  return value.every(row =>
+    typeof row === 'string' &&
+    row.length === width &&
+    [...row].every(char => TRACK_CHARS.includes(char))
+  ) && width > 0 ? null : expected;
+};
+
+const LEVEL_FIELDS: Record<keyof Level, FieldCheck> = {
+  id: integer(1),
+  name: text,
+  difficulty: oneOf(DIFFICULTY_ORDER),
+  timeLimit: positive,
+  targetScore: positive,
+  obstacles: integer(0),
+  powerUps: integer(0),
+  coinValue: integer(0),
+  background: color,
+  isPlayable: flag,
+  comingSoon: flag,
+  seed: optional(integer(0))
+};
+
+// Field order used when writing levels back out
+export const LEVEL_FIELD_NAMES = Object.keys(LEVEL_FIELDS) as (keyof Level)[];
+
+const SETTINGS_FIELDS: Record<GameType, Record<string, FieldCheck>> = {
+  [GameType.RUNNER]: {
+    distance: positive,
+    obstacleRate: nonNegative,
+    coinRate: nonNegative
+  },
+  [GameType.PUZZLE]: {
+    gridSize: integer(4, 10),
+    tileTypes: integer(3, 5),
+    moves: integer(1),
+    hintDelay: positive
+  },
+  [GameType.WORD]: {
+    mode: oneOf(WORD_MODES),
+    minWords: integer(1),
+    minWordLength: integer(2, 6),
+    dictionary: oneOf(WORD_DICTIONARIES),
+    dropInterval: optional(positive)
+  },
+  [GameType.CARD]: {
+    target: integer(10),
+    roundsToWin: integer(1),
+    aiDifficulty: oneOf(AI_DIFFICULTIES)
+  },
+  [GameType.PLATFORMER]: {
+    map: text
+  },
+  [GameType.RACING]: {
+    distance: positive,
+    baseSpeed: positive,
+    spawnInterval: positive,
+    track: optional(trackRows),
+    trackBudget: optional(fraction),
+    asteroidChance: optional(fraction)
+  }
+};
+
+/**
+ * Checks across fields, run once every field is valid
+ */
+const SETTINGS_RULES: Partial<Record<GameType, (entry: Record<string, unknown>) => LevelSchemaError | null>> = {
+  [GameType.RACING]: entry => {
+    const layouts = ['track', 'trackBudget', 'asteroidChance'].filter(key => entry[key] !== undefined);
+    return layouts.length === 1 ? null : {
+      ok: false,
+      error: `racing level ${String(entry.levelId)}: needs exactly one of track, trackBudget or asteroidChance`,
+      levelId: entry.levelId as number,
+      field: layouts[1]
+    };
+  }
+};
+
+function isGameType(value: unknown): value is GameType {
+  return Object.values(GameType).includes(value as GameType);
+}
+
+/**
+ * Run field checks, then reject fields the schema does not know
+ */
+function checkFields(
+  entry: Record<string, unknown>,
+  fields: Record<string, FieldCheck>,
+  label: string,
+  levelId: number,
+  allowed: string[] = []
+): LevelSchemaError | null {
+  for (const [field, check] of Object.entries(fields)) {
+    const expected = check(entry[field]);
+    if (expected) {
+      return { ok: false, error: `${label}: ${field} must be ${expected}`, levelId, field };
+    }
+  }
+  const unknown = Object.keys(entry).find(key => !(key in fields) && !allowed.includes(key));
+  if (unknown) {
+    return { ok: false, error: `${label}: unknown field "${unknown}"`, levelId, field: unknown };
+  }
+  return null;
+}
+
+/**
+ * Validate a level definition (the fields every game type shares)
+ */
+export function parseLevel(data: unknown): LevelParseResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, error: 'Level must be an object' };
+  }
+
+  const entry = data as Record<string, unknown>;
+  const levelId = entry.id as number;
+  const failure = checkFields(entry, LEVEL_FIELDS, `level ${String(entry.id)}`, levelId);
+  return failure ?? { ok: true, level: entry as unknown as Level };
+}
+
+/**
+ * Check that levels, in id order, get harder: difficulty never drops, target
+ * scores rise and time limits do not grow. Playable levels must also form an
+ * unbroken run from the first, since each unlocks by beating the one before.
+ */
+export function checkDifficultyCurve(levels: Level[]): LevelCurveIssue[] {
+  const issues: LevelCurveIssue[] = [];
+  const sorted = [...levels].sort((a, b) => a.id - b.id);
+
+  sorted.forEach((level, index) => {
+    const previous = sorted[index - 1];
+    const severity = level.isPlayable ? 'error' : 'warning';
+    const issue = (field: keyof Level, message: string, forced?: 'error') => issues.push({
+      levelId: level.id,
+      field,
+      message: `level ${level.id}: ${message}`,
+      severity: forced ?? severity
+    });
+
+    if (level.isPlayable && level.comingSoon) {
+      issue('comingSoon', 'is playable but marked coming soon', 'error');
+    }
+    if (!previous) return;
+
+    if (level.id !== previous.id + 1) {
+      issue('id', `follows level ${previous.id}; ids must have no gaps`, 'error');
+    }
+    if (level.isPlayable && !previous.isPlayable) {
+      issue('isPlayable', `is playable but level ${previous.id} is not, so it can never unlock`, 'error');
+    }
+    if (DIFFICULTY_ORDER.indexOf(level.difficulty) < DIFFICULTY_ORDER.indexOf(previous.difficulty)) {
+      issue('difficulty', `is ${level.difficulty} after a ${previous.difficulty} level`, 'error');
+    }
+    if (level.targetScore <= previous.targetScore) {
+      issue('targetScore', `target score ${level.targetScore} does not rise above ${previous.targetScore}`);
+    }
+    if (level.timeLimit > previous.timeLimit) {
+      issue('timeLimit', `time limit ${level.timeLimit}s is longer than ${previous.timeLimit}s`);
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Validate one level's settings. Unknown fields are rejected so typos in
+ * hand-written JSON are caught instead of silently ignored.
+ */
+export function parseLevelSettings(data: unknown): LevelSettingsParseResult {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { ok: false, error: 'Level settings must be an object' };
+  }
+
+  const entry = data as Record<string, unknown>;
+  if (!isGameType(entry.gameType)) {
+    return { ok: false, error: `Unknown game type "${String(entry.gameType)}"` };
+  }
+  const label = `${entry.gameType} level ${String(entry.levelId)}`;
+  const levelId = entry.levelId as number;
+  const failure = checkFields(
+    entry,
+    { levelId: integer(1), ...SETTINGS_FIELDS[entry.gameType] },
+    label,
+    levelId,
+    ['gameType']
+  );
+  return failure ?? SETTINGS_RULES[entry.gameType]?.(entry) ?? {
+    ok: true,
+    settings: entry as unknown as LevelSettings
+  };
+}
+
+/**
+ * Validate a bundle, optionally requiring a specific game type
+ */
+export function parseLevelBundle<T extends GameType>(
+  data: unknown,
+  expectedType?: T
+): LevelBundleParseResult<T> {
+  const bundle = data as LevelBundleData;
+  if (!bundle || typeof bundle !== 'object' || !Array.isArray(bundle.levels)) {
+    return { ok: false, error: 'Level bundle must have a levels array' };
+  }
+  if (!isGameType(bundle.gameType)) {
+    return { ok: false, error: `Unknown game type "${String(bundle.gameType)}"` };
+  }
+  if (expectedType && bundle.gameType !== expectedType) {
+    return { ok: false, error: `Expected a ${expectedType} bundle, got ${bundle.gameType}` };
+  }
+  if (bundle.levels.length === 0) {
+    return { ok: false, error: `${bundle.gameType} bundle has no levels` };
+  }
+
+  const levels: LevelSettings[] = [];
+  for (const entry of bundle.levels) {
+    const result = parseLevelSettings({ ...entry, gameType: bundle.gameType });
+    if (!result.ok) return result;
+    if (levels.some(level => level.levelId === result.settings.levelId)) {
+      const { levelId } = result.settings;
+      return {
+        ok: false,
+        error: `${bundle.gameType} level ${levelId} is defined twice`,
+        levelId,
+        field: 'levelId'
+      };
+    }
+    levels.push(result.settings);
+  }
+
+  levels.sort((a, b) => a.levelId - b.levelId);
+  return {
+    ok: true,
+    bundle: { gameType: bundle.gameType as T, levels: levels as LevelSettingsFor<T>[] }
+  };
+}
+
+/**
+ * Parse a bundle, throwing if it is invalid (for bundled assets)
+ */
+export function loadLevelBundle<T extends GameType>(data: unknown, expectedType: T): LevelBundle<T> {
+  const result = parseLevelBundle(data, expectedType);
+  if (!result.ok) {
+    throw new Error(`Invalid level bundle: ${result.error}`);
+  }
+  return result.bundle;
+}
+
+/**
+ * Settings for a level; levels without their own entry reuse the closest
+ * earlier one (or the first, if none precede it)
+ */
+export function findLevelSettings<T extends GameType>(
+  bundle: LevelBundle<T>,
+  levelId: number
+): LevelSettingsFor<T> {
+  let match = bundle.levels[0];
+  for (const settings of bundle.levels) {
+    if (settings.levelId <= levelId) match = settings;
+  }
+  return match;
+}
@@ -4,6 +4,10 @@
  */
 
 import { Level } from '../config/levels';
+import { InputEvent } from './runtime/input';
+import { Camera, RenderQueue } from './runtime/rendering';
+import { Replay } from './runtime/replay';
+import { GhostRun } from './types/racing/ghost';
 
 export interface GameState {
   score: number;
@@ -21,8 +25,18 @@ export interface GameEngineProps {
   onWin: () => void;
   onLose: () => void;
   isPaused: boolean;
+  autoStart?: boolean; // Default true; when false the engine waits for start()
+  seed?: number;       // Overrides level.seed, e.g. for daily challenges or bug repros
+  replay?: Replay;     // Play back a recorded session; live input is ignored
+
+  // Racing only: best previous run to race against, and the trace of each won run
+  ghost?: GhostRun;
+  onGhostRecorded?: (ghost: GhostRun) => void;
 }
 
+/**
+ * Imperative handle exposed by every engine component through its ref
+ */
 export interface IGameEngine {
   // Lifecycle
   start(): void;
@@ -32,7 +46,30 @@ export interface IGameEngine {
   
   // State
   getState(): GameState;
+  getSeed(): number; // RNG seed of the current run
+  getReplay(): Replay; // Inputs recorded so far (or the replay being played)
+  getSummary(): string | null; // Extra lines for the end-of-level screen
   
   // Input handling (for different control schemes)
-  handleInput(input: any): void;
+  handleInput(input: InputEvent): void;
+}
+
+/**
+ * Simulation behind an engine component
+ * Pure game logic stepped by GameRuntime: fixed-size updates and typed
+ * input events in, render items and a UI snapshot out. No React.
+ */
+export interface EngineSimulation<TSnapshot> {
+  // Bumped whenever the snapshot would change
+  readonly revision: number;
+
+  update(deltaTime: number): void;
+  handleInput(input: InputEvent): void;
+  // camera is the runtime's scrolling camera, when the engine enables one
+  render?(renderQueue: RenderQueue, alpha: number, camera?: Camera | null): void;
+
+  getState(): GameState;
+  getSnapshot(): TSnapshot;
+  // Shown under the score when the level ends, e.g. words the player missed
+  getSummary?(): string | null;
 }
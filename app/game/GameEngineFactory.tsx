@@ -3,38 +3,45 @@
  * Selects and renders the appropriate game engine based on game type
  */
 
-import React from 'react';
+import React, { forwardRef } from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import { GameType } from './config/gameTypes';
-import { GameEngineProps } from './GameEngine';
+import { GameEngineProps, IGameEngine } from './GameEngine';
 import { RunnerEngine } from './types/runner/RunnerEngine';
 import { PuzzleEngine } from './types/puzzle/PuzzleEngine';
 import { WordEngine } from './types/word/WordEngine';
 import { CardEngine } from './types/card/CardEngine';
 import { PlatformerEngine } from './types/platformer/PlatformerEngine';
+import { RacingEngine } from './types/racing/RacingEngine';
 
 interface GameEngineFactoryProps extends GameEngineProps {
   gameType: GameType;
 }
 
-export const GameEngineFactory: React.FC<GameEngineFactoryProps> = (props) => {
+/**
+ * The ref is forwarded to the selected engine's IGameEngine handle
+ */
+export const GameEngineFactory = forwardRef<IGameEngine, GameEngineFactoryProps>(function GameEngineFactory(props, ref) {
   const { gameType, ...engineProps } = props;
 
   switch (gameType) {
     case GameType.RUNNER:
-      return <RunnerEngine {...engineProps} />;
+      return <RunnerEngine ref={ref} {...engineProps} />;
     
     case GameType.PUZZLE:
-      return <PuzzleEngine {...engineProps} />;
+      return <PuzzleEngine ref={ref} {...engineProps} />;
     
     case GameType.WORD:
-      return <WordEngine {...engineProps} />;
+      return <WordEngine ref={ref} {...engineProps} />;
     
     case GameType.CARD:
-      return <CardEngine {...engineProps} />;
+      return <CardEngine ref={ref} {...engineProps} />;
     
     case GameType.PLATFORMER:
-      return <PlatformerEngine {...engineProps} />;
+      return <PlatformerEngine ref={ref} {...engineProps} />;
+    
+    case GameType.RACING:
+      return <RacingEngine ref={ref} {...engineProps} />;
     
     default:
       return (
@@ -48,7 +55,7 @@ export const GameEngineFactory: React.FC<GameEngineFactoryProps> = (props) => {
         </View>
       );
   }
-};
+});
 
 const styles = StyleSheet.create({
   error: {
@@ -0,0 +1,56 @@
+/**
+ * Game Bootstrap
+ * Resolves which game type this build ships from app.json (expo.extra.gameType)
+ */
+
+import Constants from 'expo-constants';
+import {
+  GameType,
+  GameTypeConfig,
+  getAllGameTypes,
+  getGameTypeConfig
+} from './config/gameTypes';
+
+export type GameTypeResolution =
+  | { ok: true; gameType: GameType; config: GameTypeConfig }
+  | { ok: false; value: unknown; error: string };
+
+/**
+ * Validate a raw configured value against the supported game types
+ */
+export function resolveGameType(value: unknown): GameTypeResolution {
+  const supported = getAllGameTypes();
+  const expected = `Expected one of: ${supported.join(', ')}`;
+
+  if (value === undefined || value === null || value === '') {
+    return {
+      ok: false,
+      value,
+      error: `No game type configured. Set expo.extra.gameType in app.json. ${expected}`
+    };
+  }
+
+  if (typeof value !== 'string' || !supported.includes(value as GameType)) {
+    return {
+      ok: false,
+      value,
+      error: `Unknown game type "${String(value)}" in expo.extra.gameType. ${expected}`
+    };
+  }
+
+  const gameType = value as GameType;
+  return { ok: true, gameType, config: getGameTypeConfig(gameType) };
+}
+
+/**
+ * Resolve the game type configured for this build
+ */
+export function resolveActiveGameType(): GameTypeResolution {
+  const resolution = resolveGameType(Constants.expoConfig?.extra?.gameType);
+
+  if (!resolution.ok) {
+    console.error('[Bootstrap]', resolution.error);
+  }
+
+  return resolution;
+}
@@ -8,7 +8,8 @@ export enum GameType {
   PLATFORMER = 'platformer',
   PUZZLE = 'puzzle',
   WORD = 'word',
-  CARD = 'card'
+  CARD = 'card',
+  RACING = 'racing'
 }
 
 export interface GameTypeTheme {
@@ -219,7 +220,7 @@ export const CARD_CONFIG: GameTypeConfig = {
   },
   mechanics: {
     playerControl: 'Select cards to play',
-    winCondition: 'Reach exactly 20 or beat opponent',
+    winCondition: 'Beat the opponent without going over 20, or fill the table with nine cards',
     loseCondition: 'Bust over 20 or lose to opponent',
     scoring: 'Sum of card values'
   },
@@ -274,13 +275,61 @@ export const PLATFORMER_CONFIG: GameTypeConfig = {
   }
 };
 
+// Racing Game Type - Deep Space Theme
+export const RACING_CONFIG: GameTypeConfig = {
+  type: GameType.RACING,
+  displayName: 'Space Racer',
+  description: 'Top-down space racer through asteroid fields',
+  theme: {
+    name: 'Deep Space',
+    colors: {
+      primary: '#0099ff', // Thruster blue
+      secondary: '#00ff00', // Boost green
+      accent: '#ffd700', // Coin gold
+      background: '#000011',
+      text: '#ffffff',
+      textSecondary: '#cccccc'
+    },
+    fonts: {
+      title: 'Audiowide',
+      body: 'Exo 2',
+      size: {
+        small: 14,
+        medium: 18,
+        large: 28,
+        xlarge: 36
+      }
+    },
+    animations: {
+      speed: 'fast',
+      easing: 'linear'
+    },
+    imagePromptKeywords: ['space', 'starfield', 'spaceship', 'asteroids', 'racing', 'cosmic']
+  },
+  mechanics: {
+    playerControl: 'Hold left/right to steer, hold both to boost',
+    winCondition: 'Reach the target distance',
+    loseCondition: 'Run out of lives from asteroid collisions',
+    scoring: 'Points for distance traveled and coins collected'
+  },
+  levelParameters: {
+    baseSpeed: { easy: 3, medium: 4, hard: 5 },
+    spawnInterval: { easy: 2000, medium: 1500, hard: 1000 },
+    asteroidChance: { easy: 0.7, medium: 0.8, hard: 0.9 },
+    steerSpeed: 5,
+    maxBoostSpeed: 8,
+    startingLives: 5
+  }
+};
+
 // Master config map
 export const GAME_TYPE_CONFIGS: Record<GameType, GameTypeConfig> = {
   [GameType.RUNNER]: RUNNER_CONFIG,
   [GameType.PLATFORMER]: PLATFORMER_CONFIG,
   [GameType.PUZZLE]: PUZZLE_CONFIG,
   [GameType.WORD]: WORD_CONFIG,
-  [GameType.CARD]: CARD_CONFIG
+  [GameType.CARD]: CARD_CONFIG,
+  [GameType.RACING]: RACING_CONFIG
 };
 
 export function getGameTypeConfig(type: GameType): GameTypeConfig {
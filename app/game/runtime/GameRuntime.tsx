@@ -3,8 +3,8 @@
  * The heart of the dynamic game system
  * 
  * Provides:
- * - 60 FPS game loop
- * - Update/render cycle
+ * - Fixed timestep simulation (default 120 Hz) decoupled from rendering
+ * - Interpolated render cycle with FPS capping
  * - State management
  * - Lifecycle hooks
  * - Performance monitoring
@@ -13,9 +13,17 @@
  */
 
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { View, StyleSheet, Dimensions } from 'react-native';
+import { View, Text, StyleSheet, Dimensions, StyleProp, ViewStyle } from 'react-native';
 import { InputManager, createTouchHandlers } from './input';
-import { RenderQueue, Camera } from './rendering';
+import {
+  RenderQueue,
+  RenderableItem,
+  RenderLayer,
+  Camera,
+  Shape,
+  TextElement
+} from './rendering';
+import { FixedTimestep } from './timestep';
 
 /**
  * Game state
@@ -36,7 +44,8 @@ export interface GameState {
  * Game runtime configuration
  */
 export interface GameRuntimeConfig {
-  targetFPS: number;
+  targetFPS: number;   // Render frame cap
+  updateRate: number;  // Fixed simulation steps per second
   enablePhysics: boolean;
   enableInput: boolean;
   enableCamera: boolean;
@@ -46,11 +55,16 @@ export interface GameRuntimeConfig {
 
 /**
  * Game lifecycle hooks
+ *
+ * onUpdate is called with a fixed deltaTime (1 / updateRate), zero or more
+ * times per frame. onRender is called once per presented frame with the
+ * interpolation alpha (0-1) between the previous and current update, and the
+ * camera (when enableCamera is set) so it can be moved before drawing.
  */
 export interface GameLifecycle {
   onStart?: () => void;
   onUpdate?: (deltaTime: number, state: GameState) => void;
-  onRender?: (renderQueue: RenderQueue, state: GameState) => void;
+  onRender?: (renderQueue: RenderQueue, state: GameState, alpha: number, camera: Camera | null) => void;
   onPause?: () => void;
   onResume?: () => void;
   onGameOver?: (won: boolean) => void;
@@ -61,14 +75,18 @@ export interface GameLifecycle {
  * Props for GameRuntime component
  */
 export interface GameRuntimeProps {
-  config: GameRuntimeConfig;
+  config?: Partial<GameRuntimeConfig>;
   lifecycle: GameLifecycle;
   initialState?: Partial<GameState>;
+  paused?: boolean;
+  session?: number; // Changing it starts a new run from initialState
+  style?: StyleProp<ViewStyle>;
   children?: React.ReactNode;
 }
 
 const DEFAULT_CONFIG: GameRuntimeConfig = {
   targetFPS: 60,
+  updateRate: 120,
   enablePhysics: true,
   enableInput: true,
   enableCamera: false,
@@ -92,22 +110,41 @@ const DEFAULT_STATE: GameState = {
  * 
  * This is the generic game loop that ALL generated games use.
  * Generated mechanics code provides the lifecycle hooks.
+ *
+ * Simulation state lives in refs and is mutated by onUpdate. Only the
+ * render queue layer is redrawn per presented frame (while it has anything to
+ * draw); the runtime and its children re-render when their props change.
  */
 export const GameRuntime: React.FC<GameRuntimeProps> = ({
-  config = DEFAULT_CONFIG,
+  config: configOverrides = {},
   lifecycle,
   initialState = {},
+  paused = false,
+  session = 0,
+  style,
   children
 }) => {
-  // State
-  const [gameState, setGameState] = useState<GameState>({
+  const config: GameRuntimeConfig = { ...DEFAULT_CONFIG, ...configOverrides };
+
+  // Simulation state (never triggers a re-render)
+  const stateRef = useRef<GameState>({
     ...DEFAULT_STATE,
     ...initialState
   });
+  const lifecycleRef = useRef(lifecycle);
+  lifecycleRef.current = lifecycle;
+  const initialStateRef = useRef(initialState);
+  initialStateRef.current = initialState;
+
+  // Redraws the render queue layer; set once the layer has mounted
+  const redrawRef = useRef<(() => void) | null>(null);
+  // Whether the last presented frame drew anything, so a queue that empties is cleared once
+  const drewRef = useRef(false);
 
   // Refs for game loop
-  const frameIdRef = useRef<number>();
-  const lastFrameTimeRef = useRef<number>(0);
+  const frameIdRef = useRef<number | null>(null);
+  const timestepRef = useRef(new FixedTimestep({ updateRate: config.updateRate }));
+  const lastRenderTimeRef = useRef<number>(0);
   const fpsCounterRef = useRef({ frames: 0, lastTime: 0, fps: 60 });
   const inputManagerRef = useRef<InputManager>(new InputManager());
   const renderQueueRef = useRef<RenderQueue>(new RenderQueue());
@@ -123,13 +160,13 @@ export const GameRuntime: React.FC<GameRuntimeProps> = ({
   useEffect(() => {
     console.log('[GameRuntime] Initializing...');
     
-    if (lifecycle.onStart) {
-      lifecycle.onStart();
+    if (lifecycleRef.current.onStart) {
+      lifecycleRef.current.onStart();
     }
 
     return () => {
       console.log('[GameRuntime] Cleaning up...');
-      if (frameIdRef.current) {
+      if (frameIdRef.current !== null) {
         cancelAnimationFrame(frameIdRef.current);
       }
     };
@@ -139,52 +176,48 @@ export const GameRuntime: React.FC<GameRuntimeProps> = ({
    * Main game loop
    */
   const gameLoop = useCallback((currentTime: number) => {
-    // Calculate delta time
-    const deltaTime = lastFrameTimeRef.current === 0 
-      ? 0 
-      : (currentTime - lastFrameTimeRef.current) / 1000; // Convert to seconds
-    
-    lastFrameTimeRef.current = currentTime;
-
-    // Cap delta time to prevent spiral of death
-    const cappedDeltaTime = Math.min(deltaTime, 1 / 30); // Max 30 FPS minimum
+    const state = stateRef.current;
+    const hooks = lifecycleRef.current;
 
     // Update FPS counter
     updateFPS(currentTime);
 
-    // Skip if paused
-    if (gameState.paused || gameState.gameOver) {
-      frameIdRef.current = requestAnimationFrame(gameLoop);
-      return;
-    }
-
-    // Update phase
-    if (lifecycle.onUpdate) {
-      lifecycle.onUpdate(cappedDeltaTime, gameState);
-    }
-
-    // Update game time
-    setGameState(prev => ({
-      ...prev,
-      time: prev.time + cappedDeltaTime
-    }));
-
-    // Render phase
-    renderQueueRef.current.clear();
-    if (lifecycle.onRender) {
-      lifecycle.onRender(renderQueueRef.current, gameState);
+    // Update phase: consume elapsed time in fixed steps
+    const alpha = timestepRef.current.advance(currentTime, deltaTime => {
+      if (state.gameOver || state.won) return;
+      if (hooks.onUpdate) {
+        hooks.onUpdate(deltaTime, state);
+      }
+      state.time += deltaTime;
+    });
+
+    // Render phase (capped at targetFPS)
+    const minFrameInterval = 1000 / config.targetFPS;
+    if (currentTime - lastRenderTimeRef.current >= minFrameInterval - 1) {
+      lastRenderTimeRef.current = currentTime;
+      renderQueueRef.current.clear();
+      if (hooks.onRender) {
+        hooks.onRender(renderQueueRef.current, state, alpha, cameraRef.current);
+      }
+      const drawing = renderQueueRef.current.count() > 0;
+      if (drawing || drewRef.current) {
+        redrawRef.current?.();
+      }
+      drewRef.current = drawing;
     }
 
     // Check game over
-    if (gameState.gameOver || gameState.won) {
-      if (lifecycle.onGameOver) {
-        lifecycle.onGameOver(gameState.won);
+    if (state.gameOver || state.won) {
+      state.running = false;
+      if (hooks.onGameOver) {
+        hooks.onGameOver(state.won);
       }
+      return;
     }
 
     // Schedule next frame
     frameIdRef.current = requestAnimationFrame(gameLoop);
-  }, [gameState, lifecycle]);
+  }, [config.targetFPS]);
 
   /**
    * Update FPS counter
@@ -199,46 +232,68 @@ export const GameRuntime: React.FC<GameRuntimeProps> = ({
     }
   };
 
+  /**
+   * New session: discard the finished or in-progress run
+   */
+  const sessionRef = useRef(session);
+  useEffect(() => {
+    if (session === sessionRef.current) return;
+    sessionRef.current = session;
+
+    stateRef.current = {
+      ...DEFAULT_STATE,
+      ...initialStateRef.current
+    };
+    timestepRef.current.reset();
+    renderQueueRef.current.clear();
+  }, [session]);
+
   /**
    * Start/resume game loop
    */
   useEffect(() => {
-    if (gameState.running && !gameState.paused) {
+    stateRef.current.paused = paused;
+
+    if (stateRef.current.running && !paused) {
+      // Paused time must not be fed into the simulation
+      timestepRef.current.resync();
       frameIdRef.current = requestAnimationFrame(gameLoop);
       
       return () => {
-        if (frameIdRef.current) {
+        if (frameIdRef.current !== null) {
           cancelAnimationFrame(frameIdRef.current);
+          frameIdRef.current = null;
         }
       };
     }
-  }, [gameState.running, gameState.paused, gameLoop]);
+  }, [paused, session, gameLoop]);
 
   /**
-   * Handle input events
+   * Pause/resume notifications
    */
+  const wasPausedRef = useRef(paused);
   useEffect(() => {
-    if (config.enableInput && lifecycle.onInput) {
-      lifecycle.onInput(inputManagerRef.current);
+    if (paused === wasPausedRef.current) return;
+    wasPausedRef.current = paused;
+
+    const hooks = lifecycleRef.current;
+    if (paused && hooks.onPause) {
+      hooks.onPause();
+    } else if (!paused && hooks.onResume) {
+      hooks.onResume();
     }
-  }, [config.enableInput, lifecycle]);
+  }, [paused]);
 
   /**
-   * Pause/resume handlers
+   * Handle input events
    */
-  const handlePause = useCallback(() => {
-    setGameState(prev => ({ ...prev, paused: true }));
-    if (lifecycle.onPause) {
-      lifecycle.onPause();
-    }
-  }, [lifecycle]);
-
-  const handleResume = useCallback(() => {
-    setGameState(prev => ({ ...prev, paused: false }));
-    if (lifecycle.onResume) {
-      lifecycle.onResume();
+  useEffect(() => {
+    const inputManager = inputManagerRef.current;
+    if (config.enableInput && lifecycleRef.current.onInput) {
+      lifecycleRef.current.onInput(inputManager);
     }
-  }, [lifecycle]);
+    return () => inputManager.clear();
+  }, [config.enableInput]);
 
   /**
    * Touch handlers
@@ -254,12 +309,14 @@ export const GameRuntime: React.FC<GameRuntimeProps> = ({
         { 
           width: config.screenWidth, 
           height: config.screenHeight 
-        }
+        },
+        style
       ]}
       {...touchHandlers}
     >
-      {/* Game canvas - children render here */}
+      {/* Game canvas - render queue, then children on top */}
       <View style={styles.canvas}>
+        <RenderQueueLayer queue={renderQueueRef.current} camera={cameraRef.current} redrawRef={redrawRef} />
         {children}
       </View>
 
@@ -275,6 +332,137 @@ export const GameRuntime: React.FC<GameRuntimeProps> = ({
   );
 };
 
+interface RenderQueueLayerProps {
+  queue: RenderQueue;
+  camera: Camera | null;
+  redrawRef: React.MutableRefObject<(() => void) | null>;
+}
+
+/**
+ * The render queue's views. The game loop redraws this layer through
+ * redrawRef, so drawing a frame does not re-render anything around it.
+ */
+const RenderQueueLayer = React.memo(function RenderQueueLayer({ queue, camera, redrawRef }: RenderQueueLayerProps) {
+  const [, setFrame] = useState(0);
+
+  useEffect(() => {
+    redrawRef.current = () => setFrame(frame => frame + 1);
+    return () => {
+      redrawRef.current = null;
+    };
+  }, [redrawRef]);
+
+  return <>{queue.getSorted().map(item => renderItem(item, camera))}</>;
+});
+
+/**
+ * Draw a single render queue item as a React Native view.
+ * World layers are offset by the camera; the UI layer is drawn in screen space.
+ */
+function renderItem(item: RenderableItem, camera: Camera | null): React.ReactNode {
+  const layer = item.layer ?? RenderLayer.GAME;
+  const offsetX = camera && layer !== RenderLayer.UI ? camera.x : 0;
+  const offsetY = camera && layer !== RenderLayer.UI ? camera.y : 0;
+
+  if ('text' in item) {
+    const text = item as TextElement;
+    return (
+      <Text
+        key={text.id}
+        style={[
+          styles.item,
+          {
+            left: text.x - offsetX,
+            top: text.y - offsetY,
+            fontSize: text.fontSize,
+            color: text.color,
+            fontFamily: text.fontFamily,
+            textAlign: text.align,
+            opacity: text.opacity ?? 1
+          }
+        ]}
+      >
+        {text.text}
+      </Text>
+    );
+  }
+
+  if (!('type' in item)) {
+    // Plain sprites carry no visual data of their own
+    return null;
+  }
+
+  const shape = item as Shape;
+  const base = {
+    opacity: shape.opacity ?? 1,
+    backgroundColor: shape.color
+  };
+
+  switch (shape.type) {
+    case 'circle': {
+      const radius = shape.radius ?? 0;
+      return (
+        <View
+          key={shape.id}
+          style={[
+            styles.item,
+            base,
+            {
+              left: shape.x - radius - offsetX,
+              top: shape.y - radius - offsetY,
+              width: radius * 2,
+              height: radius * 2,
+              borderRadius: radius
+            }
+          ]}
+        />
+      );
+    }
+
+    case 'line': {
+      const dx = shape.width ?? 0;
+      const dy = shape.height ?? 0;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      return (
+        <View
+          key={shape.id}
+          style={[
+            styles.item,
+            base,
+            {
+              left: shape.x + dx / 2 - length / 2 - offsetX,
+              top: shape.y + dy / 2 - offsetY,
+              width: length,
+              height: 1,
+              transform: [{ rotate: `${Math.atan2(dy, dx)}rad` }]
+            }
+          ]}
+        />
+      );
+    }
+
+    case 'rect':
+    default:
+      return (
+        <View
+          key={shape.id}
+          style={[
+            styles.item,
+            base,
+            {
+              left: shape.x - offsetX,
+              top: shape.y - offsetY,
+              width: shape.width,
+              height: shape.height,
+              borderRadius: shape.cornerRadius,
+              transform: shape.rotation ? [{ rotate: `${shape.rotation}rad` }] : undefined
+            }
+          ]}
+        />
+      );
+  }
+}
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -286,6 +474,9 @@ const styles = StyleSheet.create({
     flex: 1,
     position: 'relative'
   },
+  item: {
+    position: 'absolute'
+  },
   debug: {
     position: 'absolute',
     top: 10,
@@ -330,7 +521,7 @@ export function useGameState(initialState?: Partial<GameState>) {
  */
 export function useGameLifecycle(
   onUpdate: (deltaTime: number, state: GameState) => void,
-  onRender: (renderQueue: RenderQueue, state: GameState) => void,
+  onRender: (renderQueue: RenderQueue, state: GameState, alpha: number) => void,
   options?: {
     onStart?: () => void;
     onPause?: () => void;
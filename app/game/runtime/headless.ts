@@ -0,0 +1,199 @@
+/**
+ * Headless Simulation Harness
+ * Steps an EngineSimulation without React Native, for tests and tooling
+ *
+ * Mirrors what GameRuntime does per fixed step: queued input is applied at
+ * the step boundary, then update() runs with the fixed deltaTime. Time comes
+ * from a fake clock that only advances when the session steps.
+ */
+
+import { EngineSimulation, GameState } from '../GameEngine';
+import { InputEvent, InputEventType } from './input';
+import { Vector2D } from './physics2d';
+import { Replay, ReplayRecorder } from './replay';
+
+/**
+ * An input scheduled for a specific tick (applied before that tick's update)
+ */
+export interface ScriptedInput {
+  tick: number;
+  type: InputEventType;
+  buttonId?: string;
+  x?: number;
+  y?: number;
+  deltaX?: number;
+  deltaY?: number;
+}
+
+export type HeadlessOutcome = 'won' | 'lost' | 'running';
+
+export interface HeadlessResult {
+  ticks: number;
+  time: number; // Simulated seconds
+  score: number;
+  lives: number;
+  outcome: HeadlessOutcome;
+  state: GameState;
+}
+
+export interface HeadlessRunOptions {
+  ticks: number;            // Upper bound on steps to run
+  updateRate?: number;      // Steps per second (default 120, like GameRuntime)
+  inputs?: ScriptedInput[];
+  stopOnGameOver?: boolean; // Default true
+}
+
+export class HeadlessSession<TSnapshot = unknown> {
+  readonly simulation: EngineSimulation<TSnapshot>;
+  readonly deltaTime: number;
+
+  private tick = 0;
+  private pending: InputEvent[] = [];
+  private scripted: ScriptedInput[] = [];
+  private recorder: ReplayRecorder | null = null;
+
+  constructor(simulation: EngineSimulation<TSnapshot>, updateRate: number = 120) {
+    this.simulation = simulation;
+    this.deltaTime = 1 / updateRate;
+  }
+
+  /**
+   * Ticks stepped so far
+   */
+  get ticks(): number {
+    return this.tick;
+  }
+
+  /**
+   * Fake clock in milliseconds
+   */
+  get now(): number {
+    return this.tick * this.deltaTime * 1000;
+  }
+
+  get isGameOver(): boolean {
+    return this.simulation.getState().isGameOver;
+  }
+
+  /**
+   * Queue an event for the next step
+   */
+  input(
+    type: InputEventType,
+    buttonId?: string,
+    x: number = 0,
+    y: number = 0,
+    deltaX?: number,
+    deltaY?: number
+  ): void {
+    this.pending.push({
+      type,
+      position: new Vector2D(x, y),
+      timestamp: this.now,
+      buttonId,
+      deltaX,
+      deltaY
+    });
+  }
+
+  press(buttonId: string): void {
+    this.input('button_press', buttonId);
+  }
+
+  release(buttonId: string): void {
+    this.input('button_release', buttonId);
+  }
+
+  /**
+   * Schedule inputs for later ticks
+   */
+  script(inputs: ScriptedInput[]): void {
+    this.scripted = [...this.scripted, ...inputs].sort((a, b) => a.tick - b.tick);
+  }
+
+  /**
+   * Record every applied input (and the step count) into a replay
+   */
+  recordInto(recorder: ReplayRecorder): void {
+    this.recorder = recorder;
+  }
+
+  /**
+   * Run `count` fixed steps, or fewer if the game ends and stopOnGameOver is set
+   */
+  step(count: number = 1, stopOnGameOver: boolean = true): void {
+    for (let i = 0; i < count; i++) {
+      if (stopOnGameOver && this.isGameOver) return;
+
+      while (this.scripted.length > 0 && this.scripted[0].tick <= this.tick) {
+        const { type, buttonId, x, y, deltaX, deltaY } = this.scripted.shift()!;
+        this.input(type, buttonId, x, y, deltaX, deltaY);
+      }
+
+      const pending = this.pending;
+      this.pending = [];
+      pending.forEach(event => {
+        this.recorder?.record(this.tick, event);
+        this.simulation.handleInput(event);
+      });
+
+      this.simulation.update(this.deltaTime);
+      this.tick++;
+      this.recorder?.setTicks(this.tick);
+    }
+  }
+
+  /**
+   * Step until the predicate holds or maxTicks more steps have run.
+   * Returns whether the predicate was met.
+   */
+  runUntil(predicate: (session: this) => boolean, maxTicks: number): boolean {
+    for (let i = 0; i < maxTicks; i++) {
+      if (predicate(this)) return true;
+      if (this.isGameOver) return false;
+      this.step();
+    }
+    return predicate(this);
+  }
+
+  getResult(): HeadlessResult {
+    const state = this.simulation.getState();
+    return {
+      ticks: this.tick,
+      time: this.tick * this.deltaTime,
+      score: state.score,
+      lives: state.lives,
+      outcome: state.isGameOver ? (state.isWin ? 'won' : 'lost') : 'running',
+      state
+    };
+  }
+}
+
+/**
+ * Play a recorded session back against a simulation built with the replay's
+ * level and seed. Runs the recorded number of steps unless `ticks` is given.
+ */
+export function runReplay<TSnapshot>(
+  simulation: EngineSimulation<TSnapshot>,
+  replay: Replay,
+  ticks: number = replay.ticks
+): HeadlessResult {
+  return runHeadless(simulation, {
+    ticks,
+    updateRate: replay.updateRate,
+    inputs: replay.events
+  });
+}
+
+/**
+ * Run a simulation for up to `ticks` steps with scripted inputs
+ */
+export function runHeadless<TSnapshot>(
+  simulation: EngineSimulation<TSnapshot>,
+  options: HeadlessRunOptions
+): HeadlessResult {
+  const session = new HeadlessSession(simulation, options.updateRate);
+  session.script(options.inputs ?? []);
+  session.step(options.ticks, options.stopOnGameOver ?? true);
+  return session.getResult();
+}
@@ -8,6 +8,7 @@
  * - Long press
  * - Drag/swipe gestures
  * - Virtual buttons
+ * - On-screen control presses
  */
 
 import { Vector2D } from './physics2d';
@@ -25,7 +26,24 @@ export type InputEventType =
   | 'swipe_right'
   | 'drag_start'
   | 'drag_move'
-  | 'drag_end';
+  | 'drag_end'
+  | 'button_press'
+  | 'button_release';
+
+export const INPUT_EVENT_TYPES: InputEventType[] = [
+  'tap',
+  'double_tap',
+  'long_press',
+  'swipe_up',
+  'swipe_down',
+  'swipe_left',
+  'swipe_right',
+  'drag_start',
+  'drag_move',
+  'drag_end',
+  'button_press',
+  'button_release'
+];
 
 /**
  * Input event
@@ -37,6 +55,7 @@ export interface InputEvent {
   deltaX?: number;
   deltaY?: number;
   duration?: number;
+  buttonId?: string; // Set for button_press / button_release
 }
 
 /**
@@ -279,6 +298,37 @@ export class InputManager {
     this.touchState = null;
   }
 
+  /**
+   * Deliver a synthesized event to listeners, as if it came from a touch
+   */
+  dispatch(event: InputEvent): void {
+    this.emit(event);
+  }
+
+  /**
+   * Press an on-screen control (emits button_press)
+   */
+  pressButton(buttonId: string, x: number = 0, y: number = 0): void {
+    this.emit({
+      type: 'button_press',
+      position: new Vector2D(x, y),
+      timestamp: Date.now(),
+      buttonId
+    });
+  }
+
+  /**
+   * Release an on-screen control (emits button_release)
+   */
+  releaseButton(buttonId: string, x: number = 0, y: number = 0): void {
+    this.emit({
+      type: 'button_release',
+      position: new Vector2D(x, y),
+      timestamp: Date.now(),
+      buttonId
+    });
+  }
+
   /**
    * Detect swipe direction
    */
@@ -6,10 +6,16 @@
  * - Vector2D class
  * - AABB collision detection
  * - Circle collision detection
+ * - Swept (continuous) AABB and circle tests
+ * - Oriented box and convex polygon collision (separating axis theorem)
+ * - Tile grid queries and movement
+ * - Spatial hash broadphase
  * - Velocity and acceleration helpers
  * - Simple gravity simulation
  */
 
+import { RandomSource, systemRandom } from './random';
+
 /**
  * 2D Vector class
  */
@@ -170,6 +176,456 @@ export function checkCircleAABBCollision(circle: Circle, box: AABB): boolean {
   return distance < circle.radius;
 }
 
+/**
+ * Result of a swept test: where along the motion the first contact happens
+ */
+export interface SweepHit {
+  time: number;     // Fraction of the displacement travelled before contact (0-1)
+  normal: Vector2D; // Surface normal of the target at the contact point
+}
+
+/**
+ * Sweep a moving AABB along `displacement` against a static one.
+ * Boxes that already overlap at the start are not reported (use
+ * checkAABBCollision for those), and neither is sliding along a face.
+ */
+export function sweepAABB(moving: AABB, displacement: Vector2D, target: AABB): SweepHit | null {
+  if (checkAABBCollision(moving, target)) return null;
+
+  const axes = [
+    { position: moving.x, size: moving.width, targetPosition: target.x, targetSize: target.width, delta: displacement.x },
+    { position: moving.y, size: moving.height, targetPosition: target.y, targetSize: target.height, delta: displacement.y }
+  ];
+  let entry = -Infinity;
+  let exit = Infinity;
+  let normal = new Vector2D(0, 0);
+
+  for (let axis = 0; axis < axes.length; axis++) {
+    const { position, size, targetPosition, targetSize, delta } = axes[axis];
+
+    if (delta === 0) {
+      // Not moving on this axis: it has to overlap the whole time
+      if (position >= targetPosition + targetSize || position + size <= targetPosition) return null;
+      continue;
+    }
+
+    const near = delta > 0 ? (targetPosition - (position + size)) / delta : (targetPosition + targetSize - position) / delta;
+    const far = delta > 0 ? (targetPosition + targetSize - position) / delta : (targetPosition - (position + size)) / delta;
+    if (near > entry) {
+      entry = near;
+      normal = axis === 0 ? new Vector2D(-Math.sign(delta), 0) : new Vector2D(0, -Math.sign(delta));
+    }
+    exit = Math.min(exit, far);
+  }
+
+  if (entry >= exit || entry < 0 || entry > 1) return null;
+  return { time: entry, normal };
+}
+
+/**
+ * Sweep a moving circle along `displacement` against a static one
+ */
+export function sweepCircle(moving: Circle, displacement: Vector2D, target: Circle): SweepHit | null {
+  const offset = new Vector2D(moving.x - target.x, moving.y - target.y);
+  const radius = moving.radius + target.radius;
+
+  // Solve |offset + displacement * t| = radius for the first t in [0, 1]
+  const a = displacement.dot(displacement);
+  const b = offset.dot(displacement);
+  const c = offset.dot(offset) - radius * radius;
+  if (c < 0 || a === 0 || b >= 0) return null; // Already overlapping, still, or moving apart
+
+  const discriminant = b * b - a * c;
+  if (discriminant < 0) return null;
+
+  const time = (-b - Math.sqrt(discriminant)) / a;
+  if (time > 1) return null;
+
+  return { time, normal: offset.add(displacement.multiply(time)).normalize() };
+}
+
+/**
+ * Sweep a moving circle along `displacement` against a static AABB
+ */
+export function sweepCircleAABB(circle: Circle, displacement: Vector2D, box: AABB): SweepHit | null {
+  if (checkCircleAABBCollision(circle, box)) return null;
+
+  // Sweep the center against the box grown by the radius, then refine
+  // contacts in the grown corners against the rounded corner itself
+  const r = circle.radius;
+  const grown = { x: box.x - r, y: box.y - r, width: box.width + r * 2, height: box.height + r * 2 };
+  const startsInCorner =
+    circle.x > grown.x && circle.x < grown.x + grown.width &&
+    circle.y > grown.y && circle.y < grown.y + grown.height;
+
+  const hit = startsInCorner
+    ? { time: 0, normal: new Vector2D(0, 0) }
+    : sweepAABB({ x: circle.x, y: circle.y, width: 0, height: 0 }, displacement, grown);
+  if (!hit) return null;
+
+  const x = circle.x + displacement.x * hit.time;
+  const y = circle.y + displacement.y * hit.time;
+  const cornerX = x < box.x ? box.x : x > box.x + box.width ? box.x + box.width : null;
+  const cornerY = y < box.y ? box.y : y > box.y + box.height ? box.y + box.height : null;
+  if (cornerX === null || cornerY === null) return hit;
+
+  return sweepCircle(circle, displacement, { x: cornerX, y: cornerY, radius: 0 });
+}
+
+/**
+ * Oriented bounding box: a rectangle rotated about its center
+ */
+export interface OBB {
+  x: number;          // Center x
+  y: number;          // Center y
+  halfWidth: number;
+  halfHeight: number;
+  rotation: number;   // Radians, clockwise on screen
+}
+
+/**
+ * Convex polygon in world space (either winding)
+ */
+export interface Polygon {
+  points: Vector2D[];
+}
+
+export type CollisionShape = AABB | Circle | OBB | Polygon;
+
+/**
+ * Minimum translation between two overlapping shapes: moving the first
+ * shape by -normal * depth (or the second by +normal * depth) separates them
+ */
+export interface Penetration {
+  normal: Vector2D; // Unit vector pointing from the first shape towards the second
+  depth: number;
+}
+
+/**
+ * Corners of an AABB as a polygon
+ */
+export function aabbToPolygon(box: AABB): Polygon {
+  return {
+    points: [
+      new Vector2D(box.x, box.y),
+      new Vector2D(box.x + box.width, box.y),
+      new Vector2D(box.x + box.width, box.y + box.height),
+      new Vector2D(box.x, box.y + box.height)
+    ]
+  };
+}
+
+/**
+ * Corners of an OBB as a polygon
+ */
+export function obbToPolygon(box: OBB): Polygon {
+  const cos = Math.cos(box.rotation);
+  const sin = Math.sin(box.rotation);
+  const corner = (dx: number, dy: number) => new Vector2D(
+    box.x + dx * cos - dy * sin,
+    box.y + dx * sin + dy * cos
+  );
+  return {
+    points: [
+      corner(-box.halfWidth, -box.halfHeight),
+      corner(box.halfWidth, -box.halfHeight),
+      corner(box.halfWidth, box.halfHeight),
+      corner(-box.halfWidth, box.halfHeight)
+    ]
+  };
+}
+
+/**
+ * OBB covering an AABB rotated about its center, e.g. a rotated sprite
+ */
+export function rotatedAABB(box: AABB, rotation: number): OBB {
+  return {
+    x: box.x + box.width / 2,
+    y: box.y + box.height / 2,
+    halfWidth: box.width / 2,
+    halfHeight: box.height / 2,
+    rotation
+  };
+}
+
+/**
+ * Regular convex polygon, e.g. a rough asteroid outline
+ */
+export function regularPolygon(x: number, y: number, radius: number, sides: number, rotation: number = 0): Polygon {
+  return {
+    points: Array.from({ length: sides }, (_, i) =>
+      Vector2D.fromAngle(rotation + (i / sides) * Math.PI * 2, radius).add(new Vector2D(x, y))
+    )
+  };
+}
+
+function polygonCenter(polygon: Polygon): Vector2D {
+  const sum = polygon.points.reduce((total, point) => total.add(point), new Vector2D(0, 0));
+  return sum.divide(polygon.points.length);
+}
+
+function project(points: Vector2D[], axis: Vector2D): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const point of points) {
+    const value = point.dot(axis);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return { min, max };
+}
+
+function edgeNormals(polygon: Polygon): Vector2D[] {
+  const { points } = polygon;
+  return points.map((point, i) => {
+    const next = points[(i + 1) % points.length];
+    return new Vector2D(next.y - point.y, point.x - next.x).normalize();
+  });
+}
+
+/**
+ * Smallest overlap of two projections over a set of axes, or null as soon
+ * as one axis separates them
+ */
+function leastOverlap(
+  axes: Vector2D[],
+  projectA: (axis: Vector2D) => { min: number; max: number },
+  projectB: (axis: Vector2D) => { min: number; max: number }
+): Penetration | null {
+  let best: Penetration | null = null;
+  for (const axis of axes) {
+    if (axis.x === 0 && axis.y === 0) continue; // Degenerate edge
+    const a = projectA(axis);
+    const b = projectB(axis);
+    const overlap = Math.min(a.max, b.max) - Math.max(a.min, b.min);
+    if (overlap <= 0) return null;
+    if (!best || overlap < best.depth) {
+      best = { normal: axis, depth: overlap };
+    }
+  }
+  return best;
+}
+
+/**
+ * Separating axis test between two convex polygons
+ */
+export function polygonPenetration(a: Polygon, b: Polygon): Penetration | null {
+  const hit = leastOverlap(
+    [...edgeNormals(a), ...edgeNormals(b)],
+    axis => project(a.points, axis),
+    axis => project(b.points, axis)
+  );
+  if (!hit) return null;
+
+  const towardsB = polygonCenter(b).subtract(polygonCenter(a));
+  return towardsB.dot(hit.normal) < 0 ? { normal: hit.normal.multiply(-1), depth: hit.depth } : hit;
+}
+
+/**
+ * Separating axis test between a convex polygon and a circle. Besides the
+ * polygon's edge normals, the axis from the nearest vertex to the circle
+ * center catches circles overlapping a corner region.
+ */
+export function polygonCirclePenetration(polygon: Polygon, circle: Circle): Penetration | null {
+  const center = new Vector2D(circle.x, circle.y);
+  const nearest = polygon.points.reduce((best, point) =>
+    point.distanceTo(center) < best.distanceTo(center) ? point : best
+  );
+
+  const hit = leastOverlap(
+    [...edgeNormals(polygon), center.subtract(nearest).normalize()],
+    axis => project(polygon.points, axis),
+    axis => {
+      const value = center.dot(axis);
+      return { min: value - circle.radius, max: value + circle.radius };
+    }
+  );
+  if (!hit) return null;
+
+  const towardsCircle = center.subtract(polygonCenter(polygon));
+  return towardsCircle.dot(hit.normal) < 0 ? { normal: hit.normal.multiply(-1), depth: hit.depth } : hit;
+}
+
+function isCircle(shape: CollisionShape): shape is Circle {
+  return 'radius' in shape;
+}
+
+function toPolygon(shape: AABB | OBB | Polygon): Polygon {
+  if ('points' in shape) return shape;
+  if ('rotation' in shape) return obbToPolygon(shape);
+  return aabbToPolygon(shape);
+}
+
+/**
+ * Penetration between any two collision shapes, or null if they don't overlap
+ */
+export function getPenetration(a: CollisionShape, b: CollisionShape): Penetration | null {
+  if (isCircle(a) && isCircle(b)) {
+    const offset = new Vector2D(b.x - a.x, b.y - a.y);
+    const gap = offset.magnitude();
+    const depth = a.radius + b.radius - gap;
+    if (depth <= 0) return null;
+    return { normal: gap > 0 ? offset.divide(gap) : new Vector2D(1, 0), depth };
+  }
+  if (isCircle(a)) {
+    const hit = polygonCirclePenetration(toPolygon(b as AABB | OBB | Polygon), a);
+    return hit && { normal: hit.normal.multiply(-1), depth: hit.depth };
+  }
+  if (isCircle(b)) {
+    return polygonCirclePenetration(toPolygon(a), b);
+  }
+  return polygonPenetration(toPolygon(a), toPolygon(b));
+}
+
+/**
+ * Check collision between any two collision shapes
+ */
+export function checkShapeCollision(a: CollisionShape, b: CollisionShape): boolean {
+  return getPenetration(a, b) !== null;
+}
+
+/**
+ * Grid of square tiles, e.g. a tilemap level. Cells outside the grid are null.
+ */
+export interface TileGrid<TTile> {
+  tileSize: number;
+  columns: number;
+  rows: number;
+  tileAt(column: number, row: number): TTile | null;
+}
+
+export interface TileHit<TTile> {
+  column: number;
+  row: number;
+  tile: TTile;
+  box: AABB;
+}
+
+export interface TileContact<TTile> extends TileHit<TTile> {
+  normal: Vector2D; // Face of the tile that was hit
+}
+
+export interface TileMoveResult<TTile> {
+  x: number;
+  y: number;
+  contacts: TileContact<TTile>[];
+}
+
+/**
+ * Decides whether a tile stops a box hitting the given face. Returning true
+ * only for normal.y < 0 makes a one-way tile you can jump up through.
+ */
+export type TileBlocker<TTile> = (tile: TTile, normal: Vector2D) => boolean;
+
+// Positions within this distance of a tile edge count as touching it
+const TILE_EPSILON = 1e-6;
+
+function tileBox(grid: TileGrid<unknown>, column: number, row: number): AABB {
+  return { x: column * grid.tileSize, y: row * grid.tileSize, width: grid.tileSize, height: grid.tileSize };
+}
+
+/**
+ * Columns (or rows) of the tiles a span overlaps, edges excluded
+ */
+function tileSpan(tileSize: number, start: number, size: number): [number, number] {
+  return [
+    Math.floor((start + TILE_EPSILON) / tileSize),
+    Math.ceil((start + size - TILE_EPSILON) / tileSize) - 1
+  ];
+}
+
+/**
+ * Non-empty tiles overlapping a box
+ */
+export function queryTiles<TTile>(grid: TileGrid<TTile>, box: AABB): TileHit<TTile>[] {
+  const [firstColumn, lastColumn] = tileSpan(grid.tileSize, box.x, box.width);
+  const [firstRow, lastRow] = tileSpan(grid.tileSize, box.y, box.height);
+  const hits: TileHit<TTile>[] = [];
+
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      const tile = grid.tileAt(column, row);
+      if (tile !== null) {
+        hits.push({ column, row, tile, box: tileBox(grid, column, row) });
+      }
+    }
+  }
+  return hits;
+}
+
+/**
+ * Move a box through a tile grid one axis at a time (x, then y), stopping
+ * flush against the first blocking tile on each axis. Only tiles fully ahead
+ * of the box are considered, so a box already inside a tile can leave it.
+ * Moves longer than a tile are safe: every tile along the way is checked.
+ */
+export function moveAgainstTiles<TTile>(
+  grid: TileGrid<TTile>,
+  box: AABB,
+  displacement: Vector2D,
+  blocks: TileBlocker<TTile>
+): TileMoveResult<TTile> {
+  const size = grid.tileSize;
+  const contacts: TileContact<TTile>[] = [];
+  let { x, y } = box;
+
+  // Scan lines of tiles ahead of the leading edge; the first blocking one wins
+  const sweepAxis = (
+    lead: number,
+    delta: number,
+    crossStart: number,
+    crossSize: number,
+    tileAtLine: (line: number, cross: number) => TTile | null,
+    boxAt: (line: number, cross: number) => [number, number],
+    normal: Vector2D
+  ): number | null => {
+    const [firstCross, lastCross] = tileSpan(size, crossStart, crossSize);
+    const step = delta > 0 ? 1 : -1;
+    const firstLine = delta > 0 ? Math.ceil((lead - TILE_EPSILON) / size) : Math.floor((lead + TILE_EPSILON) / size) - 1;
+    const lastLine = delta > 0 ? Math.ceil((lead + delta - TILE_EPSILON) / size) - 1 : Math.floor((lead + delta + TILE_EPSILON) / size);
+
+    for (let line = firstLine; delta > 0 ? line <= lastLine : line >= lastLine; line += step) {
+      let blocked = false;
+      for (let cross = firstCross; cross <= lastCross; cross++) {
+        const tile = tileAtLine(line, cross);
+        if (tile !== null && blocks(tile, normal)) {
+          const [column, row] = boxAt(line, cross);
+          contacts.push({ column, row, tile, box: tileBox(grid, column, row), normal });
+          blocked = true;
+        }
+      }
+      if (blocked) {
+        return delta > 0 ? line * size : (line + 1) * size;
+      }
+    }
+    return null;
+  };
+
+  if (displacement.x !== 0) {
+    const lead = displacement.x > 0 ? x + box.width : x;
+    const edge = sweepAxis(
+      lead, displacement.x, y, box.height,
+      (column, row) => grid.tileAt(column, row),
+      (column, row) => [column, row],
+      new Vector2D(displacement.x > 0 ? -1 : 1, 0)
+    );
+    x = edge === null ? x + displacement.x : displacement.x > 0 ? edge - box.width : edge;
+  }
+
+  if (displacement.y !== 0) {
+    const lead = displacement.y > 0 ? y + box.height : y;
+    const edge = sweepAxis(
+      lead, displacement.y, x, box.width,
+      (row, column) => grid.tileAt(column, row),
+      (row, column) => [column, row],
+      new Vector2D(0, displacement.y > 0 ? -1 : 1)
+    );
+    y = edge === null ? y + displacement.y : displacement.y > 0 ? edge - box.height : edge;
+  }
+
+  return { x, y, contacts };
+}
+
 /**
  * Check point in AABB
  */
@@ -226,6 +682,233 @@ export function clampAABB(box: AABB, bounds: AABB): AABB {
   };
 }
 
+/**
+ * Collision pair callback, called once per overlapping pair
+ */
+export type CollisionPairCallback<T> = (a: T, b: T) => void;
+
+interface SpatialHashEntry {
+  box: AABB;
+  minCol: number;
+  minRow: number;
+  maxCol: number;
+  maxRow: number;
+  stamp: number; // Last query that visited this entry
+}
+
+// Cells are packed into one number, 16 bits per axis. Coordinates wrap every
+// 65536 cells, which only adds candidates (every candidate is still box-tested).
+function cellKey(col: number, row: number): number {
+  return (((col & 0xffff) << 16) | (row & 0xffff)) >>> 0;
+}
+
+/**
+ * Uniform-grid broadphase
+ *
+ * Items are bucketed into every cell their AABB touches, so a query only
+ * box-tests items near the area asked about instead of every item in the
+ * world. Pick a cell size around the size of a typical object: much smaller
+ * and large items span many cells, much larger and cells fill up.
+ */
+export class SpatialHash<T> {
+  readonly cellSize: number;
+  private cells = new Map<number, T[]>();
+  private entries = new Map<T, SpatialHashEntry>();
+  private stamp = 0;
+
+  constructor(cellSize: number = 64) {
+    if (!(cellSize > 0)) {
+      throw new Error(`SpatialHash cell size must be positive (got ${cellSize})`);
+    }
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(item: T): boolean {
+    return this.entries.has(item);
+  }
+
+  /**
+   * Add an item, or move it if it is already in the hash
+   */
+  insert(item: T, box: AABB): void {
+    if (this.entries.has(item)) {
+      this.update(item, box);
+      return;
+    }
+
+    const entry: SpatialHashEntry = { box: { ...box }, minCol: 0, minRow: 0, maxCol: 0, maxRow: 0, stamp: 0 };
+    this.setCellRange(entry, box);
+    this.entries.set(item, entry);
+    this.addToCells(item, entry);
+  }
+
+  /**
+   * Move an item; only re-buckets when it crosses into different cells
+   */
+  update(item: T, box: AABB): void {
+    const entry = this.entries.get(item);
+    if (!entry) {
+      this.insert(item, box);
+      return;
+    }
+
+    entry.box.x = box.x;
+    entry.box.y = box.y;
+    entry.box.width = box.width;
+    entry.box.height = box.height;
+
+    const { minCol, minRow, maxCol, maxRow } = entry;
+    this.setCellRange(entry, box);
+    if (
+      entry.minCol !== minCol || entry.minRow !== minRow ||
+      entry.maxCol !== maxCol || entry.maxRow !== maxRow
+    ) {
+      this.removeFromCells(item, { ...entry, minCol, minRow, maxCol, maxRow });
+      this.addToCells(item, entry);
+    }
+  }
+
+  /**
+   * Remove an item. Returns whether it was present.
+   */
+  remove(item: T): boolean {
+    const entry = this.entries.get(item);
+    if (!entry) return false;
+
+    this.removeFromCells(item, entry);
+    this.entries.delete(item);
+    return true;
+  }
+
+  clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  /**
+   * Items whose AABB overlaps the given box
+   */
+  query(box: AABB, results: T[] = []): T[] {
+    const stamp = ++this.stamp;
+    const minCol = Math.floor(box.x / this.cellSize);
+    const minRow = Math.floor(box.y / this.cellSize);
+    const maxCol = Math.floor((box.x + box.width) / this.cellSize);
+    const maxRow = Math.floor((box.y + box.height) / this.cellSize);
+
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        const bucket = this.cells.get(cellKey(col, row));
+        if (!bucket) continue;
+
+        for (const item of bucket) {
+          const entry = this.entries.get(item)!;
+          if (entry.stamp === stamp) continue;
+          entry.stamp = stamp;
+          if (checkAABBCollision(entry.box, box)) {
+            results.push(item);
+          }
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Call back once for every pair of items whose AABBs overlap.
+   * Don't insert or remove items from inside the callback.
+   */
+  queryPairs(callback: CollisionPairCallback<T>): void {
+    this.cells.forEach((bucket, key) => {
+      for (let i = 0; i < bucket.length; i++) {
+        const a = this.entries.get(bucket[i])!;
+        for (let j = i + 1; j < bucket.length; j++) {
+          const b = this.entries.get(bucket[j])!;
+          // Items sharing several cells are reported from the first shared one only
+          const firstShared = cellKey(Math.max(a.minCol, b.minCol), Math.max(a.minRow, b.minRow));
+          if (firstShared === key && checkAABBCollision(a.box, b.box)) {
+            callback(bucket[i], bucket[j]);
+          }
+        }
+      }
+    });
+  }
+
+  /**
+   * Call back for every item overlapping `item` (excluding itself)
+   */
+  queryItem(item: T, callback: CollisionPairCallback<T>): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+
+    for (const other of this.query(entry.box)) {
+      if (other !== item) callback(item, other);
+    }
+  }
+
+  private setCellRange(entry: SpatialHashEntry, box: AABB): void {
+    entry.minCol = Math.floor(box.x / this.cellSize);
+    entry.minRow = Math.floor(box.y / this.cellSize);
+    entry.maxCol = Math.floor((box.x + box.width) / this.cellSize);
+    entry.maxRow = Math.floor((box.y + box.height) / this.cellSize);
+  }
+
+  private addToCells(item: T, entry: SpatialHashEntry): void {
+    for (let col = entry.minCol; col <= entry.maxCol; col++) {
+      for (let row = entry.minRow; row <= entry.maxRow; row++) {
+        const key = cellKey(col, row);
+        const bucket = this.cells.get(key);
+        if (bucket) {
+          bucket.push(item);
+        } else {
+          this.cells.set(key, [item]);
+        }
+      }
+    }
+  }
+
+  private removeFromCells(item: T, range: SpatialHashEntry): void {
+    for (let col = range.minCol; col <= range.maxCol; col++) {
+      for (let row = range.minRow; row <= range.maxRow; row++) {
+        const key = cellKey(col, row);
+        const bucket = this.cells.get(key);
+        if (!bucket) continue;
+
+        const index = bucket.indexOf(item);
+        if (index !== -1) {
+          // Order within a cell doesn't matter; swap-remove avoids shifting
+          bucket[index] = bucket[bucket.length - 1];
+          bucket.pop();
+        }
+        if (bucket.length === 0) {
+          this.cells.delete(key);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * How a PhysicsBody resolves against colliders:
+ * - discrete: move the full step, then push out of anything overlapped
+ * - continuous: sweep the step and stop at the first contact, so fast
+ *   bodies can't pass through thin colliders between steps
+ */
+export type CollisionMode = 'discrete' | 'continuous';
+
+/**
+ * A contact resolved during PhysicsBody.update
+ */
+export interface BodyContact extends SweepHit {
+  collider: AABB;
+}
+
+// Contacts resolved per step in continuous mode (e.g. floor, then wall)
+const MAX_SWEEP_CONTACTS = 4;
+
 /**
  * Simple physics body
  */
@@ -236,14 +919,27 @@ export class PhysicsBody {
   mass: number;
   friction: number;
   restitution: number; // Bounciness (0 = no bounce, 1 = perfect bounce)
+  width: number;       // Collision box, with position as its top-left corner
+  height: number;
+  collisionMode: CollisionMode;
 
-  constructor(x: number = 0, y: number = 0) {
+  constructor(x: number = 0, y: number = 0, width: number = 0, height: number = 0) {
     this.position = new Vector2D(x, y);
     this.velocity = new Vector2D(0, 0);
     this.acceleration = new Vector2D(0, 0);
     this.mass = 1;
     this.friction = 0.1;
     this.restitution = 0.5;
+    this.width = width;
+    this.height = height;
+    this.collisionMode = 'discrete';
+  }
+
+  /**
+   * Collision box at the current position
+   */
+  getBounds(): AABB {
+    return { x: this.position.x, y: this.position.y, width: this.width, height: this.height };
   }
 
   /**
@@ -256,9 +952,10 @@ export class PhysicsBody {
   }
 
   /**
-   * Update physics (call every frame)
+   * Update physics (call every frame), resolving against static colliders.
+   * Returns the contacts made this step.
    */
-  update(deltaTime: number): void {
+  update(deltaTime: number, colliders: AABB[] = []): BodyContact[] {
     // Update velocity with acceleration
     this.velocity = this.velocity.add(this.acceleration.multiply(deltaTime));
 
@@ -266,10 +963,14 @@ export class PhysicsBody {
     this.velocity = this.velocity.multiply(1 - this.friction);
 
     // Update position with velocity
-    this.position = this.position.add(this.velocity.multiply(deltaTime));
+    const displacement = this.velocity.multiply(deltaTime);
+    const contacts = this.collisionMode === 'continuous'
+      ? this.moveSwept(displacement, colliders)
+      : this.moveDiscrete(displacement, colliders);
 
     // Reset acceleration
     this.acceleration.set(0, 0);
+    return contacts;
   }
 
   /**
@@ -295,6 +996,73 @@ export class PhysicsBody {
       this.position.y = Math.max(bounds.y, Math.min(this.position.y, bounds.y + bounds.height));
     }
   }
+
+  private moveDiscrete(displacement: Vector2D, colliders: AABB[]): BodyContact[] {
+    this.position = this.position.add(displacement);
+
+    const contacts: BodyContact[] = [];
+    for (const collider of colliders) {
+      const bounds = this.getBounds();
+      if (!checkAABBCollision(bounds, collider)) continue;
+
+      // Push out along the axis of least penetration
+      const pushLeft = bounds.x + bounds.width - collider.x;
+      const pushRight = collider.x + collider.width - bounds.x;
+      const pushUp = bounds.y + bounds.height - collider.y;
+      const pushDown = collider.y + collider.height - bounds.y;
+      const push = Math.min(pushLeft, pushRight, pushUp, pushDown);
+      const normal =
+        push === pushLeft ? new Vector2D(-1, 0) :
+        push === pushRight ? new Vector2D(1, 0) :
+        push === pushUp ? new Vector2D(0, -1) :
+        new Vector2D(0, 1);
+
+      this.position = this.position.add(normal.multiply(push));
+      this.respond(normal);
+      contacts.push({ time: 1, normal, collider });
+    }
+    return contacts;
+  }
+
+  protected moveSwept(displacement: Vector2D, colliders: AABB[]): BodyContact[] {
+    const contacts: BodyContact[] = [];
+    let remaining = displacement;
+
+    for (let i = 0; i < MAX_SWEEP_CONTACTS && (remaining.x !== 0 || remaining.y !== 0); i++) {
+      const bounds = this.getBounds();
+      let first: BodyContact | null = null;
+      for (const collider of colliders) {
+        const hit = sweepAABB(bounds, remaining, collider);
+        if (hit && (!first || hit.time < first.time)) {
+          first = { ...hit, collider };
+        }
+      }
+
+      if (!first) {
+        this.position = this.position.add(remaining);
+        return contacts;
+      }
+
+      // Stop at the contact and slide along it for the rest of the step
+      this.position = this.position.add(remaining.multiply(first.time));
+      this.respond(first.normal);
+      contacts.push(first);
+
+      remaining = remaining.multiply(1 - first.time);
+      remaining = remaining.subtract(first.normal.multiply(remaining.dot(first.normal)));
+    }
+    return contacts;
+  }
+
+  /**
+   * Cancel (or bounce) the velocity heading into a surface
+   */
+  private respond(normal: Vector2D): void {
+    const into = this.velocity.dot(normal);
+    if (into < 0) {
+      this.velocity = this.velocity.subtract(normal.multiply(into * (1 + this.restitution)));
+    }
+  }
 }
 
 /**
@@ -334,15 +1102,15 @@ export function map(value: number, inMin: number, inMax: number, outMin: number,
 /**
  * Random number between min and max
  */
-export function random(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+export function random(min: number, max: number, rng: RandomSource = systemRandom): number {
+  return rng.next() * (max - min) + min;
 }
 
 /**
  * Random integer between min and max (inclusive)
  */
-export function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+export function randomInt(min: number, max: number, rng: RandomSource = systemRandom): number {
+  return Math.floor(rng.next() * (max - min + 1)) + min;
 }
 
 /**
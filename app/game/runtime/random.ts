@@ -0,0 +1,114 @@
+/**
+ * Seedable Random Numbers
+ * Deterministic PRNG shared by the runtime and engines
+ *
+ * The same seed always produces the same sequence, so a seed plus the input
+ * stream is enough to reproduce a run.
+ */
+
+/**
+ * Anything that yields uniform numbers in [0, 1)
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+/**
+ * Math.random as a RandomSource (non-deterministic)
+ */
+export const systemRandom: RandomSource = {
+  next: () => Math.random()
+};
+
+/**
+ * Hash a string (e.g. "daily-2026-10-19") into a 32-bit seed (FNV-1a)
+ */
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Fresh seed for runs that don't ask for a fixed one
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Mulberry32 generator: fast, 32 bits of state, good enough for gameplay
+ */
+export class SeededRandom implements RandomSource {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number | string = createSeed()) {
+    this.seed = typeof seed === 'string' ? seedFromString(seed) : seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Uniform number in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Uniform number in [min, max)
+   */
+  range(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+
+  /**
+   * Integer in [min, max] (inclusive)
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * True with the given probability
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Random element of a non-empty array (or character of a string)
+   */
+  pick<T>(items: ArrayLike<T>): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Shuffle an array in place (Fisher-Yates) and return it
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Current generator state, for save/restore
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state | 0;
+  }
+}
@@ -11,7 +11,8 @@
  */
 
 import { View, Text, StyleSheet } from 'react-native';
-import { Vector2D, AABB, Circle } from './physics2d';
+import { Vector2D, AABB, Circle, random } from './physics2d';
+import { RandomSource, systemRandom } from './random';
 
 /**
  * Render layer
@@ -56,7 +57,8 @@ export interface Shape {
   radius?: number;
   color: string;
   opacity?: number;
-  rotation?: number;
+  rotation?: number;  // In radians
+  cornerRadius?: number; // Rect only
   layer?: RenderLayer;
   zIndex?: number;
 }
@@ -350,12 +352,15 @@ export const Easing = {
 
 /**
  * Simple animation controller
+ * Runs on the wall clock with update(), or on simulation time with step()
+ * so it replays the same under a fixed timestep.
  */
 export class Animation {
   private startValue: number;
   private endValue: number;
   private duration: number;
   private startTime: number;
+  private elapsed: number = 0;
   private easingFunction: (t: number) => number;
   private onUpdate: (value: number) => void;
   private onComplete?: () => void;
@@ -383,6 +388,7 @@ export class Animation {
    */
   start(): void {
     this.startTime = Date.now();
+    this.elapsed = 0;
     this.isRunning = true;
   }
 
@@ -391,9 +397,21 @@ export class Animation {
    */
   update(): boolean {
     if (!this.isRunning) return false;
+    this.elapsed = Date.now() - this.startTime;
+    return this.apply();
+  }
+
+  /**
+   * Advance by a fixed step, in the same units as the duration
+   */
+  step(deltaTime: number): boolean {
+    if (!this.isRunning) return false;
+    this.elapsed += deltaTime;
+    return this.apply();
+  }
 
-    const elapsed = Date.now() - this.startTime;
-    const t = Math.min(1, elapsed / this.duration);
+  private apply(): boolean {
+    const t = this.duration > 0 ? Math.min(1, this.elapsed / this.duration) : 1;
     const easedT = this.easingFunction(t);
     const currentValue = this.startValue + (this.endValue - this.startValue) * easedT;
 
@@ -442,9 +460,11 @@ export interface Particle {
 export class ParticleSystem {
   private particles: Particle[] = [];
   private maxParticles: number;
+  private rng: RandomSource;
 
-  constructor(maxParticles: number = 100) {
+  constructor(maxParticles: number = 100, rng: RandomSource = systemRandom) {
     this.maxParticles = maxParticles;
+    this.rng = rng;
   }
 
   /**
@@ -466,10 +486,10 @@ export class ParticleSystem {
     const opts = { ...defaults, ...options };
 
     for (let i = 0; i < count && this.particles.length < this.maxParticles; i++) {
-      const vx = Math.random() * (opts.velocityRange[1] - opts.velocityRange[0]) + opts.velocityRange[0];
-      const vy = Math.random() * (opts.velocityRange[1] - opts.velocityRange[0]) + opts.velocityRange[0];
-      const life = Math.random() * (opts.lifeRange[1] - opts.lifeRange[0]) + opts.lifeRange[0];
-      const size = Math.random() * (opts.sizeRange[1] - opts.sizeRange[0]) + opts.sizeRange[0];
+      const vx = random(opts.velocityRange[0], opts.velocityRange[1], this.rng);
+      const vy = random(opts.velocityRange[0], opts.velocityRange[1], this.rng);
+      const life = random(opts.lifeRange[0], opts.lifeRange[1], this.rng);
+      const size = random(opts.sizeRange[0], opts.sizeRange[1], this.rng);
 
       this.particles.push({
         x,
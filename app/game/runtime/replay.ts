@@ -0,0 +1,258 @@
+/**
+ * Input Replays
+ * Records the input stream of a session and plays it back step-accurately
+ *
+ * A run is fully determined by its level, RNG seed and the inputs applied at
+ * each fixed step, so that is all a replay stores. Events are kept by step
+ * index (not wall-clock time), which makes playback independent of frame rate.
+ */
+
+import { InputEvent, InputEventType, INPUT_EVENT_TYPES } from './input';
+import { Vector2D } from './physics2d';
+
+export const REPLAY_VERSION = 1;
+
+/**
+ * One recorded input, applied before the update of step `tick`
+ */
+export interface ReplayEvent {
+  tick: number;
+  type: InputEventType;
+  buttonId?: string;
+  x?: number;
+  y?: number;
+  dx?: number; // Swipe and drag distance, when the event has one
+  dy?: number;
+}
+
+export interface Replay {
+  version: number;
+  levelId: number;
+  seed: number;
+  updateRate: number;
+  ticks: number; // Steps recorded
+  events: ReplayEvent[];
+  result?: { score: number; won: boolean };
+}
+
+/**
+ * Compact wire format: ticks are delta-encoded and event types are indices
+ * into INPUT_EVENT_TYPES. [tickDelta, type, buttonId?, x?, y?, dx?, dy?]
+ */
+type PackedEvent = [number, number, string?, number?, number?, number?, number?];
+
+interface PackedReplay {
+  v: number;
+  l: number;
+  s: number;
+  r: number;
+  t: number;
+  e: PackedEvent[];
+  o?: [number, 0 | 1];
+}
+
+export type ReplayParseResult =
+  | { ok: true; replay: Replay }
+  | { ok: false; error: string };
+
+/**
+ * Convert a replay event back into the InputEvent the runtime would deliver
+ */
+export function toInputEvent(event: ReplayEvent, updateRate: number): InputEvent {
+  const input: InputEvent = {
+    type: event.type,
+    position: new Vector2D(event.x ?? 0, event.y ?? 0),
+    timestamp: (event.tick / updateRate) * 1000,
+    buttonId: event.buttonId
+  };
+  if (event.dx !== undefined) {
+    input.deltaX = event.dx;
+    input.deltaY = event.dy ?? 0;
+  }
+  return input;
+}
+
+/**
+ * Captures inputs as they are applied to the simulation
+ */
+export class ReplayRecorder {
+  private levelId: number;
+  private seed: number;
+  private updateRate: number;
+  private events: ReplayEvent[] = [];
+  private ticks = 0;
+  private result: Replay['result'];
+
+  constructor(levelId: number, seed: number, updateRate: number = 120) {
+    this.levelId = levelId;
+    this.seed = seed;
+    this.updateRate = updateRate;
+  }
+
+  /**
+   * Record an event applied at the given step
+   */
+  record(tick: number, event: InputEvent): void {
+    const recorded: ReplayEvent = { tick, type: event.type };
+    if (event.buttonId !== undefined) {
+      recorded.buttonId = event.buttonId;
+    }
+    // Button handlers ignore position; only keep it when it carries data.
+    // Keep it exact: hit tests near a cell edge depend on the fraction.
+    if (event.position.x !== 0 || event.position.y !== 0) {
+      recorded.x = event.position.x;
+      recorded.y = event.position.y;
+    }
+    if (event.deltaX || event.deltaY) {
+      recorded.dx = event.deltaX ?? 0;
+      recorded.dy = event.deltaY ?? 0;
+    }
+    this.events.push(recorded);
+  }
+
+  /**
+   * Mark how many steps the session has run
+   */
+  setTicks(ticks: number): void {
+    this.ticks = ticks;
+  }
+
+  finish(ticks: number, score: number, won: boolean): void {
+    this.ticks = ticks;
+    this.result = { score, won };
+  }
+
+  toReplay(): Replay {
+    return {
+      version: REPLAY_VERSION,
+      levelId: this.levelId,
+      seed: this.seed,
+      updateRate: this.updateRate,
+      ticks: this.ticks,
+      events: [...this.events],
+      result: this.result
+    };
+  }
+}
+
+/**
+ * Feeds a replay's events back out step by step
+ */
+export class ReplayPlayer {
+  readonly replay: Replay;
+  private cursor = 0;
+
+  constructor(replay: Replay) {
+    this.replay = replay;
+  }
+
+  /**
+   * Events to apply before the update of step `tick`. Steps must be
+   * requested in increasing order.
+   */
+  eventsAt(tick: number): InputEvent[] {
+    const due: InputEvent[] = [];
+    const events = this.replay.events;
+    while (this.cursor < events.length && events[this.cursor].tick <= tick) {
+      due.push(toInputEvent(events[this.cursor], this.replay.updateRate));
+      this.cursor++;
+    }
+    return due;
+  }
+}
+
+/**
+ * Serialize a replay to its compact string form
+ */
+export function serializeReplay(replay: Replay): string {
+  let lastTick = 0;
+  const packed: PackedReplay = {
+    v: replay.version,
+    l: replay.levelId,
+    s: replay.seed,
+    r: replay.updateRate,
+    t: replay.ticks,
+    e: replay.events.map(event => {
+      const entry: PackedEvent = [event.tick - lastTick, INPUT_EVENT_TYPES.indexOf(event.type)];
+      lastTick = event.tick;
+      if (event.buttonId !== undefined || event.x !== undefined || event.dx !== undefined) {
+        entry.push(event.buttonId ?? '');
+      }
+      if (event.x !== undefined || event.dx !== undefined) {
+        entry.push(event.x ?? 0, event.y ?? 0);
+      }
+      if (event.dx !== undefined) {
+        entry.push(event.dx, event.dy ?? 0);
+      }
+      return entry;
+    })
+  };
+  if (replay.result) {
+    packed.o = [replay.result.score, replay.result.won ? 1 : 0];
+  }
+  return JSON.stringify(packed);
+}
+
+/**
+ * Parse and validate a serialized replay
+ */
+export function parseReplay(text: string): ReplayParseResult {
+  let packed: PackedReplay;
+  try {
+    packed = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'Replay is not valid JSON' };
+  }
+
+  if (!packed || typeof packed !== 'object') {
+    return { ok: false, error: 'Replay must be an object' };
+  }
+  if (packed.v !== REPLAY_VERSION) {
+    return { ok: false, error: `Unsupported replay version ${String(packed.v)} (expected ${REPLAY_VERSION})` };
+  }
+  const header = [packed.l, packed.s, packed.r, packed.t];
+  if (!header.every(value => Number.isInteger(value) && value >= 0) || packed.r === 0) {
+    return { ok: false, error: 'Replay header (level, seed, update rate, ticks) is invalid' };
+  }
+  if (!Array.isArray(packed.e)) {
+    return { ok: false, error: 'Replay events are missing' };
+  }
+
+  const events: ReplayEvent[] = [];
+  let tick = 0;
+  for (let i = 0; i < packed.e.length; i++) {
+    const [delta, typeIndex, buttonId, x, y, dx, dy] = packed.e[i] ?? [];
+    const type = INPUT_EVENT_TYPES[typeIndex as number];
+    if (!Number.isInteger(delta) || (delta as number) < 0 || !type) {
+      return { ok: false, error: `Replay event ${i} is invalid` };
+    }
+
+    tick += delta as number;
+    const event: ReplayEvent = { tick, type };
+    if (buttonId) {
+      event.buttonId = buttonId;
+    }
+    if (typeof x === 'number' && typeof y === 'number') {
+      event.x = x;
+      event.y = y;
+    }
+    if (typeof dx === 'number' && typeof dy === 'number') {
+      event.dx = dx;
+      event.dy = dy;
+    }
+    events.push(event);
+  }
+
+  return {
+    ok: true,
+    replay: {
+      version: packed.v,
+      levelId: packed.l,
+      seed: packed.s,
+      updateRate: packed.r,
+      ticks: packed.t,
+      events,
+      result: packed.o ? { score: packed.o[0], won: packed.o[1] === 1 } : undefined
+    }
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Fixed Timestep
+ * Decouples simulation updates from the display frame rate
+ *
+ * Real frame time is accumulated and consumed in fixed-size steps, so game
+ * logic sees the same deltaTime on a 30 Hz phone and a 120 Hz tablet. The
+ * leftover fraction of a step is returned as an interpolation alpha for
+ * rendering between the previous and current simulation states.
+ */
+
+/**
+ * Fixed timestep configuration
+ */
+export interface FixedTimestepConfig {
+  updateRate: number;       // Simulation steps per second
+  maxFrameTime: number;     // Longest frame (seconds) fed into the accumulator
+  maxStepsPerFrame: number; // Hard cap on steps run for a single frame
+}
+
+export const DEFAULT_TIMESTEP_CONFIG: FixedTimestepConfig = {
+  updateRate: 120,
+  maxFrameTime: 0.25,
+  maxStepsPerFrame: 12
+};
+
+/**
+ * Accumulator-based fixed timestep
+ */
+export class FixedTimestep {
+  readonly stepSize: number;
+  private config: FixedTimestepConfig;
+  private accumulator: number = 0;
+  private lastTime: number | null = null;
+  private steps: number = 0;
+
+  constructor(config: Partial<FixedTimestepConfig> = {}) {
+    this.config = { ...DEFAULT_TIMESTEP_CONFIG, ...config };
+    this.stepSize = 1 / this.config.updateRate;
+  }
+
+  /**
+   * Advance to the given frame time (milliseconds) and run any due steps.
+   * Returns the interpolation alpha (0-1) between the last two steps.
+   */
+  advance(currentTime: number, step: (deltaTime: number) => void): number {
+    if (this.lastTime === null) {
+      this.lastTime = currentTime;
+      return 0;
+    }
+
+    // Clamp long frames (app resumed, debugger) to avoid a spiral of death
+    const frameTime = Math.min((currentTime - this.lastTime) / 1000, this.config.maxFrameTime);
+    this.lastTime = currentTime;
+    this.accumulator += Math.max(0, frameTime);
+
+    let stepsThisFrame = 0;
+    while (this.accumulator >= this.stepSize && stepsThisFrame < this.config.maxStepsPerFrame) {
+      step(this.stepSize);
+      this.accumulator -= this.stepSize;
+      this.steps++;
+      stepsThisFrame++;
+    }
+
+    // Drop whatever could not be simulated this frame
+    if (stepsThisFrame === this.config.maxStepsPerFrame) {
+      this.accumulator = Math.min(this.accumulator, this.stepSize);
+    }
+
+    return this.accumulator / this.stepSize;
+  }
+
+  /**
+   * Forget the last frame time (call when resuming so paused time is not simulated)
+   */
+  resync(): void {
+    this.lastTime = null;
+  }
+
+  /**
+   * Reset accumulator and step count
+   */
+  reset(): void {
+    this.accumulator = 0;
+    this.lastTime = null;
+    this.steps = 0;
+  }
+
+  /**
+   * Number of steps run since the last reset
+   */
+  getStepCount(): number {
+    return this.steps;
+  }
+}
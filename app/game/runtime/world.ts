@@ -0,0 +1,398 @@
+/**
+ * Physics World
+ * Owns a set of bodies, steps them and resolves their contacts
+ *
+ * Bodies are static (never move), kinematic (move by their velocity but are
+ * not pushed by contacts) or dynamic (integrated with gravity and forces,
+ * pushed out of anything solid). Collision layers decide which pairs
+ * interact: a pair is tested when each body's layer is in the other's mask.
+ * Trigger bodies are never solid; overlapping one raises enter/exit events.
+ */
+
+import {
+  AABB,
+  PhysicsBody,
+  SpatialHash,
+  Vector2D,
+  checkAABBCollision,
+  clamp
+} from './physics2d';
+
+export type BodyType = 'static' | 'kinematic' | 'dynamic';
+export type BodyShape = 'box' | 'circle';
+
+/**
+ * Layer bitmask matching every layer
+ */
+export const ALL_LAYERS = ~0;
+
+export interface WorldBodyOptions<TData> {
+  x: number;               // Top-left of the body's bounds, for both shapes
+  y: number;
+  width?: number;          // Box size
+  height?: number;
+  radius?: number;         // Circle size (bounds are 2 * radius square)
+  type?: BodyType;         // Default 'dynamic'
+  layer?: number;          // Bits this body is on (default 1)
+  mask?: number;           // Bits this body collides with (default ALL_LAYERS)
+  isTrigger?: boolean;
+  mass?: number;
+  restitution?: number;
+  friction?: number;
+  gravityScale?: number;
+  linearDamping?: number;
+  data?: TData;
+}
+
+export interface PhysicsWorldOptions {
+  gravity?: Vector2D;      // Pixels per second²
+  cellSize?: number;       // Broadphase cell size
+}
+
+/**
+ * A body owned by a PhysicsWorld. Unlike a free PhysicsBody, friction acts at
+ * contacts (share of sliding speed removed) rather than every step, and
+ * linearDamping (share of speed lost per second) takes over as drag.
+ */
+export class WorldBody<TData = unknown> extends PhysicsBody {
+  readonly id: number;
+  readonly type: BodyType;
+  readonly shape: BodyShape;
+  layer: number;
+  mask: number;
+  isTrigger: boolean;
+  gravityScale: number;
+  linearDamping: number;
+  data: TData | undefined;
+
+  constructor(id: number, options: WorldBodyOptions<TData>) {
+    const shape: BodyShape = options.radius !== undefined ? 'circle' : 'box';
+    const width = shape === 'circle' ? options.radius! * 2 : options.width ?? 0;
+    const height = shape === 'circle' ? options.radius! * 2 : options.height ?? 0;
+    super(options.x, options.y, width, height);
+
+    this.id = id;
+    this.type = options.type ?? 'dynamic';
+    this.shape = shape;
+    this.layer = options.layer ?? 1;
+    this.mask = options.mask ?? ALL_LAYERS;
+    this.isTrigger = options.isTrigger ?? false;
+    this.gravityScale = options.gravityScale ?? 1;
+    this.linearDamping = options.linearDamping ?? 0;
+    this.data = options.data;
+    this.mass = options.mass ?? 1;
+    this.restitution = options.restitution ?? 0;
+    this.friction = options.friction ?? 0;
+  }
+
+  get radius(): number {
+    return this.width / 2;
+  }
+
+  get center(): Vector2D {
+    return new Vector2D(this.position.x + this.width / 2, this.position.y + this.height / 2);
+  }
+
+  /**
+   * 0 for static and kinematic bodies, which contacts can't move
+   */
+  get inverseMass(): number {
+    return this.type === 'dynamic' && this.mass > 0 ? 1 / this.mass : 0;
+  }
+
+  /**
+   * Move along `displacement`, stopping at the first of `colliders` hit
+   */
+  sweep(displacement: Vector2D, colliders: AABB[]): void {
+    this.moveSwept(displacement, colliders);
+  }
+}
+
+/**
+ * Penetration between two bodies; the normal points from `a` towards `b`
+ */
+export interface WorldContact {
+  normal: Vector2D;
+  depth: number;
+}
+
+export type WorldEventType = 'collision' | 'trigger_enter' | 'trigger_exit';
+
+/**
+ * For trigger events `a` is the trigger and `b` the body entering or leaving
+ */
+export interface WorldEvent<TData = unknown> {
+  type: WorldEventType;
+  a: WorldBody<TData>;
+  b: WorldBody<TData>;
+  contact?: WorldContact; // Collision events only
+}
+
+export type WorldEventCallback<TData = unknown> = (event: WorldEvent<TData>) => void;
+
+/**
+ * Contact between two bodies' shapes, or null if they don't overlap
+ */
+export function getContact(a: WorldBody<unknown>, b: WorldBody<unknown>): WorldContact | null {
+  if (a.shape === 'circle' && b.shape === 'circle') {
+    const offset = b.center.subtract(a.center);
+    const distance = offset.magnitude();
+    const depth = a.radius + b.radius - distance;
+    if (depth <= 0) return null;
+    return { normal: distance > 0 ? offset.divide(distance) : new Vector2D(1, 0), depth };
+  }
+
+  if (a.shape === 'circle') {
+    return circleBoxContact(a, b);
+  }
+
+  if (b.shape === 'circle') {
+    const contact = circleBoxContact(b, a);
+    return contact && { normal: contact.normal.multiply(-1), depth: contact.depth };
+  }
+
+  const boxA = a.getBounds();
+  const boxB = b.getBounds();
+  const overlapX = Math.min(boxA.x + boxA.width, boxB.x + boxB.width) - Math.max(boxA.x, boxB.x);
+  const overlapY = Math.min(boxA.y + boxA.height, boxB.y + boxB.height) - Math.max(boxA.y, boxB.y);
+  if (overlapX <= 0 || overlapY <= 0) return null;
+
+  const offset = b.center.subtract(a.center);
+  return overlapX < overlapY
+    ? { normal: new Vector2D(offset.x < 0 ? -1 : 1, 0), depth: overlapX }
+    : { normal: new Vector2D(0, offset.y < 0 ? -1 : 1), depth: overlapY };
+}
+
+function circleBoxContact(circle: WorldBody<unknown>, box: WorldBody<unknown>): WorldContact | null {
+  const center = circle.center;
+  const bounds = box.getBounds();
+  const closest = new Vector2D(
+    clamp(center.x, bounds.x, bounds.x + bounds.width),
+    clamp(center.y, bounds.y, bounds.y + bounds.height)
+  );
+  const offset = closest.subtract(center);
+  const distance = offset.magnitude();
+
+  if (distance > 0) {
+    if (distance >= circle.radius) return null;
+    return { normal: offset.divide(distance), depth: circle.radius - distance };
+  }
+
+  // Center inside the box: leave through the nearest face
+  const faces = [
+    { gap: center.x - bounds.x, normal: new Vector2D(1, 0) },
+    { gap: bounds.x + bounds.width - center.x, normal: new Vector2D(-1, 0) },
+    { gap: center.y - bounds.y, normal: new Vector2D(0, 1) },
+    { gap: bounds.y + bounds.height - center.y, normal: new Vector2D(0, -1) }
+  ];
+  const nearest = faces.reduce((best, face) => (face.gap < best.gap ? face : best));
+  return { normal: nearest.normal, depth: nearest.gap + circle.radius };
+}
+
+function pairKey(a: WorldBody<unknown>, b: WorldBody<unknown>): string {
+  return a.id < b.id ? `${a.id}:${b.id}` : `${b.id}:${a.id}`;
+}
+
+/**
+ * Whether two bodies' layers and masks let them interact
+ */
+export function canCollide(a: WorldBody<unknown>, b: WorldBody<unknown>): boolean {
+  return (a.layer & b.mask) !== 0 && (b.layer & a.mask) !== 0;
+}
+
+export class PhysicsWorld<TData = unknown> {
+  gravity: Vector2D;
+
+  private bodies = new Map<number, WorldBody<TData>>();
+  private broadphase: SpatialHash<WorldBody<TData>>;
+  private listeners = new Map<WorldEventType, Set<WorldEventCallback<TData>>>();
+  private triggerPairs = new Map<string, [WorldBody<TData>, WorldBody<TData>]>();
+  private nextId = 1;
+
+  constructor(options: PhysicsWorldOptions = {}) {
+    this.gravity = options.gravity ?? new Vector2D(0, 0);
+    this.broadphase = new SpatialHash(options.cellSize ?? 64);
+  }
+
+  get bodyCount(): number {
+    return this.bodies.size;
+  }
+
+  getBodies(): WorldBody<TData>[] {
+    return Array.from(this.bodies.values());
+  }
+
+  addBody(options: WorldBodyOptions<TData>): WorldBody<TData> {
+    const body = new WorldBody<TData>(this.nextId++, options);
+    this.bodies.set(body.id, body);
+    this.broadphase.insert(body, body.getBounds());
+    return body;
+  }
+
+  /**
+   * Remove a body. Trigger overlaps it was part of end without an exit event.
+   */
+  removeBody(body: WorldBody<TData>): void {
+    if (!this.bodies.delete(body.id)) return;
+    this.broadphase.remove(body);
+    this.triggerPairs.forEach(([a, b], key) => {
+      if (a === body || b === body) this.triggerPairs.delete(key);
+    });
+  }
+
+  /**
+   * Sync a body moved by hand (e.g. a teleport) into the broadphase
+   */
+  syncBody(body: WorldBody<TData>): void {
+    if (this.bodies.has(body.id)) {
+      this.broadphase.update(body, body.getBounds());
+    }
+  }
+
+  /**
+   * Bodies overlapping an area, optionally only those on the given layers
+   */
+  queryAABB(area: AABB, layers: number = ALL_LAYERS): WorldBody<TData>[] {
+    return this.broadphase.query(area).filter(body => (body.layer & layers) !== 0);
+  }
+
+  on(eventType: WorldEventType, callback: WorldEventCallback<TData>): void {
+    if (!this.listeners.has(eventType)) {
+      this.listeners.set(eventType, new Set());
+    }
+    this.listeners.get(eventType)!.add(callback);
+  }
+
+  off(eventType: WorldEventType, callback: WorldEventCallback<TData>): void {
+    this.listeners.get(eventType)?.delete(callback);
+  }
+
+  /**
+   * Advance every body by one step and resolve contacts
+   */
+  step(deltaTime: number): void {
+    this.bodies.forEach(body => {
+      if (body.type === 'static') return;
+      this.integrate(body, deltaTime);
+      this.broadphase.update(body, body.getBounds());
+    });
+
+    // Collect first: listeners may add or remove bodies
+    const pairs: [WorldBody<TData>, WorldBody<TData>][] = [];
+    this.broadphase.queryPairs((a, b) => {
+      const moving = a.type !== 'static' || b.type !== 'static';
+      const solid = a.inverseMass + b.inverseMass > 0;
+      if (canCollide(a, b) && moving && (solid || a.isTrigger || b.isTrigger)) {
+        pairs.push(a.id < b.id ? [a, b] : [b, a]);
+      }
+    });
+
+    const events: WorldEvent<TData>[] = [];
+    const touching = new Map<string, [WorldBody<TData>, WorldBody<TData>]>();
+
+    for (const [a, b] of pairs) {
+      const contact = getContact(a, b);
+      if (!contact) continue;
+
+      if (a.isTrigger || b.isTrigger) {
+        // Trigger first; two triggers report from the lower id
+        touching.set(pairKey(a, b), a.isTrigger ? [a, b] : [b, a]);
+        continue;
+      }
+
+      this.resolve(a, b, contact);
+      events.push({ type: 'collision', a, b, contact });
+    }
+
+    touching.forEach((pair, key) => {
+      if (!this.triggerPairs.has(key)) {
+        events.push({ type: 'trigger_enter', a: pair[0], b: pair[1] });
+      }
+    });
+    this.triggerPairs.forEach((pair, key) => {
+      if (!touching.has(key)) {
+        events.push({ type: 'trigger_exit', a: pair[0], b: pair[1] });
+      }
+    });
+    this.triggerPairs = touching;
+
+    events.forEach(event => this.emit(event));
+  }
+
+  private integrate(body: WorldBody<TData>, deltaTime: number): void {
+    if (body.type === 'dynamic') {
+      const gravity = this.gravity.multiply(body.gravityScale);
+      body.velocity = body.velocity.add(body.acceleration.add(gravity).multiply(deltaTime));
+      if (body.linearDamping > 0) {
+        body.velocity = body.velocity.multiply(Math.max(0, 1 - body.linearDamping * deltaTime));
+      }
+    }
+    body.acceleration.set(0, 0);
+
+    const displacement = body.velocity.multiply(deltaTime);
+    if (body.type === 'dynamic' && body.collisionMode === 'continuous') {
+      body.sweep(displacement, this.sweepColliders(body, displacement));
+    } else {
+      body.position = body.position.add(displacement);
+    }
+  }
+
+  /**
+   * Solid boxes a continuous body could reach this step
+   */
+  private sweepColliders(body: WorldBody<TData>, displacement: Vector2D): AABB[] {
+    const start = body.getBounds();
+    const reach = {
+      x: Math.min(start.x, start.x + displacement.x),
+      y: Math.min(start.y, start.y + displacement.y),
+      width: start.width + Math.abs(displacement.x),
+      height: start.height + Math.abs(displacement.y)
+    };
+    return this.broadphase.query(reach)
+      .filter(other =>
+        other !== body && other.type !== 'dynamic' && other.shape === 'box' &&
+        !other.isTrigger && canCollide(body, other)
+      )
+      .map(other => other.getBounds())
+      .filter(box => !checkAABBCollision(box, start));
+  }
+
+  private resolve(a: WorldBody<TData>, b: WorldBody<TData>, contact: WorldContact): void {
+    const inverseA = a.inverseMass;
+    const inverseB = b.inverseMass;
+    const inverseTotal = inverseA + inverseB;
+    if (inverseTotal === 0) return;
+
+    // Separate in proportion to each body's share of the inverse mass
+    const { normal, depth } = contact;
+    a.position = a.position.subtract(normal.multiply(depth * inverseA / inverseTotal));
+    b.position = b.position.add(normal.multiply(depth * inverseB / inverseTotal));
+    this.broadphase.update(a, a.getBounds());
+    this.broadphase.update(b, b.getBounds());
+
+    const relative = b.velocity.subtract(a.velocity);
+    const closing = relative.dot(normal);
+    if (closing > 0) return; // Already separating
+
+    // Normal impulse with the bouncier body's restitution
+    const restitution = Math.max(a.restitution, b.restitution);
+    const impulse = -(1 + restitution) * closing / inverseTotal;
+    a.velocity = a.velocity.subtract(normal.multiply(impulse * inverseA));
+    b.velocity = b.velocity.add(normal.multiply(impulse * inverseB));
+
+    // Friction impulse along the contact, capped by the normal impulse
+    const tangent = relative.subtract(normal.multiply(closing));
+    const slide = tangent.magnitude();
+    if (slide === 0) return;
+
+    const direction = tangent.divide(slide);
+    const friction = Math.sqrt(a.friction * b.friction);
+    const frictionImpulse = Math.min(slide / inverseTotal, impulse * friction);
+    a.velocity = a.velocity.add(direction.multiply(frictionImpulse * inverseA));
+    b.velocity = b.velocity.subtract(direction.multiply(frictionImpulse * inverseB));
+  }
+
+  private emit(event: WorldEvent<TData>): void {
+    this.listeners.get(event.type)?.forEach(callback => callback(event));
+  }
+}
@@ -1,152 +1,124 @@
 /**
  * Card Game Engine
- * Pazaak-style card duel game
+ * Pazaak card duel game
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { forwardRef } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
-  StyleSheet,
-  Alert
+  StyleSheet
 } from 'react-native';
-import { GameEngineProps } from '../../GameEngine';
+import { GameEngineProps, IGameEngine } from '../../GameEngine';
 import { CARD_CONFIG } from '../../config/gameTypes';
+import { GameRuntime } from '../../runtime/GameRuntime';
+import { useEngineLifecycle } from '../../useEngineLifecycle';
+import { SIDE_CARD_POOL, SIDE_DECK_SIZE, TableCard, hasSign, sideCardLabel } from './pazaak';
+import { CardSimulation, handButtonId, sideCardButtonId } from './simulation';
 
-export const CardEngine: React.FC<GameEngineProps> = ({
-  level,
-  onScoreChange,
-  onLivesChange,
-  onWin,
-  onLose,
-  isPaused
-}) => {
+export const CardEngine = forwardRef<IGameEngine, GameEngineProps>(function CardEngine(props, ref) {
+  const { level } = props;
   const theme = CARD_CONFIG.theme;
-  const [playerScore, setPlayerScore] = useState(0);
-  const [opponentScore, setOpponentScore] = useState(0);
-  const [currentCard, setCurrentCard] = useState(0);
-  const [round, setRound] = useState(1);
-  const [gamePhase, setGamePhase] = useState<'player' | 'opponent' | 'result'>('player');
-  const [wins, setWins] = useState(0);
-  const [losses, setLosses] = useState(0);
 
-  const TARGET = 20;
-  const ROUNDS_TO_WIN = 3;
-
-  const drawCard = () => {
-    return Math.floor(Math.random() * 10) + 1; // 1-10
-  };
-
-  useEffect(() => {
-    setCurrentCard(drawCard());
-  }, []);
-
-  useEffect(() => {
-    if (wins >= ROUNDS_TO_WIN) {
-      onWin();
-    } else if (losses >= ROUNDS_TO_WIN) {
-      onLose();
-    }
-  }, [wins, losses]);
-
-  const handleHit = () => {
-    if (isPaused || gamePhase !== 'player') return;
-
-    const newScore = playerScore + currentCard;
-    setPlayerScore(newScore);
-
-    if (newScore > TARGET) {
-      // Bust!
-      Alert.alert('Bust!', `You went over ${TARGET}!`, [
-        { text: 'OK', onPress: () => endRound('opponent') }
-      ]);
-    } else if (newScore === TARGET) {
-      // Perfect!
-      Alert.alert('Perfect!', `You hit exactly ${TARGET}!`, [
-        { text: 'OK', onPress: () => opponentTurn() }
-      ]);
-    } else {
-      setCurrentCard(drawCard());
-    }
-  };
-
-  const handleStand = () => {
-    if (isPaused || gamePhase !== 'player') return;
-    opponentTurn();
-  };
-
-  const opponentTurn = () => {
-    setGamePhase('opponent');
-    
-    // Simple AI: try to beat player or get close to TARGET
-    let aiScore = 0;
-    const targetScore = playerScore > TARGET ? TARGET : Math.min(playerScore + 1, TARGET);
-    
-    const aiInterval = setInterval(() => {
-      if (aiScore < targetScore && aiScore < TARGET) {
-        const card = drawCard();
-        aiScore += card;
-        setOpponentScore(aiScore);
-      } else {
-        clearInterval(aiInterval);
-        setTimeout(() => determineWinner(playerScore, aiScore), 1000);
-      }
-    }, 1000);
-  };
-
-  const determineWinner = (pScore: number, oScore: number) => {
-    setGamePhase('result');
-
-    let winner = '';
-    if (pScore > TARGET) {
-      winner = 'opponent';
-    } else if (oScore > TARGET) {
-      winner = 'player';
-    } else if (pScore > oScore) {
-      winner = 'player';
-    } else {
-      winner = 'opponent';
-    }
-
-    if (winner === 'player') {
-      setWins(prev => prev + 1);
-      Alert.alert('You Win This Round!', `${pScore} beats ${oScore}`, [
-        { text: 'Next Round', onPress: startNextRound }
-      ]);
-    } else {
-      setLosses(prev => prev + 1);
-      Alert.alert('Opponent Wins', `${oScore} beats ${pScore}`, [
-        { text: 'Next Round', onPress: startNextRound }
-      ]);
-    }
-  };
+  const { runtimeProps, snapshot, pressButton } = useEngineLifecycle(
+    rng => new CardSimulation(level, rng),
+    props,
+    ref
+  );
+  const { paused } = runtimeProps;
+  const {
+    phase: gamePhase,
+    sideDeck,
+    playerTable,
+    opponentTable,
+    playerScore,
+    opponentScore,
+    playerStood,
+    opponentStood,
+    hand,
+    opponentHandSize,
+    canPlayCard,
+    round,
+    wins,
+    losses,
+    ties,
+    target,
+    roundsToWin,
+    banner
+  } = snapshot;
+  const isFinished = wins >= roundsToWin || losses >= roundsToWin;
+  const isPlayerTurn = gamePhase === 'player';
 
-  const startNextRound = () => {
-    setPlayerScore(0);
-    setOpponentScore(0);
-    setCurrentCard(drawCard());
-    setRound(prev => prev + 1);
-    setGamePhase('player');
-  };
+  const renderTable = (cards: TableCard[]) => (
+    <View style={styles.table}>
+      {cards.map((card, index) => (
+        <View
+          key={index}
+          style={[
+            styles.tableCard,
+            { backgroundColor: card.fromHand ? theme.colors.secondary : theme.colors.accent }
+          ]}
+        >
+          <Text style={styles.tableCardText}>{card.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
 
-  const endRound = (winner: 'player' | 'opponent') => {
-    if (winner === 'opponent') {
-      setLosses(prev => prev + 1);
-    }
-    setTimeout(startNextRound, 1500);
-  };
+  if (gamePhase === 'choose') {
+    return (
+      <GameRuntime
+        {...runtimeProps}
+        style={[styles.container, { backgroundColor: theme.colors.background }]}
+      >
+        <View style={styles.header}>
+          <Text style={[styles.headerText, { color: theme.colors.accent }]}>
+            Pick Your Side Deck ({sideDeck.length}/{SIDE_DECK_SIZE})
+          </Text>
+        </View>
+        <View style={styles.pool}>
+          {SIDE_CARD_POOL.map((card, index) => (
+            <TouchableOpacity
+              key={index}
+              style={[
+                styles.sideCard,
+                { backgroundColor: sideDeck.includes(index) ? theme.colors.secondary : 'rgba(0,0,0,0.2)' }
+              ]}
+              onPress={() => pressButton(sideCardButtonId(index))}
+              disabled={paused}
+            >
+              <Text style={styles.sideCardText}>{sideCardLabel(card)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity
+          style={[styles.actionButton, styles.startButton, { backgroundColor: theme.colors.primary }]}
+          onPress={() => pressButton('start')}
+          disabled={paused || sideDeck.length !== SIDE_DECK_SIZE}
+        >
+          <Text style={styles.buttonText}>Start</Text>
+        </TouchableOpacity>
+        <Text style={[styles.instructions, { color: theme.colors.textSecondary }]}>
+          Four of these are dealt to your hand each set. Play one per turn to change your total.
+        </Text>
+      </GameRuntime>
+    );
+  }
 
   return (
-    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+    <GameRuntime
+      {...runtimeProps}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
       {/* Game Info */}
       <View style={styles.header}>
         <Text style={[styles.headerText, { color: theme.colors.accent }]}>
-          Round {round} • First to {ROUNDS_TO_WIN} wins
+          Set {round} • First to {roundsToWin} wins
         </Text>
         <View style={styles.scoreBoard}>
           <Text style={[styles.scoreBoardText, { color: theme.colors.text }]}>
-            You: {wins} | Opponent: {losses}
+            You: {wins} | Opponent: {losses}{ties > 0 ? ` | Ties: ${ties}` : ''}
           </Text>
         </View>
       </View>
@@ -154,35 +126,75 @@ export const CardEngine: React.FC<GameEngineProps> = ({
       {/* Opponent Area */}
       <View style={[styles.playerArea, styles.opponentArea]}>
         <Text style={[styles.playerLabel, { color: theme.colors.textSecondary }]}>
-          Opponent
+          Opponent • {opponentHandSize} cards in hand{opponentStood ? ' • Standing' : ''}
         </Text>
         <View style={[styles.scoreDisplay, { backgroundColor: theme.colors.secondary + '40' }]}>
           <Text style={[styles.scoreText, { color: theme.colors.text }]}>
             {opponentScore}
           </Text>
         </View>
+        {renderTable(opponentTable)}
       </View>
 
-      {/* Current Card */}
-      <View style={styles.centerArea}>
-        <View style={[styles.card, { backgroundColor: theme.colors.accent }]}>
-          <Text style={styles.cardValue}>{currentCard}</Text>
+      <Text style={[styles.phaseText, { color: theme.colors.textSecondary }]}>
+        {isPlayerTurn ? 'Your Turn' : gamePhase === 'opponent' ? 'Opponent Turn' : 'Set Over'}
+      </Text>
+
+      {/* Set Result */}
+      {banner && (
+        <View style={[styles.banner, { borderColor: theme.colors.accent }]}>
+          <Text style={[styles.bannerTitle, { color: theme.colors.accent }]}>
+            {banner.title}
+          </Text>
+          <Text style={[styles.bannerMessage, { color: theme.colors.text }]}>
+            {banner.message}
+          </Text>
+          {gamePhase === 'result' && !isFinished && (
+            <TouchableOpacity
+              style={[styles.nextButton, { backgroundColor: theme.colors.accent }]}
+              onPress={() => pressButton('next_round')}
+              disabled={paused}
+            >
+              <Text style={styles.buttonText}>Next Set</Text>
+            </TouchableOpacity>
+          )}
         </View>
-        <Text style={[styles.phaseText, { color: theme.colors.textSecondary }]}>
-          {gamePhase === 'player' ? 'Your Turn' : gamePhase === 'opponent' ? 'Opponent Turn' : 'Round Over'}
-        </Text>
-      </View>
+      )}
 
       {/* Player Area */}
-      <View style={[styles.playerArea]}>
-        <Text style={[styles.playerLabel, { color: theme.colors.textSecondary }]}>
-          You
-        </Text>
+      <View style={styles.playerArea}>
+        {renderTable(playerTable)}
         <View style={[styles.scoreDisplay, { backgroundColor: theme.colors.primary + '40' }]}>
           <Text style={[styles.scoreText, { color: theme.colors.text }]}>
             {playerScore}
           </Text>
         </View>
+        <Text style={[styles.playerLabel, { color: theme.colors.textSecondary }]}>
+          You{playerStood ? ' • Standing' : ''}
+        </Text>
+      </View>
+
+      {/* Hand: ± cards can be played either way */}
+      <View style={styles.hand}>
+        {hand.map((card, index) => (
+          <View key={index} style={[styles.sideCard, { backgroundColor: theme.colors.secondary }]}>
+            <Text style={styles.sideCardText}>{sideCardLabel(card)}</Text>
+            <View style={styles.signs}>
+              {(hasSign(card) ? [1, -1] as const : [1] as const).map(sign => (
+                <TouchableOpacity
+                  key={sign}
+                  style={styles.signButton}
+                  onPress={() => pressButton(handButtonId(index, sign))}
+                  disabled={paused || !canPlayCard}
+                >
+                  <Text style={styles.signText}>
+                    {hasSign(card) ? (sign > 0 ? '+' : '\u2212') : 'Play'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        ))}
       </View>
 
       {/* Controls */}
@@ -193,8 +205,8 @@ export const CardEngine: React.FC<GameEngineProps> = ({
             styles.standButton,
             { backgroundColor: theme.colors.secondary }
           ]}
-          onPress={handleStand}
-          disabled={isPaused || gamePhase !== 'player'}
+          onPress={() => pressButton('stand')}
+          disabled={paused || !isPlayerTurn}
         >
           <Text style={styles.buttonText}>Stand</Text>
         </TouchableOpacity>
@@ -204,24 +216,23 @@ export const CardEngine: React.FC<GameEngineProps> = ({
             styles.hitButton,
             { backgroundColor: theme.colors.primary }
           ]}
-          onPress={handleHit}
-          disabled={isPaused || gamePhase !== 'player'}
+          onPress={() => pressButton('end_turn')}
+          disabled={paused || !isPlayerTurn}
         >
-          <Text style={styles.buttonText}>Hit</Text>
+          <Text style={styles.buttonText}>End Turn</Text>
         </TouchableOpacity>
       </View>
 
       {/* Instructions */}
       <Text style={[styles.instructions, { color: theme.colors.textSecondary }]}>
-        Get as close to {TARGET} as possible without going over!
+        Get as close to {target} as possible without going over, or fill your table with nine cards!
       </Text>
-    </View>
+    </GameRuntime>
   );
-};
+});
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
     padding: 20
   },
   header: {
@@ -242,6 +253,27 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: 'bold'
   },
+  banner: {
+    alignItems: 'center',
+    padding: 12,
+    borderWidth: 1,
+    borderRadius: 10,
+    backgroundColor: 'rgba(0,0,0,0.2)'
+  },
+  bannerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold'
+  },
+  bannerMessage: {
+    fontSize: 14,
+    marginTop: 4
+  },
+  nextButton: {
+    marginTop: 10,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 10
+  },
   playerArea: {
     alignItems: 'center',
     marginVertical: 20
@@ -254,42 +286,83 @@ const styles = StyleSheet.create({
     marginBottom: 10
   },
   scoreDisplay: {
-    width: 120,
-    height: 120,
-    borderRadius: 60,
+    width: 80,
+    height: 80,
+    borderRadius: 40,
     justifyContent: 'center',
     alignItems: 'center',
     borderWidth: 3,
     borderColor: 'rgba(255,255,255,0.3)'
   },
   scoreText: {
-    fontSize: 48,
+    fontSize: 36,
     fontWeight: 'bold'
   },
-  centerArea: {
-    alignItems: 'center',
-    marginVertical: 20
+  table: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    minHeight: 44,
+    marginVertical: 8
   },
-  card: {
-    width: 100,
-    height: 140,
-    borderRadius: 10,
+  tableCard: {
+    width: 30,
+    height: 40,
+    margin: 2,
+    borderRadius: 4,
+    justifyContent: 'center',
+    alignItems: 'center'
+  },
+  tableCardText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold'
+  },
+  pool: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
     justifyContent: 'center',
+    marginBottom: 20
+  },
+  hand: {
+    flexDirection: 'row',
+    justifyContent: 'center'
+  },
+  sideCard: {
+    width: 64,
+    minHeight: 56,
+    margin: 4,
+    padding: 4,
+    borderRadius: 8,
     alignItems: 'center',
-    elevation: 8,
-    shadowOffset: { width: 0, height: 4 },
-    shadowOpacity: 0.3,
-    shadowRadius: 8
+    justifyContent: 'center'
   },
-  cardValue: {
-    fontSize: 64,
-    fontWeight: 'bold',
-    color: '#fff'
+  sideCardText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold'
+  },
+  signs: {
+    flexDirection: 'row',
+    marginTop: 4
+  },
+  signButton: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginHorizontal: 2,
+    borderRadius: 4,
+    backgroundColor: 'rgba(0,0,0,0.3)'
+  },
+  signText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: 'bold'
   },
   phaseText: {
     fontSize: 16,
-    marginTop: 10,
-    fontWeight: 'bold'
+    marginVertical: 10,
+    fontWeight: 'bold',
+    textAlign: 'center'
   },
   controls: {
     flexDirection: 'row',
@@ -305,6 +378,9 @@ const styles = StyleSheet.create({
   },
   standButton: {},
   hitButton: {},
+  startButton: {
+    alignSelf: 'center'
+  },
   buttonText: {
     color: '#fff',
     fontSize: 20,
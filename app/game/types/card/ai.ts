@@ -0,0 +1,176 @@
+/**
+ * Card AI
+ * Pazaak strategies for the computer side, one per difficulty
+ *
+ * A strategy sees what a player at the table would: both tables, who has
+ * stood, its own hand and how many cards the other side holds. The order of
+ * the main deck and the other side's hand stay hidden.
+ */
+
+import { AIDifficulty } from '../../../config/levelSchemas';
+import { SeededRandom } from '../../runtime/random';
+import {
+  MAIN_DECK_COPIES,
+  PazaakSet,
+  Seat,
+  SetOutcome,
+  cloneSet,
+  endTurn,
+  hasSign,
+  otherSeat,
+  playSideCard,
+  stand,
+  tableTotal,
+  totalAfter
+} from './pazaak';
+
+export interface PazaakMove {
+  card: { index: number; sign: 1 | -1 } | null; // Hand card to play first, if any
+  stand: boolean;                                // Stand, or just end the turn
+}
+
+export interface CardStrategy {
+  chooseMove(set: PazaakSet, seat: Seat): PazaakMove;
+}
+
+// Totals the easy and medium strategies stand on
+const EASY_STAND_AT = 15;
+const MEDIUM_STAND_AT = 17;
+
+// Sampled deals the hard strategy plays out per decision
+const ROLLOUTS = 60;
+
+export function applyMove(set: PazaakSet, move: PazaakMove): void {
+  if (move.card) playSideCard(set, move.card.index, move.card.sign);
+  if (move.stand) stand(set);
+  else endTurn(set);
+}
+
+/**
+ * Play a set to the end with a strategy for each side
+ */
+export function playOut(set: PazaakSet, strategies: Record<Seat, CardStrategy>): SetOutcome {
+  while (!set.outcome) {
+    applyMove(set, strategies[set.turn].chooseMove(set, set.turn));
+  }
+  return set.outcome;
+}
+
+/**
+ * Main deck cards not yet on either table
+ */
+export function unseenCards(set: PazaakSet): number[] {
+  const counts = Array(11).fill(MAIN_DECK_COPIES);
+  Object.values(set.sides).forEach(side => side.table.forEach(card => {
+    if (!card.fromHand) counts[Math.abs(card.value)]--;
+  }));
+  const cards: number[] = [];
+  for (let value = 1; value <= 10; value++) {
+    for (let copy = 0; copy < counts[value]; copy++) cards.push(value);
+  }
+  return cards;
+}
+
+/**
+ * Whether standing now already beats an other side that has stood
+ */
+function isAhead(set: PazaakSet, seat: Seat, total: number): boolean {
+  const other = set.sides[otherSeat(seat)];
+  return other.stood && total > tableTotal(other);
+}
+
+/**
+ * Never plays side cards; stands on 15 or more
+ */
+export class EasyStrategy implements CardStrategy {
+  chooseMove(set: PazaakSet, seat: Seat): PazaakMove {
+    const total = tableTotal(set.sides[seat]);
+    return { card: null, stand: total >= EASY_STAND_AT || isAhead(set, seat, total) };
+  }
+}
+
+/**
+ * Plays a side card only to land on the target or to get back under it, and
+ * stands on 17 or once ahead of a side that has stood
+ */
+export class MediumStrategy implements CardStrategy {
+  chooseMove(set: PazaakSet, seat: Seat): PazaakMove {
+    const side = set.sides[seat];
+    const total = tableTotal(side);
+
+    let best: { index: number; sign: 1 | -1; total: number } | null = null;
+    for (let index = 0; index < side.hand.length; index++) {
+      const card = side.hand[index];
+      for (const sign of hasSign(card) ? [1, -1] as const : [1] as const) {
+        const after = totalAfter(side, card, sign);
+        const useful = after === set.target || (total > set.target && after <= set.target);
+        if (useful && (!best || after > best.total)) best = { index, sign, total: after };
+      }
+    }
+
+    const final = best ? best.total : total;
+    return {
+      card: best && { index: best.index, sign: best.sign },
+      stand: final >= MEDIUM_STAND_AT || isAhead(set, seat, final)
+    };
+  }
+}
+
+/**
+ * Tries every move (each hand card either way, or none, then standing or
+ * not) against the same sampled deals of the unseen cards, playing each
+ * out with the medium strategy on both sides, and picks the move that wins
+ * most often. Ties count half.
+ */
+export class HardStrategy implements CardStrategy {
+  private rng: SeededRandom;
+  private rollouts: number;
+  private playout = new MediumStrategy();
+
+  constructor(rng: SeededRandom, rollouts: number = ROLLOUTS) {
+    this.rng = rng;
+    this.rollouts = rollouts;
+  }
+
+  chooseMove(set: PazaakSet, seat: Seat): PazaakMove {
+    const side = set.sides[seat];
+    const cards: PazaakMove['card'][] = [null];
+    if (!set.playedThisTurn) {
+      side.hand.forEach((card, index) => {
+        cards.push({ index, sign: 1 });
+        if (hasSign(card)) cards.push({ index, sign: -1 });
+      });
+    }
+    const moves = cards.flatMap(card => [{ card, stand: false }, { card, stand: true }]);
+
+    const unseen = unseenCards(set);
+    const scores = moves.map(() => 0);
+    for (let rollout = 0; rollout < this.rollouts; rollout++) {
+      const deck = this.rng.shuffle([...unseen]);
+      moves.forEach((move, i) => {
+        const trial = cloneSet(set);
+        trial.deck = [...deck];
+        // The other side's hand is hidden, so play it out without one
+        trial.sides[otherSeat(seat)].hand = [];
+        applyMove(trial, move);
+        const { winner } = playOut(trial, { player: this.playout, opponent: this.playout });
+        scores[i] += winner === seat ? 1 : winner === null ? 0.5 : 0;
+      });
+    }
+
+    // Prefer keeping cards (earlier moves) when scores are level
+    let best = 0;
+    scores.forEach((score, i) => {
+      if (score > scores[best]) best = i;
+    });
+    return moves[best];
+  }
+}
+
+export function createStrategy(difficulty: AIDifficulty, rng: SeededRandom): CardStrategy {
+  switch (difficulty) {
+    case 'easy': return new EasyStrategy();
+    case 'medium': return new MediumStrategy();
+    case 'hard': return new HardStrategy(rng);
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * Pazaak Rules
+ * Sets of Pazaak played from a shared main deck and each side's side cards
+ *
+ * Each turn the dealer puts the next main deck card (1-10) on the table of
+ * the side whose turn it is. That side may then play one card from their
+ * hand (dealt from their side deck at the start of the set) and either end
+ * the turn or stand. Going over the target at the end of a turn loses the
+ * set, reaching it stands automatically, and filling the table with nine
+ * cards without going over wins outright. Once both sides stand the higher
+ * total wins; equal totals tie unless exactly one side played a tiebreaker.
+ *
+ * State is plain data mutated in place, so it can be cloned for look-ahead.
+ */
+
+import { SeededRandom } from '../../runtime/random';
+
+export type Seat = 'player' | 'opponent';
+
+export type SideCard =
+  | { kind: 'plus'; value: number }
+  | { kind: 'minus'; value: number }
+  | { kind: 'plusMinus'; value: number }          // Sign chosen when played
+  | { kind: 'flip'; values: [number, number] }    // Flips the sign of these values on your table
+  | { kind: 'tiebreaker' };                       // ±1, and wins a tied set
+
+export interface TableCard {
+  value: number;
+  label: string;
+  fromHand: boolean;
+}
+
+export interface SideState {
+  table: TableCard[];
+  hand: SideCard[];
+  stood: boolean;
+  tiebreaker: boolean;
+}
+
+export type SetReason = 'bust' | 'score' | 'nineCards' | 'tiebreaker' | 'tie';
+
+export interface SetOutcome {
+  winner: Seat | null; // null for a tie
+  reason: SetReason;
+}
+
+export interface PazaakSet {
+  target: number;
+  deck: number[]; // Main deck, drawn from the end
+  turn: Seat;
+  playedThisTurn: boolean;
+  sides: Record<Seat, SideState>;
+  outcome: SetOutcome | null;
+}
+
+export type PazaakResult = { ok: true } | { ok: false; error: string };
+
+export const MAIN_DECK_COPIES = 4; // Of each value 1-10
+export const HAND_SIZE = 4;
+export const SIDE_DECK_SIZE = 10;
+export const TABLE_LIMIT = 9;
+
+/**
+ * Every side card a player can put in their side deck
+ */
+export const SIDE_CARD_POOL: SideCard[] = [
+  ...[1, 2, 3, 4, 5, 6].map((value): SideCard => ({ kind: 'plus', value })),
+  ...[1, 2, 3, 4, 5, 6].map((value): SideCard => ({ kind: 'minus', value })),
+  ...[1, 2, 3, 4, 5, 6].map((value): SideCard => ({ kind: 'plusMinus', value })),
+  { kind: 'flip', values: [2, 4] },
+  { kind: 'flip', values: [3, 6] },
+  { kind: 'tiebreaker' }
+];
+
+/**
+ * Pool indices of the side deck used until a player picks their own
+ */
+export const DEFAULT_SIDE_DECK = [0, 1, 2, 3, 6, 7, 8, 9, 12, 13];
+
+export const otherSeat = (seat: Seat): Seat => (seat === 'player' ? 'opponent' : 'player');
+
+export function sideCardLabel(card: SideCard): string {
+  switch (card.kind) {
+    case 'plus': return `+${card.value}`;
+    case 'minus': return `-${card.value}`;
+    case 'plusMinus': return `±${card.value}`;
+    case 'flip': return `${card.values[0]}&${card.values[1]}`;
+    case 'tiebreaker': return '±1T';
+  }
+}
+
+/**
+ * Whether playing a card asks for a sign
+ */
+export function hasSign(card: SideCard): boolean {
+  return card.kind === 'plusMinus' || card.kind === 'tiebreaker';
+}
+
+export function createMainDeck(rng: SeededRandom): number[] {
+  const deck: number[] = [];
+  for (let value = 1; value <= 10; value++) {
+    for (let copy = 0; copy < MAIN_DECK_COPIES; copy++) deck.push(value);
+  }
+  return rng.shuffle(deck);
+}
+
+export function tableTotal(side: SideState): number {
+  return side.table.reduce((sum, card) => sum + card.value, 0);
+}
+
+/**
+ * Table total a side would have after playing a card from their hand
+ */
+export function totalAfter(side: SideState, card: SideCard, sign: 1 | -1 = 1): number {
+  const total = tableTotal(side);
+  switch (card.kind) {
+    case 'plus': return total + card.value;
+    case 'minus': return total - card.value;
+    case 'plusMinus': return total + sign * card.value;
+    case 'tiebreaker': return total + sign;
+    case 'flip': return side.table.reduce(
+      (sum, { value }) => sum + (card.values.includes(Math.abs(value)) ? -value : value),
+      0
+    );
+  }
+}
+
+/**
+ * Deal a set: shuffle the main deck, deal each side a hand from their side
+ * deck and draw the first card for whoever starts
+ */
+export function createSet(
+  rng: SeededRandom,
+  sideDecks: Record<Seat, SideCard[]>,
+  first: Seat,
+  target: number
+): PazaakSet {
+  const deal = (deck: SideCard[]): SideState => ({
+    table: [],
+    hand: rng.shuffle([...deck]).slice(0, HAND_SIZE),
+    stood: false,
+    tiebreaker: false
+  });
+
+  const set: PazaakSet = {
+    target,
+    deck: createMainDeck(rng),
+    turn: first,
+    playedThisTurn: false,
+    sides: { player: deal(sideDecks.player), opponent: deal(sideDecks.opponent) },
+    outcome: null
+  };
+  drawFor(set, first);
+  return set;
+}
+
+export function cloneSet(set: PazaakSet): PazaakSet {
+  const cloneSide = (side: SideState): SideState => ({
+    ...side,
+    table: side.table.map(card => ({ ...card })),
+    hand: [...side.hand]
+  });
+  return {
+    ...set,
+    deck: [...set.deck],
+    sides: { player: cloneSide(set.sides.player), opponent: cloneSide(set.sides.opponent) },
+    outcome: set.outcome && { ...set.outcome }
+  };
+}
+
+/**
+ * Play a card from the hand of the side whose turn it is. `sign` picks plus
+ * or minus for ± cards and is ignored otherwise.
+ */
+export function playSideCard(set: PazaakSet, handIndex: number, sign: 1 | -1 = 1): PazaakResult {
+  if (set.outcome) return { ok: false, error: 'The set is over' };
+  if (set.playedThisTurn) return { ok: false, error: 'Only one side card per turn' };
+
+  const side = set.sides[set.turn];
+  const card = side.hand[handIndex];
+  if (!card) return { ok: false, error: `No card ${handIndex} in hand` };
+
+  side.hand.splice(handIndex, 1);
+  set.playedThisTurn = true;
+  const label = sideCardLabel(card);
+
+  switch (card.kind) {
+    case 'plus':
+      side.table.push({ value: card.value, label, fromHand: true });
+      break;
+    case 'minus':
+      side.table.push({ value: -card.value, label, fromHand: true });
+      break;
+    case 'plusMinus':
+      side.table.push({ value: sign * card.value, label: `${sign > 0 ? '+' : '-'}${card.value}`, fromHand: true });
+      break;
+    case 'tiebreaker':
+      side.table.push({ value: sign, label: `${sign > 0 ? '+' : '-'}1T`, fromHand: true });
+      side.tiebreaker = true;
+      break;
+    case 'flip':
+      side.table.forEach(tableCard => {
+        if (card.values.includes(Math.abs(tableCard.value))) tableCard.value = -tableCard.value;
+      });
+      side.table.push({ value: 0, label, fromHand: true });
+      break;
+  }
+  return { ok: true };
+}
+
+/**
+ * End the current side's turn without standing
+ */
+export function endTurn(set: PazaakSet): PazaakResult {
+  return finishTurn(set, false);
+}
+
+/**
+ * Stand on the current total; the other side plays on alone
+ */
+export function stand(set: PazaakSet): PazaakResult {
+  return finishTurn(set, true);
+}
+
+function finishTurn(set: PazaakSet, standing: boolean): PazaakResult {
+  if (set.outcome) return { ok: false, error: 'The set is over' };
+
+  const seat = set.turn;
+  const side = set.sides[seat];
+  const total = tableTotal(side);
+
+  if (total > set.target) {
+    set.outcome = { winner: otherSeat(seat), reason: 'bust' };
+    return { ok: true };
+  }
+  if (side.table.length >= TABLE_LIMIT) {
+    set.outcome = { winner: seat, reason: 'nineCards' };
+    return { ok: true };
+  }
+  side.stood = standing || total === set.target;
+
+  const other = set.sides[otherSeat(seat)];
+  if (side.stood && other.stood) {
+    set.outcome = compareTotals(set);
+    return { ok: true };
+  }
+
+  // A side that stood sits out; the other keeps playing
+  set.turn = other.stood ? seat : otherSeat(seat);
+  set.playedThisTurn = false;
+  drawFor(set, set.turn);
+  return { ok: true };
+}
+
+function drawFor(set: PazaakSet, seat: Seat): void {
+  // Two full tables take 18 cards, so the 40-card deck never runs out
+  const value = set.deck.pop()!;
+  set.sides[seat].table.push({ value, label: String(value), fromHand: false });
+}
+
+function compareTotals(set: PazaakSet): SetOutcome {
+  const player = tableTotal(set.sides.player);
+  const opponent = tableTotal(set.sides.opponent);
+  if (player !== opponent) {
+    return { winner: player > opponent ? 'player' : 'opponent', reason: 'score' };
+  }
+
+  const { player: playerSide, opponent: opponentSide } = set.sides;
+  if (playerSide.tiebreaker !== opponentSide.tiebreaker) {
+    return { winner: playerSide.tiebreaker ? 'player' : 'opponent', reason: 'tiebreaker' };
+  }
+  return { winner: null, reason: 'tie' };
+}
@@ -0,0 +1,269 @@
+/**
+ * Card Simulation
+ * Pazaak duel logic, stepped by GameRuntime
+ *
+ * The player picks a side deck, then plays sets against the opponent until
+ * one of them has won roundsToWin sets. The rules themselves live in
+ * pazaak.ts and the opponent's play in ai.ts, picked by the level's
+ * aiDifficulty; this drives them from input and paces the opponent's turns.
+ */
+
+import { Level } from '../../../config/levels';
+import { CardLevelSettings } from '../../../config/levelSchemas';
+import { getLevelSettings } from '../../../config/levelBundles';
+import { GameState, EngineSimulation } from '../../GameEngine';
+import { GameType } from '../../config/gameTypes';
+import { InputEvent } from '../../runtime/input';
+import { SeededRandom } from '../../runtime/random';
+import { CardStrategy, applyMove, createStrategy } from './ai';
+import {
+  DEFAULT_SIDE_DECK,
+  PazaakSet,
+  SIDE_CARD_POOL,
+  SIDE_DECK_SIZE,
+  Seat,
+  SetOutcome,
+  SideCard,
+  TableCard,
+  createSet,
+  endTurn,
+  playSideCard,
+  stand,
+  tableTotal
+} from './pazaak';
+
+// Seconds the opponent takes over each turn
+const OPPONENT_TURN_DELAY = 1;
+
+export type CardPhase = 'choose' | 'player' | 'opponent' | 'result';
+
+export interface CardBanner {
+  title: string;
+  message: string;
+}
+
+export interface CardSnapshot {
+  phase: CardPhase;
+  sideDeck: number[]; // Chosen SIDE_CARD_POOL indices
+  playerTable: TableCard[];
+  opponentTable: TableCard[];
+  playerScore: number;   // Table totals
+  opponentScore: number;
+  playerStood: boolean;
+  opponentStood: boolean;
+  hand: SideCard[];
+  opponentHandSize: number;
+  canPlayCard: boolean; // No side card played yet this turn
+  round: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  history: SetOutcome[];
+  target: number;
+  roundsToWin: number;
+  banner: CardBanner | null;
+}
+
+/**
+ * Button id for a side card in the deck picker, e.g. "side:4"
+ */
+export function sideCardButtonId(poolIndex: number): string {
+  return `side:${poolIndex}`;
+}
+
+/**
+ * Button id for playing a card from the hand; ± cards take a sign, e.g.
+ * "hand:2:-"
+ */
+export function handButtonId(index: number, sign: 1 | -1 = 1): string {
+  return `hand:${index}:${sign > 0 ? '+' : '-'}`;
+}
+
+export class CardSimulation implements EngineSimulation<CardSnapshot> {
+  revision = 0;
+
+  private level: Level;
+  private settings: CardLevelSettings;
+  private rng: SeededRandom;
+  private strategy: CardStrategy;
+  private sideDeck = [...DEFAULT_SIDE_DECK];
+  private opponentDeck: SideCard[] = DEFAULT_SIDE_DECK.map(index => SIDE_CARD_POOL[index]);
+  private set: PazaakSet | null = null;
+  private firstSeat: Seat = 'player';
+  private round = 0;
+  private phase: CardPhase = 'choose';
+  private wins = 0;
+  private losses = 0;
+  private ties = 0;
+  private history: SetOutcome[] = [];
+  private banner: CardBanner | null = null;
+  private opponentTimer = 0;
+
+  constructor(
+    level: Level,
+    rng: SeededRandom,
+    settings: CardLevelSettings = getLevelSettings(GameType.CARD, level.id)
+  ) {
+    this.level = level;
+    this.settings = settings;
+    this.rng = rng;
+    this.strategy = createStrategy(settings.aiDifficulty, rng);
+  }
+
+  get isFinished(): boolean {
+    const { roundsToWin } = this.settings;
+    return this.wins >= roundsToWin || this.losses >= roundsToWin;
+  }
+
+  update(deltaTime: number): void {
+    if (this.phase !== 'opponent') return;
+
+    this.opponentTimer += deltaTime;
+    while (this.phase === 'opponent' && this.opponentTimer >= OPPONENT_TURN_DELAY) {
+      this.opponentTimer -= OPPONENT_TURN_DELAY;
+      this.opponentTurn();
+      this.sync();
+      this.revision++;
+    }
+  }
+
+  handleInput(input: InputEvent): void {
+    if (input.type !== 'button_press' || !input.buttonId || this.isFinished) return;
+    const [action, index, sign] = input.buttonId.split(':');
+
+    if (this.phase === 'choose') {
+      if (action === 'side') this.toggleSideCard(Number(index));
+      else if (action === 'start' && this.sideDeck.length === SIDE_DECK_SIZE) this.startSet();
+      else return;
+    } else if (this.phase === 'player' && this.set) {
+      if (action === 'hand') {
+        if (!playSideCard(this.set, Number(index), sign === '-' ? -1 : 1).ok) return;
+      } else if (action === 'end_turn') {
+        endTurn(this.set);
+      } else if (action === 'stand') {
+        stand(this.set);
+      } else {
+        return;
+      }
+      this.sync();
+    } else if (this.phase === 'result' && action === 'next_round') {
+      this.startSet();
+    } else {
+      return;
+    }
+    this.revision++;
+  }
+
+  getState(): GameState {
+    return {
+      score: this.wins,
+      lives: this.settings.roundsToWin - this.losses,
+      timeRemaining: 0,
+      isPaused: false,
+      isGameOver: this.isFinished,
+      isWin: this.wins >= this.settings.roundsToWin
+    };
+  }
+
+  getSnapshot(): CardSnapshot {
+    const set = this.set;
+    const player = set?.sides.player;
+    const opponent = set?.sides.opponent;
+    return {
+      phase: this.phase,
+      sideDeck: [...this.sideDeck],
+      playerTable: player ? player.table.map(card => ({ ...card })) : [],
+      opponentTable: opponent ? opponent.table.map(card => ({ ...card })) : [],
+      playerScore: player ? tableTotal(player) : 0,
+      opponentScore: opponent ? tableTotal(opponent) : 0,
+      playerStood: player?.stood ?? false,
+      opponentStood: opponent?.stood ?? false,
+      hand: player ? [...player.hand] : [],
+      opponentHandSize: opponent?.hand.length ?? 0,
+      canPlayCard: this.phase === 'player' && !set?.playedThisTurn,
+      round: this.round,
+      wins: this.wins,
+      losses: this.losses,
+      ties: this.ties,
+      history: [...this.history],
+      target: this.settings.target,
+      roundsToWin: this.settings.roundsToWin,
+      banner: this.banner
+    };
+  }
+
+  private toggleSideCard(poolIndex: number): void {
+    if (!SIDE_CARD_POOL[poolIndex]) return;
+    const at = this.sideDeck.indexOf(poolIndex);
+    if (at >= 0) this.sideDeck.splice(at, 1);
+    else if (this.sideDeck.length < SIDE_DECK_SIZE) this.sideDeck.push(poolIndex);
+  }
+
+  private startSet(): void {
+    const decks = {
+      player: this.sideDeck.map(index => SIDE_CARD_POOL[index]),
+      opponent: this.opponentDeck
+    };
+    this.set = createSet(this.rng, decks, this.firstSeat, this.settings.target);
+    this.round++;
+    this.banner = null;
+    this.opponentTimer = 0;
+    this.sync();
+  }
+
+  private opponentTurn(): void {
+    const set = this.set!;
+    applyMove(set, this.strategy.chooseMove(set, 'opponent'));
+  }
+
+  /**
+   * Follow the set: whose turn it is, or its result once it is over
+   */
+  private sync(): void {
+    const set = this.set!;
+    if (!set.outcome) {
+      this.phase = set.turn;
+      return;
+    }
+    if (this.phase === 'result') return;
+
+    const { winner } = set.outcome;
+    this.phase = 'result';
+    this.history.push(set.outcome);
+    this.banner = this.describe(set.outcome);
+    if (winner === 'player') this.wins++;
+    else if (winner === 'opponent') this.losses++;
+    else this.ties++;
+
+    // The loser starts the next set; after a tie the same side starts again
+    if (winner) this.firstSeat = winner === 'player' ? 'opponent' : 'player';
+  }
+
+  private describe({ winner, reason }: SetOutcome): CardBanner {
+    const { target } = this.settings;
+    const pScore = tableTotal(this.set!.sides.player);
+    const oScore = tableTotal(this.set!.sides.opponent);
+    const won = winner === 'player';
+
+    switch (reason) {
+      case 'bust':
+        return won
+          ? { title: 'You Win This Set!', message: `Opponent went over ${target}` }
+          : { title: 'Bust!', message: `You went over ${target}!` };
+      case 'nineCards':
+        return won
+          ? { title: 'Full Table!', message: 'Nine cards without going over wins the set' }
+          : { title: 'Opponent Filled the Table', message: 'Nine cards without going over wins the set' };
+      case 'tiebreaker':
+        return won
+          ? { title: 'Tiebreaker!', message: `Your tiebreaker wins the tie at ${pScore}` }
+          : { title: 'Tiebreaker!', message: `Opponent's tiebreaker wins the tie at ${oScore}` };
+      case 'tie':
+        return { title: 'Tied Set', message: `${pScore} all, no one scores` };
+      case 'score':
+        return won
+          ? { title: 'You Win This Set!', message: `${pScore} beats ${oScore}` }
+          : { title: 'Opponent Wins', message: `${oScore} beats ${pScore}` };
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Platformer Maps
+ * Bundled tilemaps, referenced by name from the platformer level settings
+ */
+
+import { getLevelSettings } from '../../../../config/levelBundles';
+import { GameType } from '../../../config/gameTypes';
+import { Tilemap, TilemapData, loadTilemap } from '../tilemap';
+import level1 from './level-1.json';
+import level2 from './level-2.json';
+import level3 from './level-3.json';
+
+const MAP_DATA: Record<string, TilemapData> = {
+  'level-1': level1,
+  'level-2': level2,
+  'level-3': level3
+};
+
+export function getPlatformerMapNames(): string[] {
+  return Object.keys(MAP_DATA);
+}
+
+/**
+ * Fresh copy of a bundled map; throws for unknown names
+ */
+export function loadPlatformerMap(name: string): Tilemap {
+  const data = MAP_DATA[name];
+  if (!data) {
+    throw new Error(`Unknown platformer map "${name}"`);
+  }
+  return loadTilemap(data, name);
+}
+
+/**
+ * Fresh copy of the map a level's settings point at
+ */
+export function getPlatformerMap(levelId: number): Tilemap {
+  return loadPlatformerMap(getLevelSettings(GameType.PLATFORMER, levelId).map);
+}
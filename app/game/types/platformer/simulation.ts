@@ -0,0 +1,243 @@
+/**
+ * Platformer Simulation
+ * Jump-and-run logic on a tilemap, stepped by GameRuntime
+ */
+
+import { Level } from '../../../config/levels';
+import { GameState, EngineSimulation } from '../../GameEngine';
+import { PLATFORMER_CONFIG } from '../../config/gameTypes';
+import { InputEvent } from '../../runtime/input';
+import { Camera, RenderQueue, createRect, createText } from '../../runtime/rendering';
+import { Vector2D, lerp, moveAgainstTiles, queryTiles } from '../../runtime/physics2d';
+import { Tilemap, TileType } from './tilemap';
+import { getPlatformerMap } from './maps';
+
+export const PLAYER_SIZE = 40;
+
+// Tuned for the original 60 Hz tick: 0.5px/frame² gravity, -12px/frame jump, 5px/frame run
+const GRAVITY = 1800;
+const JUMP_VELOCITY = -720;
+const MOVE_SPEED = PLATFORMER_CONFIG.levelParameters.moveSpeed * 60;
+
+const CAMERA_SMOOTHING = 0.15; // Share of the gap to the player closed per 60 Hz tick
+const VIEW_BOTTOM_MARGIN = 120; // Keeps the map's floor clear of the on-screen controls
+
+export interface PlatformerSnapshot {
+  score: number;
+  isGrounded: boolean;
+}
+
+/**
+ * Solid tiles block from every side; one-way tiles only from above
+ */
+function blocksPlayer(tile: TileType, normal: Vector2D): boolean {
+  return tile === 'solid' || (tile === 'one_way' && normal.y < 0);
+}
+
+export class PlatformerSimulation implements EngineSimulation<PlatformerSnapshot> {
+  revision = 0;
+
+  readonly map: Tilemap;
+
+  private level: Level;
+  private x: number;
+  private y: number;
+  private prevX: number;
+  private prevY: number;
+  private velocityY = 0;
+  private isGrounded = false;
+  private movingLeft = false;
+  private movingRight = false;
+  private score = 0;
+  // Where the camera centres, eased after the player each step
+  private focus: { x: number; y: number };
+  private prevFocus: { x: number; y: number };
+  private finished: 'won' | 'lost' | null = null;
+
+  constructor(level: Level, map: Tilemap = getPlatformerMap(level.id)) {
+    this.level = level;
+    this.map = map;
+
+    // Stand on the floor of the spawn tile
+    const { column, row } = map.spawn;
+    this.x = column * map.tileSize + (map.tileSize - PLAYER_SIZE) / 2;
+    this.y = (row + 1) * map.tileSize - PLAYER_SIZE;
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.focus = { x: this.x + PLAYER_SIZE / 2, y: this.y + PLAYER_SIZE / 2 };
+    this.prevFocus = { ...this.focus };
+  }
+
+  get position(): { x: number; y: number } {
+    return { x: this.x, y: this.y };
+  }
+
+  update(deltaTime: number): void {
+    if (this.finished) return;
+
+    this.prevX = this.x;
+    this.prevY = this.y;
+
+    // Gravity (semi-implicit Euler), then move through the map one axis at a time
+    const direction = (this.movingRight ? 1 : 0) - (this.movingLeft ? 1 : 0);
+    this.velocityY += GRAVITY * deltaTime;
+    const moved = moveAgainstTiles(
+      this.map,
+      { x: this.x, y: this.y, width: PLAYER_SIZE, height: PLAYER_SIZE },
+      new Vector2D(direction * MOVE_SPEED * deltaTime, this.velocityY * deltaTime),
+      blocksPlayer
+    );
+    this.x = Math.max(0, Math.min(this.map.width - PLAYER_SIZE, moved.x));
+    this.y = moved.y;
+
+    const wasGrounded = this.isGrounded;
+    this.isGrounded = moved.contacts.some(contact => contact.normal.y < 0);
+    if (this.isGrounded || moved.contacts.some(contact => contact.normal.y > 0)) {
+      this.velocityY = 0;
+    }
+    if (wasGrounded !== this.isGrounded) {
+      this.revision++;
+    }
+
+    // Tiles the player is standing in: coins, hazards and the goal
+    let touchedHazard = false;
+    let reachedGoal = false;
+    for (const hit of queryTiles(this.map, { x: this.x, y: this.y, width: PLAYER_SIZE, height: PLAYER_SIZE })) {
+      if (hit.tile === 'coin') {
+        this.map.clearTile(hit.column, hit.row);
+        this.score += this.level.coinValue;
+        this.revision++;
+      } else if (hit.tile === 'hazard') {
+        touchedHazard = true;
+      } else if (hit.tile === 'goal') {
+        reachedGoal = true;
+      }
+    }
+
+    // Ease the camera after the player at the same rate whatever the step size
+    const easing = 1 - Math.pow(1 - CAMERA_SMOOTHING, deltaTime * 60);
+    this.prevFocus = { ...this.focus };
+    this.focus.x += (this.x + PLAYER_SIZE / 2 - this.focus.x) * easing;
+    this.focus.y += (this.y + PLAYER_SIZE / 2 - this.focus.y) * easing;
+
+    // Reach the goal to win; spikes or falling out of the map lose
+    if (reachedGoal) {
+      this.finished = 'won';
+      this.revision++;
+    } else if (touchedHazard || this.y > this.map.height) {
+      this.finished = 'lost';
+      this.revision++;
+    }
+  }
+
+  handleInput(input: InputEvent): void {
+    const pressed = input.type === 'button_press';
+    if (!pressed && input.type !== 'button_release') return;
+
+    switch (input.buttonId) {
+      case 'left':
+        this.movingLeft = pressed;
+        break;
+      case 'right':
+        this.movingRight = pressed;
+        break;
+      case 'jump':
+        if (pressed) this.jump();
+        break;
+    }
+  }
+
+  render(renderQueue: RenderQueue, alpha: number, camera?: Camera | null): void {
+    const theme = PLATFORMER_CONFIG.theme;
+    const map = this.map;
+    const size = map.tileSize;
+    const x = lerp(this.prevX, this.x, alpha);
+    const y = lerp(this.prevY, this.y, alpha);
+
+    let firstColumn = 0;
+    let lastColumn = map.columns - 1;
+    let firstRow = 0;
+    let lastRow = map.rows - 1;
+
+    if (camera) {
+      // The focus eases in update(), so drawing more frames does not move it faster
+      camera.follow(lerp(this.prevFocus.x, this.focus.x, alpha), lerp(this.prevFocus.y, this.focus.y, alpha), 1);
+      camera.clampToBounds(
+        0,
+        Math.min(0, map.height + VIEW_BOTTOM_MARGIN - camera.height),
+        Math.max(map.width, camera.width),
+        map.height + VIEW_BOTTOM_MARGIN
+      );
+
+      // Only draw tiles on screen
+      firstColumn = Math.max(0, Math.floor(camera.x / size));
+      lastColumn = Math.min(map.columns - 1, Math.floor((camera.x + camera.width) / size));
+      firstRow = Math.max(0, Math.floor(camera.y / size));
+      lastRow = Math.min(map.rows - 1, Math.floor((camera.y + camera.height) / size));
+    }
+
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        const tile = map.tileAt(column, row);
+        if (tile !== null) {
+          this.renderTile(renderQueue, tile, column * size, row * size, `tile-${row}-${column}`);
+        }
+      }
+    }
+
+    renderQueue.add(createRect('player', x, y, PLAYER_SIZE, PLAYER_SIZE, theme.colors.accent, {
+      cornerRadius: 5,
+      zIndex: 1
+    }));
+    renderQueue.add(createText('player-icon', '🏃', x + 6, y + 4, { fontSize: 24, zIndex: 2 }));
+  }
+
+  getState(): GameState {
+    return {
+      score: this.score,
+      lives: 1,
+      timeRemaining: 0,
+      isPaused: false,
+      isGameOver: this.finished !== null,
+      isWin: this.finished === 'won'
+    };
+  }
+
+  getSnapshot(): PlatformerSnapshot {
+    return {
+      score: this.score,
+      isGrounded: this.isGrounded
+    };
+  }
+
+  private renderTile(renderQueue: RenderQueue, tile: TileType, x: number, y: number, id: string): void {
+    const theme = PLATFORMER_CONFIG.theme;
+    const size = this.map.tileSize;
+
+    switch (tile) {
+      case 'solid':
+        renderQueue.add(createRect(id, x, y, size, size, theme.colors.secondary, { cornerRadius: 3 }));
+        break;
+      case 'one_way':
+        renderQueue.add(createRect(id, x, y, size, size / 4, theme.colors.primary, { cornerRadius: 3 }));
+        break;
+      case 'hazard':
+        renderQueue.add(createText(id, '🔺', x + 6, y + 8, { fontSize: 24 }));
+        break;
+      case 'coin':
+        renderQueue.add(createText(id, '🪙', x + 8, y + 8, { fontSize: 20 }));
+        break;
+      case 'goal':
+        renderQueue.add(createText(id, '🏁', x + 5, y + 2, { fontSize: 30 }));
+        break;
+    }
+  }
+
+  private jump(): void {
+    if (this.isGrounded) {
+      this.velocityY = JUMP_VELOCITY;
+      this.isGrounded = false;
+      this.revision++;
+    }
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Platformer Tilemaps
+ * JSON level format for the platformer and its loader
+ *
+ * A map is a grid of rows, one character per tile:
+ *   .  empty      #  solid       =  one-way (land on top, jump up through)
+ *   ^  hazard     C  coin        S  spawn (exactly one)   G  goal
+ */
+
+import { TileGrid } from '../../runtime/physics2d';
+
+export type TileType = 'empty' | 'solid' | 'one_way' | 'hazard' | 'coin' | 'spawn' | 'goal';
+
+export const TILE_CHARS: Record<string, TileType> = {
+  '.': 'empty',
+  '#': 'solid',
+  '=': 'one_way',
+  '^': 'hazard',
+  'C': 'coin',
+  'S': 'spawn',
+  'G': 'goal'
+};
+
+export const DEFAULT_TILE_SIZE = 40;
+
+/**
+ * Map as stored in JSON
+ */
+export interface TilemapData {
+  tileSize?: number; // Pixels per tile (default 40)
+  rows: string[];
+}
+
+export type TilemapParseResult =
+  | { ok: true; map: Tilemap }
+  | { ok: false; error: string };
+
+/**
+ * Parsed map. Empty and spawn cells (and collected coins) read as null, so
+ * collision queries only return tiles that still matter.
+ */
+export class Tilemap implements TileGrid<TileType> {
+  readonly tileSize: number;
+  readonly columns: number;
+  readonly rows: number;
+  readonly spawn: { column: number; row: number };
+  private tiles: TileType[][];
+
+  constructor(tiles: TileType[][], tileSize: number) {
+    this.tiles = tiles.map(row => [...row]);
+    this.tileSize = tileSize;
+    this.rows = tiles.length;
+    this.columns = tiles[0].length;
+
+    const spawnRow = tiles.findIndex(row => row.includes('spawn'));
+    this.spawn = { column: tiles[spawnRow].indexOf('spawn'), row: spawnRow };
+  }
+
+  get width(): number {
+    return this.columns * this.tileSize;
+  }
+
+  get height(): number {
+    return this.rows * this.tileSize;
+  }
+
+  tileAt(column: number, row: number): TileType | null {
+    const tile = this.tiles[row]?.[column];
+    return tile === undefined || tile === 'empty' || tile === 'spawn' ? null : tile;
+  }
+
+  /**
+   * Clear a tile (e.g. a collected coin)
+   */
+  clearTile(column: number, row: number): void {
+    if (this.tiles[row]?.[column] !== undefined) {
+      this.tiles[row][column] = 'empty';
+    }
+  }
+
+  /**
+   * Independent copy, so a run can collect coins without touching the source
+   */
+  clone(): Tilemap {
+    return new Tilemap(this.tiles, this.tileSize);
+  }
+}
+
+/**
+ * Validate and parse a map loaded from JSON
+ */
+export function parseTilemap(data: unknown): TilemapParseResult {
+  const raw = data as TilemapData;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.rows) || raw.rows.length === 0) {
+    return { ok: false, error: 'Tilemap needs a non-empty "rows" array' };
+  }
+
+  const tileSize = raw.tileSize ?? DEFAULT_TILE_SIZE;
+  if (!Number.isInteger(tileSize) || tileSize <= 0) {
+    return { ok: false, error: `Tilemap tileSize must be a positive integer (got ${String(raw.tileSize)})` };
+  }
+
+  const width = typeof raw.rows[0] === 'string' ? raw.rows[0].length : 0;
+  const tiles: TileType[][] = [];
+  for (let row = 0; row < raw.rows.length; row++) {
+    const line = raw.rows[row];
+    if (typeof line !== 'string' || line.length !== width || width === 0) {
+      return { ok: false, error: `Tilemap row ${row} must be a string of ${width || 'at least 1'} tiles` };
+    }
+
+    const types: TileType[] = [];
+    for (let column = 0; column < line.length; column++) {
+      const type = TILE_CHARS[line[column]];
+      if (!type) {
+        return { ok: false, error: `Unknown tile '${line[column]}' at row ${row}, column ${column}` };
+      }
+      types.push(type);
+    }
+    tiles.push(types);
+  }
+
+  const count = (type: TileType) => tiles.reduce((total, row) => total + row.filter(tile => tile === type).length, 0);
+  if (count('spawn') !== 1) {
+    return { ok: false, error: `Tilemap needs exactly one spawn 'S' (found ${count('spawn')})` };
+  }
+  if (count('goal') === 0) {
+    return { ok: false, error: "Tilemap needs at least one goal 'G'" };
+  }
+
+  return { ok: true, map: new Tilemap(tiles, tileSize) };
+}
+
+/**
+ * Parse a bundled map, failing loudly: a broken bundled level is a build bug
+ */
+export function loadTilemap(data: unknown, name: string): Tilemap {
+  const result = parseTilemap(data);
+  if (!result.ok) {
+    throw new Error(`Invalid platformer map ${name}: ${result.error}`);
+  }
+  return result.map;
+}
@@ -3,7 +3,7 @@
  * Zen-themed match-3 puzzle game
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { forwardRef, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,156 +11,88 @@ import {
   StyleSheet,
   Dimensions
 } from 'react-native';
-import { GameEngineProps } from '../../GameEngine';
+import { GameEngineProps, IGameEngine } from '../../GameEngine';
 import { PUZZLE_CONFIG } from '../../config/gameTypes';
+import { GameRuntime } from '../../runtime/GameRuntime';
+import { Easing } from '../../runtime/rendering';
+import { useEngineLifecycle } from '../../useEngineLifecycle';
+import { PuzzleSimulation, Special, Tile, tileButtonId } from './simulation';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
-const GRID_SIZE = 6;
-const TILE_SIZE = (SCREEN_WIDTH - 40) / GRID_SIZE;
-const COLORS = ['#e8d5b7', '#b8d4e3', '#d4e8d4', '#f4c2c2', '#e8d4f4'];
 
-type Tile = {
-  color: string;
-  id: string;
+// Grid padding and tile margin, matching the styles below
+const GRID_PADDING = 5;
+const TILE_MARGIN = 2;
+
+const SPECIAL_GLYPHS: Record<Special, string> = {
+  row: '\u2194',      // ↔
+  column: '\u2195',   // ↕
+  bomb: '\u2739',     // ✹
+  colorBomb: '\u2605' // ★
 };
 
-export const PuzzleEngine: React.FC<GameEngineProps> = ({
-  level,
-  onScoreChange,
-  onLivesChange,
-  onWin,
-  onLose,
-  isPaused
-}) => {
+export const PuzzleEngine = forwardRef<IGameEngine, GameEngineProps>(function PuzzleEngine(props, ref) {
+  const { level } = props;
   const theme = PUZZLE_CONFIG.theme;
-  const [grid, setGrid] = useState<Tile[][]>([]);
-  const [score, setScore] = useState(0);
-  const [selectedTile, setSelectedTile] = useState<{row: number; col: number} | null>(null);
-  const [moves, setMoves] = useState(level.powerUps * 10 || 30);
-
-  useEffect(() => {
-    initializeGrid();
-  }, []);
-
-  useEffect(() => {
-    if (score >= level.targetScore) {
-      onWin();
-    }
-  }, [score]);
-
-  useEffect(() => {
-    if (moves === 0 && score < level.targetScore) {
-      onLose();
-    }
-  }, [moves]);
-
-  const initializeGrid = () => {
-    const newGrid: Tile[][] = [];
-    for (let row = 0; row < GRID_SIZE; row++) {
-      const rowTiles: Tile[] = [];
-      for (let col = 0; col < GRID_SIZE; col++) {
-        rowTiles.push({
-          color: COLORS[Math.floor(Math.random() * COLORS.length)],
-          id: `${row}-${col}-${Date.now()}`
-        });
-      }
-      newGrid.push(rowTiles);
-    }
-    setGrid(newGrid);
-  };
-
-  const handleTilePress = (row: number, col: number) => {
-    if (isPaused) return;
 
-    if (!selectedTile) {
-      setSelectedTile({ row, col });
-    } else {
-      // Check if tiles are adjacent
-      const isAdjacent =
-        (Math.abs(selectedTile.row - row) === 1 && selectedTile.col === col) ||
-        (Math.abs(selectedTile.col - col) === 1 && selectedTile.row === row);
-
-      if (isAdjacent) {
-        swapTiles(selectedTile.row, selectedTile.col, row, col);
-        setMoves(prev => prev - 1);
-      }
-      setSelectedTile(null);
-    }
-  };
-
-  const swapTiles = (row1: number, col1: number, row2: number, col2: number) => {
-    const newGrid = [...grid.map(row => [...row])];
-    const temp = newGrid[row1][col1];
-    newGrid[row1][col1] = newGrid[row2][col2];
-    newGrid[row2][col2] = temp;
-    
-    setGrid(newGrid);
-    
-    // Check for matches after swap
-    setTimeout(() => checkMatches(), 300);
-  };
-
-  const checkMatches = () => {
-    let matchesFound = false;
-    const newGrid = [...grid.map(row => [...row])];
-    const toRemove: {row: number; col: number}[] = [];
-
-    // Check horizontal matches
-    for (let row = 0; row < GRID_SIZE; row++) {
-      for (let col = 0; col < GRID_SIZE - 2; col++) {
-        if (
-          newGrid[row][col].color === newGrid[row][col + 1].color &&
-          newGrid[row][col].color === newGrid[row][col + 2].color
-        ) {
-          toRemove.push({row, col}, {row, col: col + 1}, {row, col: col + 2});
-          matchesFound = true;
-        }
-      }
-    }
-
-    // Check vertical matches
-    for (let col = 0; col < GRID_SIZE; col++) {
-      for (let row = 0; row < GRID_SIZE - 2; row++) {
-        if (
-          newGrid[row][col].color === newGrid[row + 1][col].color &&
-          newGrid[row][col].color === newGrid[row + 2][col].color
-        ) {
-          toRemove.push({row, col}, {row: row + 1, col}, {row: row + 2, col});
-          matchesFound = true;
-        }
-      }
-    }
-
-    if (matchesFound) {
-      // Remove matches and add score
-      const uniqueMatches = Array.from(
-        new Set(toRemove.map(t => `${t.row}-${t.col}`))
-      ).map(key => {
-        const [row, col] = key.split('-').map(Number);
-        return {row, col};
-      });
-
-      const points = uniqueMatches.length * level.coinValue;
-      setScore(prev => {
-        const newScore = prev + points;
-        onScoreChange(newScore);
-        return newScore;
-      });
-
-      // Replace matched tiles
-      uniqueMatches.forEach(({row, col}) => {
-        newGrid[row][col] = {
-          color: COLORS[Math.floor(Math.random() * COLORS.length)],
-          id: `${row}-${col}-${Date.now()}`
-        };
+  const { runtimeProps, snapshot, pressButton, getSimulation } = useEngineLifecycle(
+    rng => new PuzzleSimulation(level, rng),
+    props,
+    ref
+  );
+  const { paused } = runtimeProps;
+  const { grid, selectedTile, score, moves, swap, combo, hint, fall, shuffle } = snapshot;
+  const tileSize = (SCREEN_WIDTH - 40) / grid.length;
+
+  // Swipes and drags are hit-tested against the grid's position on screen
+  const gridRef = useRef<View>(null);
+  const measureGrid = useCallback(() => {
+    gridRef.current?.measure((_x, _y, _width, _height, pageX, pageY) => {
+      getSimulation().setLayout({
+        x: pageX + GRID_PADDING,
+        y: pageY + GRID_PADDING,
+        cellSize: tileSize
       });
-
-      setGrid(newGrid);
+    });
+  }, [getSimulation, tileSize]);
+
+  // A reset starts a new simulation, which needs the layout again
+  useEffect(() => measureGrid(), [measureGrid, runtimeProps.session]);
+
+  const isHinted = (row: number, col: number) =>
+    !!hint && [hint.from, hint.to].some(cell => cell.row === row && cell.col === col);
+
+  // Swapped tiles slide from each other's cell, falling tiles drop from the
+  // cell above their gap, and while reshuffling each tile slides from its old
+  // cell to its new one
+  const tileOffset = (tile: Tile, row: number, col: number) => {
+    const isAt = (cell: { row: number; col: number }) => cell.row === row && cell.col === col;
+    const swappedFrom = swap && (isAt(swap.from) ? swap.to : isAt(swap.to) ? swap.from : null);
+    if (swap && swappedFrom) {
+      const remaining = (1 - Easing.easeInOut(swap.progress)) * tileSize;
+      return [
+        { translateX: (swappedFrom.col - col) * remaining },
+        { translateY: (swappedFrom.row - row) * remaining }
+      ];
+    }
+    const rows = fall?.rows[tile.id];
+    if (fall && rows) {
+      return [{ translateY: -rows * tileSize * (1 - Easing.easeIn(fall.progress)) }];
     }
+    const from = shuffle?.from[tile.id];
+    if (!shuffle || !from) return [];
+    const remaining = (1 - Easing.easeInOut(shuffle.progress)) * tileSize;
+    return [
+      { translateX: (from.col - col) * remaining },
+      { translateY: (from.row - row) * remaining }
+    ];
   };
 
   return (
-    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+    <GameRuntime
+      {...runtimeProps}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
       {/* Score Display */}
       <View style={styles.header}>
         <View style={styles.statItem}>
@@ -181,29 +113,42 @@ export const PuzzleEngine: React.FC<GameEngineProps> = ({
         </View>
       </View>
 
+      {/* Cascade combo */}
+      <Text style={[styles.combo, { color: theme.colors.text, opacity: fall && combo > 0 ? 1 : 0 }]}>
+        Combo x{(PUZZLE_CONFIG.levelParameters.comboMultiplier ** combo).toFixed(1)}
+      </Text>
+
       {/* Grid */}
-      <View style={styles.gridContainer}>
+      <View ref={gridRef} style={styles.gridContainer} onLayout={measureGrid}>
         {grid.map((row, rowIndex) => (
           <View key={rowIndex} style={styles.row}>
             {row.map((tile, colIndex) => {
               const isSelected =
                 selectedTile?.row === rowIndex && selectedTile?.col === colIndex;
-              
+
               return (
                 <TouchableOpacity
                   key={tile.id}
                   style={[
                     styles.tile,
                     {
-                      width: TILE_SIZE - 4,
-                      height: TILE_SIZE - 4,
-                      backgroundColor: tile.color
+                      width: tileSize - TILE_MARGIN * 2,
+                      height: tileSize - TILE_MARGIN * 2,
+                      backgroundColor: tile.special === 'colorBomb' ? '#3d3d3d' : tile.color,
+                      transform: tileOffset(tile, rowIndex, colIndex)
                     },
+                    isHinted(rowIndex, colIndex) && styles.tileHint,
                     isSelected && styles.tileSelected
                   ]}
-                  onPress={() => handleTilePress(rowIndex, colIndex)}
-                  disabled={isPaused}
-                />
+                  onPress={() => pressButton(tileButtonId(rowIndex, colIndex))}
+                  disabled={paused || !!shuffle}
+                >
+                  {tile.special && (
+                    <Text style={[styles.special, { fontSize: tileSize / 2 }]}>
+                      {SPECIAL_GLYPHS[tile.special]}
+                    </Text>
+                  )}
+                </TouchableOpacity>
               );
             })}
           </View>
@@ -212,15 +157,16 @@ export const PuzzleEngine: React.FC<GameEngineProps> = ({
 
       {/* Instructions */}
       <Text style={[styles.instructions, { color: theme.colors.textSecondary }]}>
-        Tap two adjacent tiles to swap them. Match 3 or more of the same color!
+        {shuffle
+          ? 'No moves left. Shuffling...'
+          : 'Swipe a tile (or tap two neighbours) to swap them. Match 3 or more of the same color; match 4 or 5 for special tiles!'}
       </Text>
-    </View>
+    </GameRuntime>
   );
-};
+});
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
     padding: 20
   },
   header: {
@@ -242,18 +188,35 @@ const styles = StyleSheet.create({
   gridContainer: {
     alignSelf: 'center',
     backgroundColor: 'rgba(0,0,0,0.1)',
-    padding: 5,
-    borderRadius: 10
+    padding: GRID_PADDING,
+    borderRadius: 10,
+    overflow: 'hidden'
   },
   row: {
     flexDirection: 'row'
   },
+  combo: {
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10
+  },
   tile: {
-    margin: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    margin: TILE_MARGIN,
     borderRadius: 8,
     borderWidth: 1,
     borderColor: 'rgba(0,0,0,0.1)'
   },
+  special: {
+    color: '#ffffff',
+    fontWeight: 'bold'
+  },
+  tileHint: {
+    borderWidth: 3,
+    borderColor: '#ffffff'
+  },
   tileSelected: {
     borderWidth: 3,
     borderColor: '#2c3e50'
@@ -0,0 +1,233 @@
+/**
+ * Puzzle Boards
+ * Match detection, move finding and solvable board generation for match-3
+ *
+ * Boards are square grids of anything with a color. A board is "stable" when
+ * it has no run of three, and "solvable" when at least one swap of
+ * neighbouring tiles would make one.
+ */
+
+import { SeededRandom } from '../../runtime/random';
+
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+export interface Move {
+  from: GridPosition;
+  to: GridPosition;
+}
+
+/**
+ * Tiles made by big matches: a line clear empties its row or column, a bomb
+ * the 3x3 around it, and a color bomb every tile of one color
+ */
+export type Special = 'row' | 'column' | 'bomb' | 'colorBomb';
+
+export interface Colored {
+  color: string;
+  special?: Special;
+}
+
+// Color bombs match nothing by color; they go off when swapped
+export function isColorBomb(tile: Colored | null | undefined): boolean {
+  return tile?.special === 'colorBomb';
+}
+
+/**
+ * Where a board is drawn on screen: the top-left corner of the first cell and
+ * the distance from one cell to the next, in touch (page) coordinates
+ */
+export interface BoardLayout {
+  x: number;
+  y: number;
+  cellSize: number;
+}
+
+// Give up on a layout after this many restarts (never reached in practice)
+const MAX_ATTEMPTS = 1000;
+
+/**
+ * Whether the tile at a position completes a run of three through it
+ */
+export function isMatchAt<T extends Colored>(grid: (T | null)[][], row: number, col: number): boolean {
+  const tile = grid[row]?.[col];
+  if (!tile || isColorBomb(tile)) return false;
+
+  const same = (r: number, c: number) => {
+    const other = grid[r]?.[c];
+    return !!other && other.color === tile.color && !isColorBomb(other);
+  };
+  const run = (dr: number, dc: number) => {
+    let length = 1;
+    for (let r = row + dr, c = col + dc; same(r, c); r += dr, c += dc) length++;
+    for (let r = row - dr, c = col - dc; same(r, c); r -= dr, c -= dc) length++;
+    return length;
+  };
+  return run(0, 1) >= 3 || run(1, 0) >= 3;
+}
+
+/**
+ * Every position that is part of a horizontal or vertical run of three or more
+ */
+export function findMatches<T extends Colored>(grid: T[][]): GridPosition[] {
+  const matches: GridPosition[] = [];
+  grid.forEach((cells, row) => {
+    cells.forEach((_, col) => {
+      if (isMatchAt(grid, row, col)) matches.push({ row, col });
+    });
+  });
+  return matches;
+}
+
+/**
+ * Cell under a screen position, or null when it is off the board
+ */
+export function cellAt(layout: BoardLayout, size: number, x: number, y: number): GridPosition | null {
+  const row = Math.floor((y - layout.y) / layout.cellSize);
+  const col = Math.floor((x - layout.x) / layout.cellSize);
+  return row >= 0 && row < size && col >= 0 && col < size ? { row, col } : null;
+}
+
+export function swapCells<T>(grid: T[][], a: GridPosition, b: GridPosition): void {
+  const temp = grid[a.row][a.col];
+  grid[a.row][a.col] = grid[b.row][b.col];
+  grid[b.row][b.col] = temp;
+}
+
+export function areAdjacent(a: GridPosition, b: GridPosition): boolean {
+  return Math.abs(a.row - b.row) + Math.abs(a.col - b.col) === 1;
+}
+
+/**
+ * Whether swapping two neighbouring tiles would make a match (or set off a
+ * color bomb)
+ */
+export function isValidMove<T extends Colored>(grid: T[][], move: Move): boolean {
+  const { from, to } = move;
+  if (!areAdjacent(from, to) || !grid[to.row]?.[to.col]) return false;
+  if (isColorBomb(grid[from.row][from.col]) || isColorBomb(grid[to.row][to.col])) return true;
+
+  swapCells(grid, from, to);
+  const valid = isMatchAt(grid, from.row, from.col) || isMatchAt(grid, to.row, to.col);
+  swapCells(grid, from, to);
+  return valid;
+}
+
+/**
+ * Every swap that would make a match, scanning rows top to bottom
+ */
+export function findMoves<T extends Colored>(grid: T[][]): Move[] {
+  const moves: Move[] = [];
+  grid.forEach((cells, row) => {
+    cells.forEach((_, col) => {
+      const from = { row, col };
+      for (const to of [{ row, col: col + 1 }, { row: row + 1, col }]) {
+        if (isValidMove(grid, { from, to })) moves.push({ from, to });
+      }
+    });
+  });
+  return moves;
+}
+
+export function hasMove<T extends Colored>(grid: T[][]): boolean {
+  return findMoves(grid).length > 0;
+}
+
+/**
+ * Drop tiles into the empty cells below them, then fill each column from the
+ * top with new tiles. Returns how many rows each tile fell; new tiles count
+ * from just above the board.
+ */
+export function applyGravity<T extends Colored>(grid: (T | null)[][], createTile: () => T): Map<T, number> {
+  const falls = new Map<T, number>();
+  const size = grid.length;
+
+  for (let col = 0; col < (grid[0]?.length ?? 0); col++) {
+    let target = size - 1;
+    for (let row = size - 1; row >= 0; row--) {
+      const tile = grid[row][col];
+      if (!tile) continue;
+      grid[row][col] = null;
+      grid[target][col] = tile;
+      if (target !== row) falls.set(tile, target - row);
+      target--;
+    }
+
+    // Rows 0..target are empty; new tiles drop in from above in order
+    const empty = target + 1;
+    for (let row = target; row >= 0; row--) {
+      const tile = createTile();
+      grid[row][col] = tile;
+      falls.set(tile, empty);
+    }
+  }
+  return falls;
+}
+
+/**
+ * Lay tiles out in a random order so that no runs form, restarting if the
+ * last cells cannot avoid one. Returns null if no layout was found.
+ */
+function layOut<T extends Colored>(tiles: T[], size: number, rng: SeededRandom): T[][] | null {
+  const grid: T[][] = [];
+  const remaining = rng.shuffle([...tiles]);
+
+  for (let row = 0; row < size; row++) {
+    grid.push([]);
+    for (let col = 0; col < size; col++) {
+      const index = remaining.findIndex(tile => {
+        grid[row][col] = tile;
+        return !isMatchAt(grid, row, col);
+      });
+      if (index < 0) return null;
+      grid[row][col] = remaining.splice(index, 1)[0];
+    }
+  }
+  return grid;
+}
+
+/**
+ * A stable, solvable board of new tiles
+ */
+export function generateBoard<T extends Colored>(
+  size: number,
+  colors: string[],
+  createTile: (color: string) => T,
+  rng: SeededRandom
+): T[][] {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const grid: T[][] = [];
+    // Plain colors to try each choice against before the tile is created
+    const placed: Colored[][] = [];
+    for (let row = 0; row < size; row++) {
+      grid.push([]);
+      placed.push([]);
+      for (let col = 0; col < size; col++) {
+        // Only colors that do not complete a run with the tiles already placed
+        const options = colors.filter(color => {
+          placed[row][col] = { color };
+          return !isMatchAt(placed, row, col);
+        });
+        grid[row][col] = createTile(rng.pick(options));
+        placed[row][col] = { color: grid[row][col].color };
+      }
+    }
+    if (hasMove(grid)) return grid;
+  }
+  throw new Error(`Could not generate a solvable ${size}x${size} board`);
+}
+
+/**
+ * The same tiles rearranged into a stable, solvable board, or null if they
+ * cannot be (e.g. too few of any one color to ever match)
+ */
+export function reshuffleBoard<T extends Colored>(grid: T[][], rng: SeededRandom): T[][] | null {
+  const tiles = grid.flat();
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const shuffled = layOut(tiles, grid.length, rng);
+    if (shuffled && hasMove(shuffled)) return shuffled;
+  }
+  return null;
+}
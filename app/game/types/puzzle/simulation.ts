@@ -0,0 +1,398 @@
+/**
+ * Puzzle Simulation
+ * Match-3 board logic, stepped by GameRuntime
+ */
+
+import { Level } from '../../../config/levels';
+import { PuzzleLevelSettings } from '../../../config/levelSchemas';
+import { getLevelSettings } from '../../../config/levelBundles';
+import { GameState, EngineSimulation } from '../../GameEngine';
+import { GameType, PUZZLE_CONFIG } from '../../config/gameTypes';
+import { InputEvent, InputEventType } from '../../runtime/input';
+import { SeededRandom } from '../../runtime/random';
+import {
+  BoardLayout,
+  GridPosition,
+  Move,
+  Special,
+  applyGravity,
+  areAdjacent,
+  cellAt,
+  findMatches,
+  findMoves,
+  generateBoard,
+  isColorBomb,
+  reshuffleBoard,
+  swapCells
+} from './board';
+import { blastArea, clearedCells, findRuns, specialsFromRuns } from './specials';
+
+export type { BoardLayout, GridPosition, Move, Special } from './board';
+
+// Tile palette; a level's tileTypes uses the first N colors
+export const COLORS = ['#e8d5b7', '#b8d4e3', '#d4e8d4', '#f4c2c2', '#e8d4f4'];
+
+// Time two tiles take to trade places (and to trade back when nothing matches)
+export const SWAP_DURATION = 0.3;
+
+// Time for tiles to fall into the gaps left by a match
+export const FALL_DURATION = 0.25;
+
+// Each cascade in a chain multiplies the points again
+const COMBO_MULTIPLIER: number = PUZZLE_CONFIG.levelParameters.comboMultiplier;
+
+// Neighbour each swipe direction swaps with
+const SWIPE_STEPS: Partial<Record<InputEventType, GridPosition>> = {
+  swipe_up: { row: -1, col: 0 },
+  swipe_down: { row: 1, col: 0 },
+  swipe_left: { row: 0, col: -1 },
+  swipe_right: { row: 0, col: 1 }
+};
+
+// Time the tiles take to fly to their places when a deadlocked board reshuffles
+export const SHUFFLE_DURATION = 0.8;
+
+export type Tile = {
+  color: string;
+  id: string;
+  special?: Special;
+};
+
+export interface PuzzleSnapshot {
+  grid: Tile[][];
+  selectedTile: GridPosition | null;
+  score: number;
+  moves: number;
+  swap: {
+    from: GridPosition;
+    to: GridPosition;
+    progress: number;   // 0-1 over SWAP_DURATION
+    returning: boolean; // Nothing matched, so the tiles are trading back
+  } | null;
+  combo: number;     // Cascades so far in the current chain (0 for the swap's own match)
+  hint: Move | null; // Shown once the player has been idle for hintDelay
+  fall: {
+    progress: number;             // 0-1 over FALL_DURATION
+    rows: Record<string, number>; // Tile id -> rows fallen into its cell
+  } | null;
+  shuffle: {
+    progress: number;                   // 0-1 over SHUFFLE_DURATION
+    from: Record<string, GridPosition>; // Tile id -> cell before the reshuffle
+  } | null;
+}
+
+/**
+ * Button id for a grid cell, e.g. "tile:2:3"
+ */
+export function tileButtonId(row: number, col: number): string {
+  return `tile:${row}:${col}`;
+}
+
+export class PuzzleSimulation implements EngineSimulation<PuzzleSnapshot> {
+  revision = 0;
+
+  private level: Level;
+  private settings: PuzzleLevelSettings;
+  private colors: string[];
+  private rng: SeededRandom;
+  private grid: Tile[][] = [];
+  private selectedTile: GridPosition | null = null;
+  private score = 0;
+  private moves: number;
+  private swap: { from: GridPosition; to: GridPosition; timer: number; returning: boolean } | null = null;
+  private layout: BoardLayout | null = null;
+  private dragOrigin: GridPosition | null = null;
+  private fallTimer: number | null = null;
+  private fallRows: Record<string, number> = {};
+  private combo = 0;
+  private idleTime = 0;
+  private hint: Move | null = null;
+  private shuffleTimer: number | null = null;
+  private shuffleFrom: Record<string, GridPosition> = {};
+  private tileIdCounter = 0;
+  private finished: 'won' | 'lost' | null = null;
+
+  constructor(
+    level: Level,
+    rng: SeededRandom,
+    settings: PuzzleLevelSettings = getLevelSettings(GameType.PUZZLE, level.id)
+  ) {
+    this.level = level;
+    this.settings = settings;
+    this.colors = COLORS.slice(0, settings.tileTypes);
+    this.rng = rng;
+    this.moves = settings.moves;
+    this.grid = generateBoard(settings.gridSize, this.colors, color => this.createTile(color), rng);
+  }
+
+  update(deltaTime: number): void {
+    if (this.finished) return;
+
+    if (this.shuffleTimer !== null) {
+      this.shuffleTimer -= deltaTime;
+      if (this.shuffleTimer <= 0) {
+        this.shuffleTimer = null;
+        this.shuffleFrom = {};
+      }
+      this.revision++;
+      return;
+    }
+
+    if (this.swap) {
+      this.swap.timer -= deltaTime;
+      if (this.swap.timer <= 0) {
+        const { from, to, returning } = this.swap;
+        this.swap = null;
+        this.combo = 0;
+        if (!returning && !this.resolve([from, to])) {
+          // No match: trade the tiles back and give the move back
+          swapCells(this.grid, from, to);
+          this.moves++;
+          this.swap = { from, to, timer: SWAP_DURATION, returning: true };
+        }
+      }
+      this.revision++;
+      return;
+    }
+
+    if (this.fallTimer !== null) {
+      this.fallTimer -= deltaTime;
+      if (this.fallTimer <= 0) {
+        this.fallTimer = null;
+        this.fallRows = {};
+        this.combo++;
+        if (!this.resolve([])) this.settle();
+      }
+      this.revision++;
+      return;
+    }
+
+    this.idleTime += deltaTime;
+    if (!this.hint && this.idleTime >= this.settings.hintDelay) {
+      const moves = findMoves(this.grid);
+      if (moves.length > 0) {
+        this.hint = this.rng.pick(moves);
+        this.revision++;
+      }
+    }
+  }
+
+  handleInput(input: InputEvent): void {
+    const { type, position } = input;
+    // Where the touch went down (drag_start and swipes report the distance from it)
+    const start = { x: position.x - (input.deltaX ?? 0), y: position.y - (input.deltaY ?? 0) };
+
+    if (type === 'button_press' && input.buttonId?.startsWith('tile:')) {
+      const [, row, col] = input.buttonId.split(':').map(Number);
+      this.selectTile(row, col);
+    } else if (SWIPE_STEPS[type]) {
+      const from = this.cellAt(start.x, start.y);
+      const step = SWIPE_STEPS[type]!;
+      if (from) this.trySwap(from, { row: from.row + step.row, col: from.col + step.col });
+    } else if (type === 'drag_start') {
+      this.dragOrigin = this.cellAt(start.x, start.y);
+    } else if (type === 'drag_move' || type === 'drag_end') {
+      this.dragTo(position.x, position.y);
+      if (type === 'drag_end') this.dragOrigin = null;
+    }
+  }
+
+  /**
+   * Where the board is on screen, for hit-testing swipes and drags. Until it
+   * is set, only tile presses work.
+   */
+  setLayout(layout: BoardLayout): void {
+    this.layout = layout;
+  }
+
+  getState(): GameState {
+    return {
+      score: this.score,
+      lives: this.moves,
+      timeRemaining: 0,
+      isPaused: false,
+      isGameOver: this.finished !== null,
+      isWin: this.finished === 'won'
+    };
+  }
+
+  getSnapshot(): PuzzleSnapshot {
+    return {
+      grid: this.grid.map(row => [...row]),
+      selectedTile: this.selectedTile,
+      score: this.score,
+      moves: this.moves,
+      swap: this.swap && {
+        from: this.swap.from,
+        to: this.swap.to,
+        progress: Math.min(1, 1 - this.swap.timer / SWAP_DURATION),
+        returning: this.swap.returning
+      },
+      combo: this.combo,
+      hint: this.hint,
+      fall: this.fallTimer === null ? null : {
+        progress: Math.min(1, 1 - this.fallTimer / FALL_DURATION),
+        rows: this.fallRows
+      },
+      shuffle: this.shuffleTimer === null ? null : {
+        progress: Math.min(1, 1 - this.shuffleTimer / SHUFFLE_DURATION),
+        from: this.shuffleFrom
+      }
+    };
+  }
+
+  private createTile(color: string, special?: Special): Tile {
+    const tile: Tile = { color, id: `tile-${this.tileIdCounter++}` };
+    if (special) tile.special = special;
+    return tile;
+  }
+
+  private randomTile(): Tile {
+    return this.createTile(this.rng.pick(this.colors));
+  }
+
+  private cellAt(x: number, y: number): GridPosition | null {
+    return this.layout && cellAt(this.layout, this.grid.length, x, y);
+  }
+
+  /**
+   * Tap-tap fallback: the first tap selects, a tap on a neighbour swaps
+   */
+  private selectTile(row: number, col: number): void {
+    if (this.isBusy()) return;
+
+    this.idleTime = 0;
+    this.hint = null;
+
+    const selected = this.selectedTile;
+    this.selectedTile = null;
+    if (!selected) {
+      this.selectedTile = { row, col };
+    } else if (areAdjacent(selected, { row, col })) {
+      this.trySwap(selected, { row, col });
+    }
+    this.revision++;
+  }
+
+  /**
+   * Swap once the drag crosses into a neighbouring cell
+   */
+  private dragTo(x: number, y: number): void {
+    const origin = this.dragOrigin;
+    if (!origin || !this.layout) return;
+
+    const { cellSize } = this.layout;
+    const dx = x - (this.layout.x + (origin.col + 0.5) * cellSize);
+    const dy = y - (this.layout.y + (origin.row + 0.5) * cellSize);
+    if (Math.max(Math.abs(dx), Math.abs(dy)) < cellSize / 2) return;
+
+    this.dragOrigin = null;
+    const target = Math.abs(dx) > Math.abs(dy)
+      ? { row: origin.row, col: origin.col + Math.sign(dx) }
+      : { row: origin.row + Math.sign(dy), col: origin.col };
+    this.trySwap(origin, target);
+  }
+
+  private trySwap(from: GridPosition, to: GridPosition): void {
+    const size = this.grid.length;
+    if (this.isBusy() || !areAdjacent(from, to) || to.row < 0 || to.row >= size || to.col < 0 || to.col >= size) {
+      return;
+    }
+
+    swapCells(this.grid, from, to);
+    this.moves--;
+    this.swap = { from, to, timer: SWAP_DURATION, returning: false };
+    this.selectedTile = null;
+    this.idleTime = 0;
+    this.hint = null;
+    this.revision++;
+  }
+
+  private isBusy(): boolean {
+    return this.finished !== null ||
+      this.swap !== null ||
+      this.fallTimer !== null ||
+      this.shuffleTimer !== null;
+  }
+
+  /**
+   * Clear the board's matches (and whatever their specials take with them),
+   * then let the tiles fall. Returns false when nothing cleared.
+   */
+  private resolve(swapped: GridPosition[]): boolean {
+    const grid = this.grid;
+    const runs = findRuns(grid);
+    const start = runs.flatMap(run => run.cells);
+
+    // A swapped color bomb takes the color it was swapped with
+    const bombs = swapped.filter(({ row, col }) => isColorBomb(grid[row][col]));
+    bombs.forEach(at => {
+      const partner = swapped.find(cell => cell !== at)!;
+      const tile = grid[partner.row][partner.col];
+      start.push(...blastArea(grid, at, 'colorBomb', isColorBomb(tile) ? null : tile.color));
+    });
+
+    if (start.length === 0) return false;
+
+    const spawns = specialsFromRuns(grid, runs, swapped);
+    const cleared = clearedCells(grid, start, bombs);
+    this.score += Math.round(cleared.length * this.level.coinValue * COMBO_MULTIPLIER ** this.combo);
+
+    const cells: (Tile | null)[][] = grid;
+    cleared.forEach(({ row, col }) => {
+      cells[row][col] = null;
+    });
+    spawns.forEach(({ at, special, color }) => {
+      cells[at.row][at.col] = this.createTile(color, special);
+    });
+
+    const falls = applyGravity(cells, () => this.randomTile());
+    this.fallRows = {};
+    falls.forEach((rows, tile) => {
+      this.fallRows[tile.id] = rows;
+    });
+    this.fallTimer = FALL_DURATION;
+    this.revision++;
+    return true;
+  }
+
+  /**
+   * The chain is over: check for a win or loss, then for a deadlock
+   */
+  private settle(): void {
+    this.checkOutcome();
+    if (!this.finished) this.checkDeadlock();
+  }
+
+  /**
+   * Reshuffle the tiles when no swap can make a match, recording where each
+   * came from so the engine can animate them into place
+   */
+  private checkDeadlock(): void {
+    if (findMatches(this.grid).length > 0 || findMoves(this.grid).length > 0) return;
+
+    const from: Record<string, GridPosition> = {};
+    this.grid.forEach((cells, row) => cells.forEach((tile, col) => {
+      from[tile.id] = { row, col };
+    }));
+
+    // A board with too few of every color to ever match gets new tiles instead
+    this.grid = reshuffleBoard(this.grid, this.rng) ??
+      generateBoard(this.settings.gridSize, this.colors, color => this.createTile(color), this.rng);
+    this.shuffleFrom = from;
+    this.shuffleTimer = SHUFFLE_DURATION;
+    this.selectedTile = null;
+    this.revision++;
+  }
+
+  private checkOutcome(): void {
+    if (this.score >= this.level.targetScore) {
+      this.finished = 'won';
+    } else if (this.moves === 0) {
+      this.finished = 'lost';
+    } else {
+      return;
+    }
+    this.revision++;
+  }
+}
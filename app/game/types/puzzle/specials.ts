@@ -0,0 +1,164 @@
+/**
+ * Puzzle Special Tiles
+ * Which matches make special tiles, and what clearing them takes with them
+ *
+ * Five in a line makes a color bomb, two runs crossing (an L or T) make a
+ * bomb, and four in a line makes a line clear along the run. Line clears and
+ * bombs go off when they are cleared, so one blast can set off the next; a
+ * color bomb goes off when swapped, taking every tile of the color it was
+ * swapped with.
+ */
+
+import { Colored, GridPosition, Special, isColorBomb } from './board';
+
+export interface Run {
+  cells: GridPosition[];
+  direction: 'row' | 'column';
+}
+
+export interface SpecialSpawn {
+  at: GridPosition;
+  special: Special;
+  color: string;
+}
+
+const key = ({ row, col }: GridPosition) => `${row}:${col}`;
+
+/**
+ * Every maximal run of three or more, rows first
+ */
+export function findRuns<T extends Colored>(grid: T[][]): Run[] {
+  const runs: Run[] = [];
+  const size = grid.length;
+  const scan = (direction: Run['direction']) => {
+    for (let line = 0; line < size; line++) {
+      let cells: GridPosition[] = [];
+      for (let index = 0; index <= size; index++) {
+        const at = direction === 'row' ? { row: line, col: index } : { row: index, col: line };
+        const tile = grid[at.row]?.[at.col];
+        const previous = cells.length > 0 ? grid[cells[0].row][cells[0].col] : null;
+        if (tile && previous && !isColorBomb(tile) && tile.color === previous.color) {
+          cells.push(at);
+          continue;
+        }
+        if (cells.length >= 3) runs.push({ cells, direction });
+        cells = tile && !isColorBomb(tile) ? [at] : [];
+      }
+    }
+  };
+  scan('row');
+  scan('column');
+  return runs;
+}
+
+/**
+ * Specials made by a set of runs. Each goes on a swapped cell if the match
+ * includes one, otherwise where crossing runs meet or in the middle of the run.
+ */
+export function specialsFromRuns<T extends Colored>(
+  grid: T[][],
+  runs: Run[],
+  swapped: GridPosition[] = []
+): SpecialSpawn[] {
+  // Group runs that share a cell
+  const groups: Run[][] = [];
+  runs.forEach(run => {
+    const cells = new Set(run.cells.map(key));
+    const touching = groups.filter(group =>
+      group.some(other => other.cells.some(cell => cells.has(key(cell))))
+    );
+    const merged = [run, ...touching.flat()];
+    touching.forEach(group => groups.splice(groups.indexOf(group), 1));
+    groups.push(merged);
+  });
+
+  const spawns: SpecialSpawn[] = [];
+  groups.forEach(group => {
+    const longest = group.reduce((a, b) => (b.cells.length > a.cells.length ? b : a));
+    const cells = group.flatMap(run => run.cells);
+    const counts = new Map<string, number>();
+    cells.forEach(cell => counts.set(key(cell), (counts.get(key(cell)) ?? 0) + 1));
+
+    let special: Special | null = null;
+    if (longest.cells.length >= 5) special = 'colorBomb';
+    else if (group.length > 1) special = 'bomb';
+    else if (longest.cells.length === 4) special = longest.direction;
+    if (!special) return;
+
+    const at =
+      swapped.find(cell => counts.has(key(cell))) ??
+      cells.find(cell => counts.get(key(cell))! > 1) ??
+      longest.cells[Math.floor(longest.cells.length / 2)];
+    spawns.push({ at, special, color: grid[at.row][at.col].color });
+  });
+  return spawns;
+}
+
+/**
+ * Most common color among ordinary tiles, for a color bomb caught in a blast
+ */
+function commonestColor<T extends Colored>(grid: T[][]): string | undefined {
+  const counts = new Map<string, number>();
+  grid.flat().forEach(tile => {
+    if (!isColorBomb(tile)) counts.set(tile.color, (counts.get(tile.color) ?? 0) + 1);
+  });
+  let best: string | undefined;
+  counts.forEach((count, color) => {
+    if (best === undefined || count > counts.get(best)!) best = color;
+  });
+  return best;
+}
+
+/**
+ * Cells a special clears when it goes off. A color bomb takes the given
+ * color; without one it takes the most common color, and when swapped with
+ * another color bomb (target null) it takes the whole board.
+ */
+export function blastArea<T extends Colored>(
+  grid: T[][],
+  at: GridPosition,
+  special: Special,
+  target?: string | null
+): GridPosition[] {
+  const cells: GridPosition[] = [];
+  const color = special === 'colorBomb' && target !== null ? target ?? commonestColor(grid) : undefined;
+  grid.forEach((tiles, row) => tiles.forEach((tile, col) => {
+    const hit =
+      special === 'row' ? row === at.row :
+      special === 'column' ? col === at.col :
+      special === 'bomb' ? Math.abs(row - at.row) <= 1 && Math.abs(col - at.col) <= 1 :
+      target === null || (tile.color === color && !isColorBomb(tile));
+    if (hit) cells.push({ row, col });
+  }));
+  if (special === 'colorBomb' && !cells.some(cell => cell.row === at.row && cell.col === at.col)) {
+    cells.push(at);
+  }
+  return cells;
+}
+
+/**
+ * Cells cleared by clearing `start`, following every special that goes off
+ * along the way. Cells in `skip` (already blasted) don't go off again.
+ */
+export function clearedCells<T extends Colored>(
+  grid: T[][],
+  start: GridPosition[],
+  skip: GridPosition[] = []
+): GridPosition[] {
+  const cleared = new Map<string, GridPosition>();
+  const spent = new Set(skip.map(key));
+  const queue = [...start];
+
+  while (queue.length > 0) {
+    const cell = queue.shift()!;
+    if (cleared.has(key(cell))) continue;
+    cleared.set(key(cell), cell);
+
+    const { special } = grid[cell.row][cell.col];
+    if (special && !spent.has(key(cell))) {
+      spent.add(key(cell));
+      queue.push(...blastArea(grid, cell, special));
+    }
+  }
+  return [...cleared.values()];
+}
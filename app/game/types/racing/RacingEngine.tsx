@@ -0,0 +1,183 @@
+/**
+ * Racing Game Engine
+ * Top-down space racer: steer between asteroids, collect coins, boost to the finish
+ */
+
+import React, { forwardRef, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Dimensions,
+  PanResponder
+} from 'react-native';
+import { GameEngineProps, IGameEngine } from '../../GameEngine';
+import { RACING_CONFIG } from '../../config/gameTypes';
+import { GameRuntime } from '../../runtime/GameRuntime';
+import { useEngineLifecycle } from '../../useEngineLifecycle';
+import { RacingSimulation } from './simulation';
+
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+
+export const RacingEngine = forwardRef<IGameEngine, GameEngineProps>(function RacingEngine(props, ref) {
+  const { level, ghost, onGhostRecorded } = props;
+  const theme = RACING_CONFIG.theme;
+
+  // Hand the finished run's trace to the host before reporting the win
+  const engineProps = {
+    ...props,
+    onWin: () => {
+      const run = getSimulation().getGhostRun();
+      if (run && onGhostRecorded) {
+        onGhostRecorded(run);
+      }
+      props.onWin();
+    }
+  };
+
+  const { runtimeProps, snapshot, pressButton, releaseButton, getSimulation } = useEngineLifecycle(
+    rng => new RacingSimulation(level, SCREEN_WIDTH, SCREEN_HEIGHT, rng, ghost),
+    engineProps,
+    ref
+  );
+  const { score, lives, coins, distance, targetDistance, boosting, steering, ghostGap } = snapshot;
+
+  // Hold-to-steer touch zones
+  const createSteerResponder = (side: 'left' | 'right') =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onPanResponderGrant: () => pressButton(side),
+      onPanResponderRelease: () => releaseButton(side),
+      onPanResponderTerminate: () => releaseButton(side)
+    });
+  const leftPanResponder = useRef(createSteerResponder('left')).current;
+  const rightPanResponder = useRef(createSteerResponder('right')).current;
+
+  return (
+    <GameRuntime
+      {...runtimeProps}
+      style={{ backgroundColor: theme.colors.background }}
+    >
+      {/* HUD (stars, ship and objects are drawn by the runtime) */}
+      <View style={styles.hud}>
+        <Text style={[styles.hudText, styles.hudTitle, { color: theme.colors.text }]}>
+          Level {level.id}: {level.name}
+        </Text>
+        <View style={styles.hudStats}>
+          <Text style={[styles.hudText, { color: theme.colors.text }]}>Lives: {lives}</Text>
+          <Text style={[styles.hudText, { color: theme.colors.text }]}>Score: {score}</Text>
+          <Text style={[styles.hudText, { color: theme.colors.accent }]}>Coins: {coins}</Text>
+          <Text style={[styles.hudText, { color: theme.colors.text }]}>
+            Distance: {distance}m / {targetDistance}m
+          </Text>
+        </View>
+        {ghostGap !== null && (
+          <Text
+            style={[
+              styles.hudText,
+              styles.ghostGap,
+              { color: ghostGap >= 0 ? theme.colors.secondary : '#FF4444' }
+            ]}
+          >
+            {ghostGap >= 0 ? `+${ghostGap}m ahead of best` : `${ghostGap}m behind best`}
+          </Text>
+        )}
+      </View>
+
+      {/* Controls */}
+      <View style={styles.controls}>
+        <View
+          style={[styles.controlButton, styles.leftControl, steering.left && styles.controlPressed]}
+          {...leftPanResponder.panHandlers}
+        >
+          <Text style={[styles.controlText, { color: theme.colors.text }]}>◀</Text>
+        </View>
+        <View
+          style={[styles.controlButton, styles.rightControl, steering.right && styles.controlPressed]}
+          {...rightPanResponder.panHandlers}
+        >
+          <Text style={[styles.controlText, { color: theme.colors.text }]}>▶</Text>
+        </View>
+      </View>
+
+      {/* Boost indicator */}
+      {boosting && (
+        <View style={styles.boostIndicator}>
+          <Text style={[styles.boostText, { color: theme.colors.secondary }]}>BOOST!</Text>
+        </View>
+      )}
+    </GameRuntime>
+  );
+});
+
+const styles = StyleSheet.create({
+  hud: {
+    position: 'absolute',
+    top: 40,
+    left: 0,
+    right: 0,
+    paddingHorizontal: 20
+  },
+  hudTitle: {
+    marginBottom: 10,
+    marginRight: 50
+  },
+  hudStats: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    flexWrap: 'wrap'
+  },
+  ghostGap: {
+    marginTop: 6
+  },
+  hudText: {
+    fontSize: 14,
+    fontWeight: 'bold',
+    textShadowColor: '#000000',
+    textShadowOffset: { width: 1, height: 1 },
+    textShadowRadius: 2
+  },
+  controls: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    height: 120
+  },
+  controlButton: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    margin: 10,
+    borderRadius: 10
+  },
+  leftControl: {
+    marginRight: 5
+  },
+  rightControl: {
+    marginLeft: 5
+  },
+  controlPressed: {
+    backgroundColor: 'rgba(255, 255, 255, 0.3)'
+  },
+  controlText: {
+    fontSize: 32,
+    fontWeight: 'bold'
+  },
+  boostIndicator: {
+    position: 'absolute',
+    top: '50%',
+    left: 0,
+    right: 0,
+    alignItems: 'center'
+  },
+  boostText: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    textShadowColor: '#000000',
+    textShadowOffset: { width: 2, height: 2 },
+    textShadowRadius: 4
+  }
+});
@@ -0,0 +1,155 @@
+/**
+ * Racing Ghosts
+ * Sampled trace of a completed run, raced against on later attempts
+ *
+ * Runs are kept in saved game state, so a ghost samples every few steps (and
+ * the last one) rather than every step, and is interpolated in between.
+ */
+
+// Steps between samples (15 per second at 120Hz)
+export const GHOST_SAMPLE_INTERVAL = 8;
+
+// Levels whose best run is kept in saved game state
+export const MAX_STORED_GHOSTS = 5;
+
+export interface GhostRun {
+  ticks: number;      // Steps taken to reach the finish
+  score: number;
+  interval: number;   // Steps between samples; the last sample is the last step
+  x: number[];        // Ship x per sample (rounded px)
+  distance: number[]; // Distance per sample (whole meters)
+  boost: number[];    // 1 while boosting, else 0
+}
+
+export interface GhostSample {
+  x: number;
+  distance: number;
+  boosting: boolean;
+}
+
+export interface StoredGhost {
+  levelId: number;
+  run: GhostRun;
+}
+
+/**
+ * Samples a run every `interval` steps, keeping the latest step so the run
+ * ends exactly where it finished
+ */
+export class GhostRecorder {
+  private interval: number;
+  private ticks = 0;
+  private x: number[] = [];
+  private distance: number[] = [];
+  private boost: number[] = [];
+  private latest: GhostSample | null = null;
+
+  constructor(interval: number = GHOST_SAMPLE_INTERVAL) {
+    this.interval = interval;
+  }
+
+  push(x: number, distance: number, boosting: boolean): void {
+    const sample = { x: Math.round(x), distance: Math.floor(distance), boosting };
+    if (this.ticks % this.interval === 0) {
+      this.x.push(sample.x);
+      this.distance.push(sample.distance);
+      this.boost.push(boosting ? 1 : 0);
+      this.latest = null;
+    } else {
+      this.latest = sample;
+    }
+    this.ticks++;
+  }
+
+  finish(score: number): GhostRun {
+    const run: GhostRun = {
+      ticks: this.ticks,
+      score,
+      interval: this.interval,
+      x: [...this.x],
+      distance: [...this.distance],
+      boost: [...this.boost]
+    };
+    if (this.latest) {
+      run.x.push(this.latest.x);
+      run.distance.push(this.latest.distance);
+      run.boost.push(this.latest.boosting ? 1 : 0);
+    }
+    return run;
+  }
+}
+
+/**
+ * Number of samples in a run of `ticks` steps
+ */
+function sampleCount(ticks: number, interval: number): number {
+  return ticks === 0 ? 0 : Math.ceil((ticks - 1) / interval) + 1;
+}
+
+/**
+ * Ghost position at a step, between the samples either side of it; a ghost
+ * that already finished waits at the line
+ */
+export function ghostSampleAt(ghost: GhostRun, tick: number): GhostSample | null {
+  if (ghost.ticks === 0) return null;
+  const clamped = Math.max(0, Math.min(tick, ghost.ticks - 1));
+  const index = Math.floor(clamped / ghost.interval);
+  const from = index * ghost.interval;
+  const to = Math.min(from + ghost.interval, ghost.ticks - 1);
+  const t = to > from ? (clamped - from) / (to - from) : 0;
+  const next = Math.min(index + 1, ghost.x.length - 1);
+
+  return {
+    x: ghost.x[index] + (ghost.x[next] - ghost.x[index]) * t,
+    distance: Math.round(ghost.distance[index] + (ghost.distance[next] - ghost.distance[index]) * t),
+    boosting: ghost.boost[index] === 1
+  };
+}
+
+/**
+ * Faster finishes win; equal times fall back to score
+ */
+export function isBetterGhost(candidate: GhostRun, current?: GhostRun | null): boolean {
+  if (!current) return true;
+  if (candidate.ticks !== current.ticks) return candidate.ticks < current.ticks;
+  return candidate.score > current.score;
+}
+
+/**
+ * Shape check for ghosts loaded from storage
+ */
+export function isGhostRun(value: unknown): value is GhostRun {
+  const ghost = value as GhostRun;
+  return (
+    !!ghost &&
+    typeof ghost.ticks === 'number' &&
+    typeof ghost.score === 'number' &&
+    Number.isInteger(ghost.interval) &&
+    ghost.interval > 0 &&
+    [ghost.x, ghost.distance, ghost.boost].every(
+      samples => Array.isArray(samples) && samples.length === sampleCount(ghost.ticks, ghost.interval)
+    )
+  );
+}
+
+/**
+ * Best run stored for a level, if there is a valid one
+ */
+export function storedGhostFor(stored: StoredGhost[] | undefined, levelId: number): GhostRun | null {
+  const run = Array.isArray(stored) ? stored.find(entry => entry.levelId === levelId)?.run : undefined;
+  return isGhostRun(run) ? run : null;
+}
+
+/**
+ * Store a level's new best run, most recent last, dropping the oldest levels
+ * beyond `limit`
+ */
+export function storeGhost(
+  stored: StoredGhost[] | undefined,
+  levelId: number,
+  run: GhostRun,
+  limit: number = MAX_STORED_GHOSTS
+): StoredGhost[] {
+  const others = (Array.isArray(stored) ? stored : []).filter(entry => entry.levelId !== levelId);
+  return [...others, { levelId, run }].slice(-limit);
+}
@@ -0,0 +1,473 @@
+/**
+ * Racing Simulation
+ * Space racer logic, stepped by GameRuntime
+ */
+
+import { Level } from '../../../config/levels';
+import { RacingLevelSettings } from '../../../config/levelSchemas';
+import { getLevelSettings } from '../../../config/levelBundles';
+import { GameState, EngineSimulation } from '../../GameEngine';
+import { GameType, RACING_CONFIG } from '../../config/gameTypes';
+import { InputEvent } from '../../runtime/input';
+import {
+  RenderQueue,
+  RenderLayer,
+  createRect,
+  createCircle
+} from '../../runtime/rendering';
+import {
+  AABB,
+  SpatialHash,
+  Vector2D,
+  checkAABBCollision,
+  checkShapeCollision,
+  lerp,
+  rotatedAABB,
+  sweepAABB,
+  toRadians
+} from '../../runtime/physics2d';
+import { SeededRandom } from '../../runtime/random';
+import { GhostRun, GhostRecorder, ghostSampleAt } from './ghost';
+import { GeneratedTrack, TrackOptions, extendTrack, generateTrack } from './track';
+
+export const SHIP_WIDTH = 50;
+export const SHIP_HEIGHT = 60;
+export const ASTEROID_SIZE = 60;
+export const COIN_SIZE = 30;
+export const COIN_POINTS = 50;
+const STAR_COUNT = 20;
+
+// Racing config speeds are tuned in pixels per 60 Hz frame
+const REFERENCE_FPS = 60;
+const BOOST_ACCELERATION = 0.3;
+const BRAKE_DECELERATION = 0.2;
+const STEER_ROTATION = 15; // Degrees
+const GHOST_OPACITY = 0.35;
+const BROADPHASE_CELL_SIZE = ASTEROID_SIZE * 2;
+const TRACK_LANE_WIDTH = ASTEROID_SIZE + 20; // Room to slip the ship between neighbouring asteroids
+
+export interface RacingObject extends AABB {
+  id: string;
+  prevY: number;
+  type: 'asteroid' | 'coin';
+}
+
+export interface RacingShip extends AABB {
+  prevX: number;
+  speed: number;    // Boost speed on top of the level's base speed
+  rotation: number; // Degrees
+}
+
+export interface RacingSnapshot {
+  score: number;
+  lives: number;
+  coins: number;
+  distance: number;
+  targetDistance: number;
+  boosting: boolean;
+  steering: { left: boolean; right: boolean };
+  ghostGap: number | null; // Meters ahead (+) or behind (-) the ghost
+}
+
+function objectSize(type: RacingObject['type']): number {
+  return type === 'asteroid' ? ASTEROID_SIZE : COIN_SIZE;
+}
+
+export class RacingSimulation implements EngineSimulation<RacingSnapshot> {
+  revision = 0;
+
+  private level: Level;
+  private settings: RacingLevelSettings;
+  private screenWidth: number;
+  private screenHeight: number;
+  private rng: SeededRandom;
+  private ship: RacingShip;
+  private objects: RacingObject[] = [];
+  private broadphase = new SpatialHash<RacingObject>(BROADPHASE_CELL_SIZE);
+  private stars: { x: number; y: number; opacity: number }[];
+  private controls = { left: false, right: false };
+  private boosting = false;
+  private travelled = 0; // Distance; 1 per reference frame at base speed
+  private tick = 0;
+  private ghost: GhostRun | null;
+  private trace = new GhostRecorder();
+  private coins = 0;
+  private lives: number;
+  private spawnTimer = 0;
+  private track: string[] | null; // Authored layout, repeated once it runs out
+  private generated: { track: GeneratedTrack; options: TrackOptions } | null = null;
+  private trackRow = 0;
+  private objectIdCounter = 0;
+  private finished: 'won' | 'lost' | null = null;
+
+  constructor(
+    level: Level,
+    screenWidth: number,
+    screenHeight: number,
+    rng: SeededRandom,
+    ghost: GhostRun | null = null,
+    settings: RacingLevelSettings = getLevelSettings(GameType.RACING, level.id)
+  ) {
+    this.level = level;
+    this.settings = settings;
+    this.ghost = ghost;
+    this.screenWidth = screenWidth;
+    this.screenHeight = screenHeight;
+    this.rng = rng;
+    this.lives = RACING_CONFIG.levelParameters.startingLives;
+    this.ship = {
+      x: screenWidth / 2 - SHIP_WIDTH / 2,
+      prevX: screenWidth / 2 - SHIP_WIDTH / 2,
+      y: screenHeight - 150,
+      width: SHIP_WIDTH,
+      height: SHIP_HEIGHT,
+      speed: 0,
+      rotation: 0
+    };
+    this.stars = Array.from({ length: STAR_COUNT }, () => ({
+      x: rng.range(0, screenWidth),
+      y: rng.range(0, screenHeight),
+      opacity: rng.range(0.2, 1)
+    }));
+    this.track = settings.track ?? null;
+    if (!this.track && settings.trackBudget !== undefined) {
+      this.generated = this.generateTrack(settings.trackBudget);
+    }
+  }
+
+  get baseSpeed(): number {
+    return this.settings.baseSpeed;
+  }
+
+  get targetDistance(): number {
+    return this.settings.distance;
+  }
+
+  get distance(): number {
+    return Math.floor(this.travelled);
+  }
+
+  get ghostGap(): number | null {
+    const sample = this.ghost && ghostSampleAt(this.ghost, this.tick - 1);
+    return sample ? this.distance - sample.distance : null;
+  }
+
+  get score(): number {
+    return this.distance + this.coins * COIN_POINTS;
+  }
+
+  update(deltaTime: number): void {
+    if (this.finished) return;
+
+    const params = RACING_CONFIG.levelParameters;
+    const frameScale = deltaTime * REFERENCE_FPS;
+    const { left, right } = this.controls;
+    const ship = this.ship;
+    const previous = { distance: this.distance, boosting: this.boosting, ghostGap: this.ghostGap };
+
+    ship.prevX = ship.x;
+    this.boosting = left && right;
+
+    if (this.boosting) {
+      ship.speed = Math.min(ship.speed + BOOST_ACCELERATION * frameScale, params.maxBoostSpeed);
+    } else if (left) {
+      ship.x = Math.max(0, ship.x - params.steerSpeed * frameScale);
+      ship.rotation = -STEER_ROTATION;
+    } else if (right) {
+      ship.x = Math.min(this.screenWidth - ship.width, ship.x + params.steerSpeed * frameScale);
+      ship.rotation = STEER_ROTATION;
+    } else {
+      // Brake back down to cruising speed
+      ship.speed = Math.max(ship.speed - BRAKE_DECELERATION * frameScale, 0);
+      ship.rotation = 0;
+    }
+
+    // Spawn on a timer
+    this.spawnTimer += deltaTime * 1000;
+    const { spawnInterval } = this.settings;
+    while (this.spawnTimer >= spawnInterval) {
+      this.spawnTimer -= spawnInterval;
+      this.spawnObject();
+    }
+
+    // Move objects, dropping those that left the screen
+    const fallSpeed = (this.baseSpeed + ship.speed) * frameScale;
+    const onScreen: RacingObject[] = [];
+
+    for (const obj of this.objects) {
+      obj.prevY = obj.y;
+      obj.y += fallSpeed;
+      if (obj.y >= this.screenHeight + 50) {
+        this.broadphase.remove(obj);
+        continue;
+      }
+      this.broadphase.update(obj, obj);
+      onScreen.push(obj);
+    }
+
+    // Resolve collisions against objects near the ship's path this step
+    const hits = new Set(
+      this.broadphase.query(this.sweptShipBounds(fallSpeed)).filter(obj => this.hitsShip(obj))
+    );
+    let hitAsteroid = false;
+
+    hits.forEach(obj => {
+      if (obj.type === 'coin') {
+        this.coins++;
+      } else {
+        hitAsteroid = true;
+      }
+      this.broadphase.remove(obj);
+      this.revision++;
+    });
+    this.objects = hits.size > 0 ? onScreen.filter(obj => !hits.has(obj)) : onScreen;
+
+    if (hitAsteroid) {
+      this.lives = Math.max(0, this.lives - 1);
+    }
+
+    // Boosting covers ground faster and reaches the finish sooner
+    this.travelled += frameScale * (this.baseSpeed + ship.speed) / this.baseSpeed;
+    this.tick++;
+    this.trace.push(ship.x, this.distance, this.boosting);
+
+    if (this.lives === 0) {
+      this.finished = 'lost';
+    } else if (this.distance >= this.targetDistance) {
+      this.finished = 'won';
+    }
+
+    if (
+      this.distance !== previous.distance ||
+      this.boosting !== previous.boosting ||
+      this.ghostGap !== previous.ghostGap ||
+      this.finished
+    ) {
+      this.revision++;
+    }
+  }
+
+  handleInput(input: InputEvent): void {
+    const pressed = input.type === 'button_press';
+    if (!pressed && input.type !== 'button_release') return;
+
+    if (input.buttonId === 'left' || input.buttonId === 'right') {
+      this.controls = { ...this.controls, [input.buttonId]: pressed };
+      this.revision++;
+    }
+  }
+
+  render(renderQueue: RenderQueue, alpha: number): void {
+    const theme = RACING_CONFIG.theme;
+    const ship = this.ship;
+
+    // Stars background effect
+    this.stars.forEach((star, index) => {
+      renderQueue.add(createCircle(`star-${index}`, star.x, star.y, 1, '#FFFFFF', {
+        opacity: star.opacity,
+        layer: RenderLayer.BACKGROUND
+      }));
+    });
+
+    // Ghost of the best previous run
+    const ghostSample = this.ghost && ghostSampleAt(this.ghost, this.tick - 1);
+    if (ghostSample) {
+      const ghostPrevious = ghostSampleAt(this.ghost!, this.tick - 2) ?? ghostSample;
+      renderQueue.add(createRect('ghost', lerp(ghostPrevious.x, ghostSample.x, alpha), ship.y,
+        ship.width, ship.height, ghostSample.boosting ? theme.colors.secondary : theme.colors.primary, {
+          cornerRadius: 25,
+          opacity: GHOST_OPACITY,
+          zIndex: 1
+        }));
+    }
+
+    // Player ship
+    const shipX = lerp(ship.prevX, ship.x, alpha);
+    const rotation = toRadians(ship.rotation);
+    renderQueue.add(createRect('ship', shipX, ship.y, ship.width, ship.height,
+      this.boosting ? theme.colors.secondary : theme.colors.primary, {
+        cornerRadius: 25,
+        rotation,
+        zIndex: 2
+      }));
+    renderQueue.add(createRect('ship-core', shipX + 10, ship.y + 10, 30, 40, '#FFFFFF', {
+      cornerRadius: 15,
+      rotation,
+      zIndex: 3
+    }));
+    if (this.boosting) {
+      renderQueue.add(createRect('ship-boost', shipX + 15, ship.y + ship.height - 10, 20, 30, '#FF4444', {
+        cornerRadius: 10,
+        zIndex: 1
+      }));
+    }
+
+    // Asteroids and coins
+    for (const obj of this.objects) {
+      const y = lerp(obj.prevY, obj.y, alpha);
+      renderQueue.add(createRect(obj.id, obj.x, y, obj.width, obj.height,
+        obj.type === 'asteroid' ? '#8B4513' : theme.colors.accent, {
+          cornerRadius: obj.width / 2
+        }));
+    }
+  }
+
+  getState(): GameState {
+    return {
+      score: this.score,
+      lives: this.lives,
+      timeRemaining: 0,
+      isPaused: false,
+      isGameOver: this.finished !== null,
+      isWin: this.finished === 'won'
+    };
+  }
+
+  getSnapshot(): RacingSnapshot {
+    return {
+      score: this.score,
+      lives: this.lives,
+      coins: this.coins,
+      distance: this.distance,
+      targetDistance: this.targetDistance,
+      boosting: this.boosting,
+      steering: this.controls,
+      ghostGap: this.ghostGap
+    };
+  }
+
+  /**
+   * Trace of this run, once it has been won
+   */
+  getGhostRun(): GhostRun | null {
+    return this.finished === 'won' ? this.trace.finish(this.score) : null;
+  }
+
+  /**
+   * Area the ship covered this step, relative to the falling objects
+   */
+  private sweptShipBounds(fallSpeed: number): AABB {
+    const ship = this.ship;
+    const left = Math.min(ship.x, ship.prevX);
+    return {
+      x: left,
+      y: ship.y,
+      width: Math.max(ship.x, ship.prevX) - left + ship.width,
+      height: ship.height + fallSpeed
+    };
+  }
+
+  /**
+   * Whether an object touched the ship at any point during the step. Hitboxes
+   * match the drawing: the ship's box turns as it steers and objects are
+   * round. At boost speed objects fall far enough per step to skip past the
+   * ship, so the bounding boxes are swept first and the exact shapes are
+   * then checked along the rest of the move.
+   */
+  private hitsShip(obj: RacingObject): boolean {
+    const ship = this.ship;
+    const start = { x: obj.x, y: obj.prevY, width: obj.width, height: obj.height };
+    const shipStart = { x: ship.prevX, y: ship.y, width: ship.width, height: ship.height };
+    const relativeMove = new Vector2D(ship.prevX - ship.x, obj.y - obj.prevY);
+
+    let from = 0;
+    if (!checkAABBCollision(start, shipStart)) {
+      const sweep = sweepAABB(start, relativeMove, shipStart);
+      if (!sweep) return false;
+      from = sweep.time;
+    }
+
+    const hitbox = rotatedAABB(shipStart, toRadians(ship.rotation));
+    const radius = obj.width / 2;
+    const samples = Math.max(1, Math.ceil((relativeMove.magnitude() * (1 - from)) / radius));
+    for (let i = 0; i <= samples; i++) {
+      const t = from + ((1 - from) * i) / samples;
+      const body = {
+        x: start.x + relativeMove.x * t + radius,
+        y: start.y + relativeMove.y * t + radius,
+        radius
+      };
+      if (checkShapeCollision(hitbox, body)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Procedural track long enough to reach the finish at cruising speed. The
+   * safe line may only move as many lanes per row as the ship can steer
+   * across in the time between one row passing the ship and the next
+   * arriving. The options are kept to extend the track if it runs out.
+   */
+  private generateTrack(budget: number): { track: GeneratedTrack; options: TrackOptions } {
+    const { spawnInterval, distance } = this.settings;
+    const lanes = Math.max(3, Math.floor(this.screenWidth / TRACK_LANE_WIDTH));
+    const laneWidth = this.screenWidth / lanes;
+    const fallSpeed = this.baseSpeed * REFERENCE_FPS;
+    const passTime = (ASTEROID_SIZE + SHIP_HEIGHT) / fallSpeed;
+    const freeTime = Math.max(0, spawnInterval / 1000 - passTime);
+    const steerSpeed = RACING_CONFIG.levelParameters.steerSpeed * REFERENCE_FPS;
+
+    const options: TrackOptions = {
+      lanes,
+      reach: Math.floor((steerSpeed * freeTime) / laneWidth),
+      rows: Math.ceil(((distance / REFERENCE_FPS) * 1000) / spawnInterval) + 1,
+      budget
+    };
+    return { track: generateTrack(options, this.rng), options };
+  }
+
+  private spawnObject(): void {
+    const row = this.nextTrackRow();
+    if (row) {
+      this.spawnTrackRow(row);
+      return;
+    }
+    const type = this.rng.chance(this.settings.asteroidChance ?? 0) ? 'asteroid' : 'coin';
+    this.addObject(type, this.rng.range(0, this.screenWidth - objectSize(type)));
+  }
+
+  /**
+   * Next row of the level's track, if it has one. Rows are written as they
+   * look on screen, so the bottom row arrives first. An authored layout
+   * repeats once it runs out; a generated one is extended.
+   */
+  private nextTrackRow(): string | null {
+    if (this.generated) {
+      const { options } = this.generated;
+      while (this.trackRow >= this.generated.track.rows.length) {
+        this.generated.track = extendTrack(this.generated.track, options, this.rng);
+      }
+      const { rows } = this.generated.track;
+      return rows[rows.length - 1 - this.trackRow++];
+    }
+    if (this.track) {
+      return this.track[this.track.length - 1 - (this.trackRow++ % this.track.length)];
+    }
+    return null;
+  }
+
+  private spawnTrackRow(row: string): void {
+    const laneWidth = this.screenWidth / row.length;
+
+    [...row].forEach((char, lane) => {
+      if (char === '.') return;
+      const type = char === 'A' ? 'asteroid' : 'coin';
+      const size = objectSize(type);
+      const x = lane * laneWidth + (laneWidth - size) / 2;
+      this.addObject(type, Math.max(0, Math.min(x, this.screenWidth - size)));
+    });
+  }
+
+  private addObject(type: RacingObject['type'], x: number): void {
+    const size = objectSize(type);
+    this.objects.push({
+      id: `obj_${this.objectIdCounter++}`,
+      x,
+      y: -50,
+      prevY: -50,
+      width: size,
+      height: size,
+      type
+    });
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Racing Tracks
+ * Chunk-based procedural tracks with a guaranteed way through
+ *
+ * A track is a list of rows across a fixed number of lanes, in the same
+ * format as authored tracks (TRACK_CHARS in config/levelSchemas.ts), and is
+ * spawned one row at a time. Each chunk walks a safe line that never shifts
+ * further between rows than the ship can steer, lays a coin trail on a second
+ * line, then spends its share of the difficulty budget on asteroids, crowding
+ * the coin trail first so the coins are the risky way through. A track that
+ * runs out is extended with more chunks from where its safe line ended.
+ */
+
+import { SeededRandom } from '../../runtime/random';
+
+export const DEFAULT_CHUNK_ROWS = 8;
+
+export interface TrackOptions {
+  lanes: number;
+  reach: number;      // Lanes the ship can cross while one row passes to the next
+  rows: number;       // Minimum rows (rounded up to whole chunks)
+  budget: number;     // 0-1: share of open cells that become asteroids at full ramp
+  chunkRows?: number; // Default 8
+  startLane?: number; // Default middle lane
+}
+
+export interface GeneratedTrack {
+  rows: string[];     // Authored-track order: the last row arrives first
+  safeLine: number[]; // Lane of the guaranteed path, in arrival order
+}
+
+/**
+ * Difficulty ramps up over the track: the first chunk spends half its
+ * budget, the last spends all of it
+ */
+export function chunkBudget(budget: number, chunk: number, chunks: number): number {
+  const progress = chunks > 1 ? chunk / (chunks - 1) : 1;
+  return budget * (0.5 + 0.5 * progress);
+}
+
+/**
+ * Next lane of a line, at most `reach` lanes away
+ */
+function step(lane: number, reach: number, lanes: number, rng: SeededRandom): number {
+  return Math.max(0, Math.min(lanes - 1, lane + rng.int(-reach, reach)));
+}
+
+/**
+ * Generate a track; the same options and seed always give the same track
+ */
+export function generateTrack(options: TrackOptions, rng: SeededRandom): GeneratedTrack {
+  const { lanes, budget } = options;
+  const reach = Math.max(0, Math.floor(options.reach));
+  const chunkRows = options.chunkRows ?? DEFAULT_CHUNK_ROWS;
+  const chunks = Math.max(1, Math.ceil(options.rows / chunkRows));
+
+  const arrival: string[][] = [];
+  const safeLine: number[] = [];
+  let safe = options.startLane ?? Math.floor(lanes / 2);
+  let trail = lanes > 1 ? (safe + rng.int(1, lanes - 1)) % lanes : safe;
+
+  for (let chunk = 0; chunk < chunks; chunk++) {
+    const cells = Array.from({ length: chunkRows }, () => Array<string>(lanes).fill('.'));
+    const open: { row: number; lane: number; risky: boolean }[] = [];
+
+    // Lines first, so asteroids can only go where neither runs
+    const trailLanes: number[] = [];
+    for (let row = 0; row < chunkRows; row++) {
+      safe = step(safe, reach, lanes, rng);
+      trail = step(trail, reach, lanes, rng);
+      safeLine.push(safe);
+      trailLanes.push(trail);
+      if (trail !== safe) cells[row][trail] = 'C';
+    }
+
+    for (let row = 0; row < chunkRows; row++) {
+      for (let lane = 0; lane < lanes; lane++) {
+        if (lane === safeLine[safeLine.length - chunkRows + row] || lane === trailLanes[row]) continue;
+        open.push({ row, lane, risky: Math.abs(lane - trailLanes[row]) === 1 });
+      }
+    }
+
+    // Cells beside the coin trail take asteroids first
+    const risky = rng.shuffle(open.filter(cell => cell.risky));
+    const rest = rng.shuffle(open.filter(cell => !cell.risky));
+    const count = Math.round(chunkBudget(budget, chunk, chunks) * open.length);
+    [...risky, ...rest].slice(0, count).forEach(({ row, lane }) => {
+      cells[row][lane] = 'A';
+    });
+
+    cells.forEach(row => arrival.push(row));
+  }
+
+  return {
+    rows: arrival.map(row => row.join('')).reverse(),
+    safeLine
+  };
+}
+
+/**
+ * Add a chunk at the full budget to the end of a track, carrying its safe
+ * line on from the last row so the way through never breaks
+ */
+export function extendTrack(track: GeneratedTrack, options: TrackOptions, rng: SeededRandom): GeneratedTrack {
+  const next = generateTrack({
+    ...options,
+    rows: options.chunkRows ?? DEFAULT_CHUNK_ROWS,
+    startLane: track.safeLine[track.safeLine.length - 1]
+  }, rng);
+  return {
+    rows: [...next.rows, ...track.rows],
+    safeLine: [...track.safeLine, ...next.safeLine]
+  };
+}
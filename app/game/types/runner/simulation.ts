@@ -0,0 +1,233 @@
+/**
+ * Runner Simulation
+ * Lane-based runner logic, stepped by GameRuntime
+ */
+
+import { Level } from '../../../config/levels';
+import { RunnerLevelSettings } from '../../../config/levelSchemas';
+import { getLevelSettings } from '../../../config/levelBundles';
+import { GameState, EngineSimulation } from '../../GameEngine';
+import { GameType, RUNNER_CONFIG } from '../../config/gameTypes';
+import { InputEvent } from '../../runtime/input';
+import {
+  RenderQueue,
+  RenderLayer,
+  createRect,
+  createCircle,
+  createText
+} from '../../runtime/rendering';
+import { lerp } from '../../runtime/physics2d';
+import { SeededRandom } from '../../runtime/random';
+
+export const PLAYER_SIZE = 50;
+export const PLAYER_X = 50;
+export const OBSTACLE_SIZE = 40;
+export const COIN_SIZE = 30;
+export const LANE_HEIGHT = 100;
+export const NUM_LANES = 3;
+export const STARTING_LIVES = 5;
+
+// Tuned for the original 20 Hz tick: 1 distance and 5px of scroll per tick
+const DISTANCE_PER_SECOND = 20;
+const SCROLL_SPEED = 100;
+
+export interface RunnerObject {
+  id: string;
+  x: number;
+  prevX: number;
+  type: 'obstacle' | 'coin';
+  lane: number;
+}
+
+export interface RunnerSnapshot {
+  score: number;
+  lives: number;
+  meters: number;
+  progress: number; // 0-1 towards target distance
+}
+
+export class RunnerSimulation implements EngineSimulation<RunnerSnapshot> {
+  revision = 0;
+
+  private level: Level;
+  private settings: RunnerLevelSettings;
+  private screenWidth: number;
+  private rng: SeededRandom;
+  private playerLane = 1;
+  private distance = 0;
+  private coinScore = 0;
+  private lives = STARTING_LIVES;
+  private objects: RunnerObject[] = [];
+  private objectIdCounter = 0;
+  private finished: 'won' | 'lost' | null = null;
+
+  constructor(
+    level: Level,
+    screenWidth: number,
+    rng: SeededRandom,
+    settings: RunnerLevelSettings = getLevelSettings(GameType.RUNNER, level.id)
+  ) {
+    this.level = level;
+    this.settings = settings;
+    this.screenWidth = screenWidth;
+    this.rng = rng;
+  }
+
+  get targetDistance(): number {
+    return this.settings.distance;
+  }
+
+  get score(): number {
+    return Math.floor(this.distance / 10) + this.coinScore;
+  }
+
+  update(deltaTime: number): void {
+    if (this.finished) return;
+
+    const meters = Math.floor(this.distance / 10);
+    const score = this.score;
+
+    this.distance += DISTANCE_PER_SECOND * deltaTime;
+
+    // Spawn new objects
+    if (this.rng.chance(this.settings.obstacleRate * deltaTime)) {
+      this.spawn('obstacle');
+    }
+    if (this.rng.chance(this.settings.coinRate * deltaTime)) {
+      this.spawn('coin');
+    }
+
+    // Move objects and resolve collisions with the player
+    const remaining: RunnerObject[] = [];
+    for (const obj of this.objects) {
+      obj.prevX = obj.x;
+      obj.x -= SCROLL_SPEED * deltaTime;
+      if (obj.x <= -100) continue;
+
+      if (obj.lane === this.playerLane && obj.x < PLAYER_SIZE + 20 && obj.x > -20) {
+        if (obj.type === 'obstacle') {
+          this.lives = Math.max(0, this.lives - 1);
+        } else {
+          this.coinScore += this.level.coinValue;
+        }
+        this.revision++;
+        continue;
+      }
+      remaining.push(obj);
+    }
+    this.objects = remaining;
+
+    if (this.lives === 0) {
+      this.finished = 'lost';
+      this.revision++;
+    } else if (this.distance >= this.targetDistance) {
+      this.finished = 'won';
+      this.revision++;
+    }
+
+    if (Math.floor(this.distance / 10) !== meters || this.score !== score) {
+      this.revision++;
+    }
+  }
+
+  handleInput(input: InputEvent): void {
+    if (input.type === 'swipe_up' || (input.type === 'button_press' && input.buttonId === 'up')) {
+      this.moveLane(-1);
+    } else if (input.type === 'swipe_down' || (input.type === 'button_press' && input.buttonId === 'down')) {
+      this.moveLane(1);
+    }
+  }
+
+  render(renderQueue: RenderQueue, alpha: number): void {
+    const theme = RUNNER_CONFIG.theme;
+
+    // Lanes
+    for (let lane = 0; lane < NUM_LANES; lane++) {
+      renderQueue.add(createRect(
+        `lane-${lane}`,
+        0,
+        (lane + 1) * LANE_HEIGHT - 2,
+        this.screenWidth,
+        2,
+        theme.colors.primary + '40',
+        { layer: RenderLayer.BACKGROUND, opacity: 0.3 }
+      ));
+    }
+
+    // Player
+    const playerTop = this.playerLane * LANE_HEIGHT + (LANE_HEIGHT - PLAYER_SIZE) / 2;
+    renderQueue.add(createCircle(
+      'player',
+      PLAYER_X + PLAYER_SIZE / 2,
+      playerTop + PLAYER_SIZE / 2,
+      PLAYER_SIZE / 2,
+      theme.colors.accent,
+      { zIndex: 1 }
+    ));
+    renderQueue.add(createText('player-icon', '🏃', PLAYER_X + 10, playerTop + 5, {
+      fontSize: 30,
+      zIndex: 2
+    }));
+
+    // Obstacles and coins
+    for (const obj of this.objects) {
+      const isObstacle = obj.type === 'obstacle';
+      const size = isObstacle ? OBSTACLE_SIZE : COIN_SIZE;
+      const x = lerp(obj.prevX, obj.x, alpha);
+      const y = obj.lane * LANE_HEIGHT + (LANE_HEIGHT - size) / 2;
+
+      renderQueue.add(createRect(
+        obj.id,
+        x,
+        y,
+        size,
+        size,
+        isObstacle ? theme.colors.secondary : theme.colors.primary,
+        { cornerRadius: isObstacle ? 5 : size / 2 }
+      ));
+      renderQueue.add(createText(`${obj.id}-icon`, isObstacle ? '⚠️' : '🪙', x + size / 2 - 12, y + size / 2 - 13, {
+        fontSize: 20,
+        zIndex: 1
+      }));
+    }
+  }
+
+  getState(): GameState {
+    return {
+      score: this.score,
+      lives: this.lives,
+      timeRemaining: 0,
+      isPaused: false,
+      isGameOver: this.finished !== null,
+      isWin: this.finished === 'won'
+    };
+  }
+
+  getSnapshot(): RunnerSnapshot {
+    return {
+      score: this.score,
+      lives: this.lives,
+      meters: Math.floor(this.distance / 10),
+      progress: Math.min(this.distance / this.targetDistance, 1)
+    };
+  }
+
+  private moveLane(direction: -1 | 1): void {
+    const lane = Math.max(0, Math.min(NUM_LANES - 1, this.playerLane + direction));
+    if (lane !== this.playerLane) {
+      this.playerLane = lane;
+      this.revision++;
+    }
+  }
+
+  private spawn(type: RunnerObject['type']): void {
+    const lane = this.rng.int(0, NUM_LANES - 1);
+    this.objects.push({
+      id: `${type}-${this.objectIdCounter++}`,
+      x: this.screenWidth,
+      prevX: this.screenWidth,
+      type,
+      lane
+    });
+  }
+}
@@ -3,120 +3,58 @@
  * Tower-style word puzzle game
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { forwardRef, useCallback, useEffect, useRef } from 'react';
 import {
   View,
   Text,
   TouchableOpacity,
   StyleSheet,
-  TextInput,
-  Alert
+  Dimensions
 } from 'react-native';
-import { GameEngineProps } from '../../GameEngine';
+import { GameEngineProps, IGameEngine } from '../../GameEngine';
 import { WORD_CONFIG } from '../../config/gameTypes';
+import { GameRuntime } from '../../runtime/GameRuntime';
+import { useEngineLifecycle } from '../../useEngineLifecycle';
+import { LETTER_VALUES, scoreWord } from './letters';
+import { WordSimulation, letterButtonId } from './simulation';
 
-const LETTER_GRID = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-const COMMON_WORDS = ['CAT', 'DOG', 'RUN', 'JUMP', 'PLAY', 'GAME', 'WORD', 'CODE', 'TEST', 'HELP'];
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
-export const WordEngine: React.FC<GameEngineProps> = ({
-  level,
-  onScoreChange,
-  onLivesChange,
-  onWin,
-  onLose,
-  isPaused
-}) => {
-  const theme = WORD_CONFIG.theme;
-  const [letters, setLetters] = useState<string[]>([]);
-  const [currentWord, setCurrentWord] = useState('');
-  const [foundWords, setFoundWords] = useState<string[]>([]);
-  const [score, setScore] = useState(0);
-  const [timeLeft, setTimeLeft] = useState(level.timeLimit);
-
-  useEffect(() => {
-    generateLetters();
-  }, []);
-
-  useEffect(() => {
-    if (!isPaused && timeLeft > 0) {
-      const timer = setInterval(() => {
-        setTimeLeft(prev => {
-          if (prev <= 1) {
-            if (score >= level.targetScore) {
-              onWin();
-            } else {
-              onLose();
-            }
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
-      return () => clearInterval(timer);
-    }
-  }, [isPaused, timeLeft]);
-
-  useEffect(() => {
-    if (score >= level.targetScore) {
-      onWin();
-    }
-  }, [score]);
+// Tile margin, matching the styles below
+const TILE_MARGIN = 3;
 
-  const generateLetters = () => {
-    const vowels = 'AEIOU';
-    const consonants = 'BCDFGHJKLMNPQRSTVWXYZ';
-    const newLetters: string[] = [];
-    
-    // Ensure good mix of vowels and consonants
-    for (let i = 0; i < 12; i++) {
-      if (i % 3 === 0) {
-        newLetters.push(vowels[Math.floor(Math.random() * vowels.length)]);
-      } else {
-        newLetters.push(consonants[Math.floor(Math.random() * consonants.length)]);
-      }
-    }
-    
-    setLetters(newLetters);
-  };
-
-  const handleLetterPress = (letter: string) => {
-    if (isPaused) return;
-    setCurrentWord(prev => prev + letter);
-  };
-
-  const handleSubmitWord = () => {
-    if (currentWord.length < 3) {
-      Alert.alert('Too Short', 'Words must be at least 3 letters!');
-      return;
-    }
+export const WordEngine = forwardRef<IGameEngine, GameEngineProps>(function WordEngine(props, ref) {
+  const { level } = props;
+  const theme = WORD_CONFIG.theme;
 
-    // Simple validation - check if it's a known word or has good letter pattern
-    const isValid = 
-      COMMON_WORDS.includes(currentWord.toUpperCase()) ||
-      currentWord.length >= 4;
+  const { runtimeProps, snapshot, pressButton, getSimulation } = useEngineLifecycle(
+    rng => new WordSimulation(level, rng),
+    props,
+    ref
+  );
+  const { paused } = runtimeProps;
+  const { mode, rows, cols, letters, path, falling, settling } = snapshot;
+  const { currentWord, foundWords, score, timeLeft, feedback } = snapshot;
+  // Fit the grid across the screen, leaving half its height for the rest
+  const cellSize = Math.min((SCREEN_WIDTH - 40) / cols, (SCREEN_HEIGHT / 2) / rows);
+  const tileSize = { width: cellSize - TILE_MARGIN * 2, height: cellSize - TILE_MARGIN * 2 };
 
-    if (isValid && !foundWords.includes(currentWord)) {
-      const points = currentWord.length * level.coinValue;
-      setScore(prev => {
-        const newScore = prev + points;
-        onScoreChange(newScore);
-        return newScore;
-      });
-      setFoundWords(prev => [...prev, currentWord]);
-      setCurrentWord('');
-    } else if (foundWords.includes(currentWord)) {
-      Alert.alert('Already Found', 'You already found that word!');
-    } else {
-      Alert.alert('Invalid', 'Not a valid word. Try again!');
-    }
-  };
+  // Drags are traced against the grid's position on screen
+  const gridRef = useRef<View>(null);
+  const measureGrid = useCallback(() => {
+    gridRef.current?.measure((_x, _y, _width, _height, pageX, pageY) => {
+      getSimulation().setLayout({ x: pageX, y: pageY, cellSize });
+    });
+  }, [getSimulation, cellSize]);
 
-  const handleClear = () => {
-    setCurrentWord('');
-  };
+  // A reset starts a new simulation, which needs the layout again
+  useEffect(() => measureGrid(), [measureGrid, runtimeProps.session]);
 
   return (
-    <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+    <GameRuntime
+      {...runtimeProps}
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+    >
       {/* Header */}
       <View style={styles.header}>
         <View style={styles.statItem}>
@@ -148,23 +86,77 @@ export const WordEngine: React.FC<GameEngineProps> = ({
       {/* Current Word Display */}
       <View style={styles.wordDisplay}>
         <Text style={[styles.currentWord, { color: theme.colors.text }]}>
-          {currentWord || 'Tap letters to form words'}
+          {currentWord || 'Drag through touching letters to form words'}
         </Text>
       </View>
 
-      {/* Letter Grid */}
-      <View style={styles.letterGrid}>
-        {letters.map((letter, index) => (
-          <TouchableOpacity
-            key={index}
-            style={[styles.letterTile, { backgroundColor: theme.colors.primary }]}
-            onPress={() => handleLetterPress(letter)}
-            disabled={isPaused}
+      {/* Feedback */}
+      {feedback && (
+        <View style={[styles.feedback, { borderColor: theme.colors.accent }]}>
+          <Text style={[styles.feedbackTitle, { color: theme.colors.accent }]}>
+            {feedback.title}
+          </Text>
+          <Text style={[styles.feedbackMessage, { color: theme.colors.text }]}>
+            {feedback.message}
+          </Text>
+        </View>
+      )}
+
+      {/* Letter Grid (in tower mode, the well letters fall into) */}
+      <View
+        ref={gridRef}
+        style={[styles.letterGrid, mode === 'tower' && styles.well]}
+        onLayout={measureGrid}
+      >
+        {Array.from({ length: rows }, (_, row) => (
+          <View key={row} style={styles.gridRow}>
+            {letters.slice(row * cols, (row + 1) * cols).map((letter, col) => {
+              const index = row * cols + col;
+              if (letter === null) {
+                return <View key={col} style={{ width: cellSize, height: cellSize }} />;
+              }
+              // Letters left hanging by a cleared word drop into place
+              const settle = settling[index] ?? 0;
+              return (
+                <TouchableOpacity
+                  key={col}
+                  style={[
+                    styles.letterTile,
+                    tileSize,
+                    {
+                      backgroundColor: path.includes(index) ? theme.colors.secondary : theme.colors.primary,
+                      transform: [{ translateY: -settle * cellSize }]
+                    }
+                  ]}
+                  onPress={() => pressButton(letterButtonId(index))}
+                  disabled={paused}
+                >
+                  <Text style={[styles.letterText, { fontSize: cellSize / 2 }]}>
+                    {letter}
+                  </Text>
+                  <Text style={styles.letterValue}>
+                    {LETTER_VALUES[letter]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ))}
+
+        {falling.map(({ col, row, letter }, index) => (
+          <View
+            key={`falling-${index}`}
+            style={[
+              styles.letterTile,
+              styles.fallingTile,
+              tileSize,
+              { left: col * cellSize, top: row * cellSize, backgroundColor: theme.colors.primary }
+            ]}
           >
-            <Text style={[styles.letterText, { color: theme.colors.text }]}>
+            <Text style={[styles.letterText, { fontSize: cellSize / 2 }]}>
               {letter}
             </Text>
-          </TouchableOpacity>
+          </View>
         ))}
       </View>
 
@@ -172,13 +164,13 @@ export const WordEngine: React.FC<GameEngineProps> = ({
       <View style={styles.actions}>
         <TouchableOpacity
           style={[styles.button, styles.clearButton, { backgroundColor: theme.colors.textSecondary }]}
-          onPress={handleClear}
+          onPress={() => pressButton('clear')}
         >
           <Text style={styles.buttonText}>Clear</Text>
         </TouchableOpacity>
         <TouchableOpacity
           style={[styles.button, styles.submitButton, { backgroundColor: theme.colors.secondary }]}
-          onPress={handleSubmitWord}
+          onPress={() => pressButton('submit')}
         >
           <Text style={styles.buttonText}>Submit Word</Text>
         </TouchableOpacity>
@@ -192,18 +184,17 @@ export const WordEngine: React.FC<GameEngineProps> = ({
         <View style={styles.wordsList}>
           {foundWords.map((word, index) => (
             <Text key={index} style={[styles.foundWord, { color: theme.colors.primary }]}>
-              {word} ({word.length})
+              {word} (+{scoreWord(word) * level.coinValue})
             </Text>
           ))}
         </View>
       </View>
-    </View>
+    </GameRuntime>
   );
-};
+});
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
     padding: 20
   },
   header: {
@@ -235,25 +226,55 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     letterSpacing: 2
   },
+  feedback: {
+    borderWidth: 1,
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 20,
+    alignItems: 'center'
+  },
+  feedbackTitle: {
+    fontSize: 16,
+    fontWeight: 'bold'
+  },
+  feedbackMessage: {
+    fontSize: 14,
+    marginTop: 4
+  },
   letterGrid: {
-    flexDirection: 'row',
-    flexWrap: 'wrap',
-    justifyContent: 'center',
+    alignSelf: 'center',
     marginBottom: 20
   },
+  well: {
+    backgroundColor: 'rgba(0,0,0,0.05)',
+    borderRadius: 8,
+    overflow: 'hidden'
+  },
+  gridRow: {
+    flexDirection: 'row'
+  },
+  fallingTile: {
+    position: 'absolute',
+    opacity: 0.8
+  },
   letterTile: {
-    width: 60,
-    height: 60,
-    margin: 5,
-    borderRadius: 10,
+    margin: TILE_MARGIN,
+    borderRadius: 8,
     justifyContent: 'center',
     alignItems: 'center',
     elevation: 3
   },
   letterText: {
-    fontSize: 24,
+    color: '#ffffff',
     fontWeight: 'bold'
   },
+  letterValue: {
+    position: 'absolute',
+    right: 4,
+    bottom: 2,
+    fontSize: 9,
+    color: '#ffffff'
+  },
   actions: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -0,0 +1,163 @@
+/**
+ * Packed Word Graphs
+ * Word lists stored as a DAWG (a trie with shared suffixes merged)
+ *
+ * Packed form: nodes separated by ",", root first. A node starts with "!" if
+ * a word ends there, then lists its edges as an upper case letter followed by
+ * the child's index in base 36, or no index for the shared final node that
+ * every word ending without a longer continuation leads to. "CAT", "CATS"
+ * and "BAT" pack as "B1C2,A3,A4,T,T5,!S".
+ */
+
+export const DAWG_FORMAT = 'dawg-1';
+
+export interface PackedDictionary {
+  format: typeof DAWG_FORMAT;
+  words: number; // Word count
+  nodes: string;
+}
+
+// The childless final node
+export const LEAF = -1;
+export const ROOT = 0;
+
+interface TrieNode {
+  terminal: boolean;
+  children: Map<string, TrieNode>;
+}
+
+/**
+ * Pack a word list. Words are upper-cased; anything but A-Z is rejected.
+ */
+export function packWords(words: Iterable<string>): PackedDictionary {
+  const unique = [...new Set([...words].map(word => word.toUpperCase()))].sort();
+  const root: TrieNode = { terminal: false, children: new Map() };
+
+  unique.forEach(word => {
+    if (!/^[A-Z]+$/.test(word)) {
+      throw new Error(`Cannot pack "${word}": words must be letters A-Z`);
+    }
+    let node = root;
+    for (const letter of word) {
+      let next = node.children.get(letter);
+      if (!next) {
+        next = { terminal: false, children: new Map() };
+        node.children.set(letter, next);
+      }
+      node = next;
+    }
+    node.terminal = true;
+  });
+
+  // Merge identical subtrees bottom-up; ids are assigned children first
+  const registry = new Map<string, number>();
+  const merged: { terminal: boolean; edges: [string, number][] }[] = [];
+  const canonical = (node: TrieNode): number => {
+    if (node.children.size === 0) return LEAF;
+    const edges = [...node.children.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([letter, child]): [string, number] => [letter, canonical(child)]);
+    const signature = `${node.terminal ? '!' : ''}${edges.map(([letter, id]) => letter + id).join('')}`;
+    let id = registry.get(signature);
+    if (id === undefined) {
+      id = merged.length;
+      registry.set(signature, id);
+      merged.push({ terminal: node.terminal, edges });
+    }
+    return id;
+  };
+  const rootId = canonical(root);
+
+  // Number nodes breadth-first so the root comes first
+  const order = new Map<number, number>();
+  const queue = rootId === LEAF ? [] : [rootId];
+  order.set(rootId, ROOT);
+  for (let i = 0; i < queue.length; i++) {
+    merged[queue[i]].edges.forEach(([, child]) => {
+      if (child !== LEAF && !order.has(child)) {
+        order.set(child, queue.length);
+        queue.push(child);
+      }
+    });
+  }
+
+  const nodes = queue.map(id => {
+    const { terminal, edges } = merged[id];
+    const packed = edges.map(([letter, child]) =>
+      letter + (child === LEAF ? '' : order.get(child)!.toString(36))
+    );
+    return (terminal ? '!' : '') + packed.join('');
+  });
+
+  return { format: DAWG_FORMAT, words: unique.length, nodes: nodes.join(',') };
+}
+
+/**
+ * Read-only view of a packed word list. Nodes are decoded on first visit.
+ */
+export class Dawg {
+  readonly size: number;
+
+  private nodes: string[];
+  private decoded: (Map<string, number> | undefined)[] = [];
+
+  constructor(packed: PackedDictionary) {
+    if (packed.format !== DAWG_FORMAT) {
+      throw new Error(`Unsupported dictionary format "${String(packed.format)}"`);
+    }
+    this.size = packed.words;
+    this.nodes = packed.nodes.length > 0 ? packed.nodes.split(',') : [];
+  }
+
+  /**
+   * Node reached from `node` by a letter, or undefined if no word continues
+   * that way
+   */
+  child(node: number, letter: string): number | undefined {
+    return this.edges(node).get(letter);
+  }
+
+  /**
+   * Whether a word ends at this node
+   */
+  isWord(node: number): boolean {
+    return node === LEAF || this.nodes[node]?.startsWith('!') === true;
+  }
+
+  /**
+   * Node reached by a whole string from the root, if any word starts with it
+   */
+  find(prefix: string): number | undefined {
+    if (this.nodes.length === 0) return undefined;
+    let node: number | undefined = ROOT;
+    for (const letter of prefix.toUpperCase()) {
+      node = this.child(node, letter);
+      if (node === undefined) return undefined;
+    }
+    return node;
+  }
+
+  has(word: string): boolean {
+    const node = this.find(word);
+    return word.length > 0 && node !== undefined && this.isWord(node);
+  }
+
+  hasPrefix(prefix: string): boolean {
+    return this.find(prefix) !== undefined;
+  }
+
+  private edges(node: number): Map<string, number> {
+    if (node === LEAF) return new Map();
+    let edges = this.decoded[node];
+    if (!edges) {
+      edges = new Map();
+      const pattern = /([A-Z])([0-9a-z]*)/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(this.nodes[node] ?? '')) !== null) {
+        edges.set(match[1], match[2] ? parseInt(match[2], 36) : LEAF);
+      }
+      this.decoded[node] = edges;
+    }
+    return edges;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Word Dictionaries
+ * Bundled word lists, unpacked the first time a game asks for one
+ *
+ * "common" is SCOWL (english and american, sizes 10-35): about 38,000
+ * everyday words of 2-12 letters. See dictionaries/SCOWL-Copyright.txt and
+ * scripts/build-dictionary.js to rebuild it.
+ */
+
+import { WordDictionary } from '../../../config/levelSchemas';
+import { Dawg, PackedDictionary } from './dawg';
+
+// Required on demand so a dictionary is only parsed by games that use it
+const SOURCES: Record<WordDictionary, () => PackedDictionary> = {
+  common: () => require('./dictionaries/common.json')
+};
+
+const loaded: Partial<Record<WordDictionary, Dawg>> = {};
+
+export function getDictionary(name: WordDictionary): Dawg {
+  let dictionary = loaded[name];
+  if (!dictionary) {
+    dictionary = new Dawg(SOURCES[name]());
+    loaded[name] = dictionary;
+  }
+  return dictionary;
+}
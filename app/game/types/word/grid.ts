@@ -0,0 +1,138 @@
+/**
+ * Letter Grids
+ * Word-search grids where words are traced through touching cells
+ *
+ * A word is a path of cells, each touching the last (diagonals included),
+ * that never visits a cell twice. In tower mode the grid is a well that fills
+ * from the bottom, so cells may be empty (null).
+ */
+
+import { SeededRandom } from '../../runtime/random';
+import { Dawg, ROOT } from './dawg';
+import { drawLetter } from './letters';
+
+export interface GridCell {
+  row: number;
+  col: number;
+}
+
+// A letter that fell after the cells under it were cleared
+export interface Fall extends GridCell {
+  rows: number; // How far it fell
+}
+
+export interface GridOptions {
+  rows: number;
+  cols: number;
+  minWords: number;  // Dictionary words the grid must contain
+  minLength: number; // Shortest word that counts
+}
+
+// Give up on finding a grid after this many draws
+const MAX_ATTEMPTS = 200;
+
+/**
+ * Whether two distinct cells touch, including diagonally
+ */
+export function areNeighbours(a: GridCell, b: GridCell): boolean {
+  const rows = Math.abs(a.row - b.row);
+  const cols = Math.abs(a.col - b.col);
+  return rows <= 1 && cols <= 1 && rows + cols > 0;
+}
+
+/**
+ * Whether a path steps between touching cells and never repeats one
+ */
+export function isTraceable(path: GridCell[]): boolean {
+  const seen = new Set(path.map(({ row, col }) => `${row}:${col}`));
+  return seen.size === path.length && path.every((cell, i) => i === 0 || areNeighbours(path[i - 1], cell));
+}
+
+export function pathWord(grid: (string | null)[][], path: GridCell[]): string {
+  return path.map(({ row, col }) => grid[row][col] ?? '').join('');
+}
+
+/**
+ * Every dictionary word of at least `minLength` letters that can be traced
+ * in the grid, in alphabetical order
+ */
+export function findWords(grid: (string | null)[][], dictionary: Dawg, minLength: number): string[] {
+  const found = new Set<string>();
+  const rows = grid.length;
+  const cols = grid[0]?.length ?? 0;
+  const visited = grid.map(cells => cells.map(() => false));
+
+  const visit = (row: number, col: number, node: number, word: string) => {
+    const letter = grid[row][col];
+    const next = letter === null ? undefined : dictionary.child(node, letter);
+    if (next === undefined) return;
+
+    const extended = word + letter;
+    if (extended.length >= minLength && dictionary.isWord(next)) found.add(extended);
+
+    visited[row][col] = true;
+    for (let r = Math.max(0, row - 1); r <= Math.min(rows - 1, row + 1); r++) {
+      for (let c = Math.max(0, col - 1); c <= Math.min(cols - 1, col + 1); c++) {
+        if (!visited[r][c]) visit(r, c, next, extended);
+      }
+    }
+    visited[row][col] = false;
+  };
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) visit(row, col, ROOT, '');
+  }
+  return [...found].sort();
+}
+
+/**
+ * A grid of letters drawn by tile frequency, redrawn until it holds at least
+ * `minWords` words
+ */
+export function generateGrid(options: GridOptions, dictionary: Dawg, rng: SeededRandom): string[][] {
+  const { rows, cols, minWords, minLength } = options;
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const grid = Array.from({ length: rows }, () =>
+      Array.from({ length: cols }, () => drawLetter(rng))
+    );
+    if (findWords(grid, dictionary, minLength).length >= minWords) return grid;
+  }
+  throw new Error(`Could not generate a ${rows}x${cols} grid with ${minWords} words`);
+}
+
+/**
+ * Row a letter dropped down a column comes to rest in, or -1 if the column
+ * is full
+ */
+export function landingRow(grid: (string | null)[][], col: number): number {
+  for (let row = grid.length - 1; row >= 0; row--) {
+    if (grid[row][col] === null) return row;
+  }
+  return -1;
+}
+
+/**
+ * Empty the given cells and let the letters above fall into the gaps
+ */
+export function collapseCells(grid: (string | null)[][], cells: GridCell[]): Fall[] {
+  cells.forEach(({ row, col }) => {
+    grid[row][col] = null;
+  });
+
+  const falls: Fall[] = [];
+  const cols = grid[0]?.length ?? 0;
+  for (let col = 0; col < cols; col++) {
+    let gap = 0;
+    for (let row = grid.length - 1; row >= 0; row--) {
+      const letter = grid[row][col];
+      if (letter === null) {
+        gap++;
+      } else if (gap > 0) {
+        grid[row + gap][col] = letter;
+        grid[row][col] = null;
+        falls.push({ row: row + gap, col, rows: gap });
+      }
+    }
+  }
+  return falls;
+}
@@ -0,0 +1,50 @@
+/**
+ * Letter Values
+ * Scrabble letter scores and tile frequencies for word games
+ */
+
+import { SeededRandom } from '../../runtime/random';
+
+export const LETTER_VALUES: Record<string, number> = {
+  A: 1, B: 3, C: 3, D: 2, E: 1, F: 4, G: 2, H: 4, I: 1, J: 8, K: 5, L: 1, M: 3,
+  N: 1, O: 1, P: 3, Q: 10, R: 1, S: 1, T: 1, U: 1, V: 4, W: 4, X: 8, Y: 4, Z: 10
+};
+
+// Tiles of each letter in a Scrabble set, used as draw weights
+export const LETTER_COUNTS: Record<string, number> = {
+  A: 9, B: 2, C: 2, D: 4, E: 12, F: 2, G: 3, H: 2, I: 9, J: 1, K: 1, L: 4, M: 2,
+  N: 6, O: 8, P: 2, Q: 1, R: 6, S: 4, T: 6, U: 4, V: 2, W: 2, X: 1, Y: 2, Z: 1
+};
+
+export const VOWELS = 'AEIOU';
+export const CONSONANTS = 'BCDFGHJKLMNPQRSTVWXYZ';
+
+/**
+ * Extra points for long words: nothing up to four letters, then
+ * (length - 4) * (length - 3), so 5 letters earn 2, 6 earn 6 and 7 earn 12
+ */
+export function lengthBonus(length: number): number {
+  return length > 4 ? (length - 4) * (length - 3) : 0;
+}
+
+/**
+ * Sum of the letter values plus the length bonus
+ */
+export function scoreWord(word: string): number {
+  const letters = [...word.toUpperCase()].reduce((sum, letter) => sum + (LETTER_VALUES[letter] ?? 0), 0);
+  return letters + lengthBonus(word.length);
+}
+
+/**
+ * One letter from the pool, weighted by how common its tile is
+ */
+export function drawLetter(rng: SeededRandom, pool: string = VOWELS + CONSONANTS): string {
+  const letters = [...pool];
+  const total = letters.reduce((sum, letter) => sum + LETTER_COUNTS[letter], 0);
+  let roll = rng.next() * total;
+  for (const letter of letters) {
+    roll -= LETTER_COUNTS[letter];
+    if (roll < 0) return letter;
+  }
+  return letters[letters.length - 1];
+}
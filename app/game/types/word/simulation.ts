@@ -0,0 +1,439 @@
+/**
+ * Word Simulation
+ * Timed word-building logic, stepped by GameRuntime
+ *
+ * Grid mode fills the whole grid with letters to find words in. Tower mode
+ * starts with a few rows at the bottom and drops a letter into a random
+ * column every few seconds; words traced in the stack clear their letters,
+ * and the game is lost when a column reaches the top.
+ */
+
+import { Level } from '../../../config/levels';
+import { WordLevelSettings } from '../../../config/levelSchemas';
+import { getLevelSettings } from '../../../config/levelBundles';
+import { GameState, EngineSimulation } from '../../GameEngine';
+import { GameType, WORD_CONFIG } from '../../config/gameTypes';
+import { InputEvent } from '../../runtime/input';
+import { SeededRandom } from '../../runtime/random';
+import { Animation, Easing } from '../../runtime/rendering';
+import { Dawg } from './dawg';
+import { getDictionary } from './dictionary';
+import {
+  GridCell,
+  areNeighbours,
+  collapseCells,
+  findWords,
+  generateGrid,
+  landingRow
+} from './grid';
+import { drawLetter, scoreWord } from './letters';
+
+export interface WordFeedback {
+  title: string;
+  message: string;
+}
+
+export interface GridLayout {
+  x: number;
+  y: number;
+  cellSize: number;
+}
+
+// A letter dropping into the tower
+export interface FallingLetter {
+  col: number;
+  row: number; // Fractional; -1 is just above the well
+  letter: string;
+}
+
+export interface WordSnapshot {
+  mode: WordLevelSettings['mode'];
+  rows: number;
+  cols: number;
+  letters: (string | null)[]; // Row by row; null for empty tower cells
+  path: number[];             // Indices into letters, in the order traced
+  falling: FallingLetter[];
+  settling: Record<number, number>; // Rows each letter has still to fall after a clear, by index
+  currentWord: string;
+  foundWords: string[];
+  score: number;
+  timeLeft: number; // Whole seconds, rounded up
+  feedback: WordFeedback | null;
+}
+
+const GRID_ROWS: number = WORD_CONFIG.levelParameters.gridSize.rows;
+const GRID_COLS: number = WORD_CONFIG.levelParameters.gridSize.cols;
+
+// A dragged finger picks up a cell within this fraction of a cell of its
+// centre, so cutting a corner doesn't catch the cells beside a diagonal
+const PICK_RADIUS = 0.35;
+
+// Missed words listed on the end-of-level screen
+const MISSED_SHOWN = 8;
+
+// Tower rows filled at the start, holding the level's minWords
+const TOWER_START_ROWS = 3;
+// Seconds between falling letters when a level doesn't set it
+const DROP_INTERVAL = 1.5;
+// Letters fall faster as the clock runs down, up to this fraction
+const DROP_SPEED_UP = 0.25;
+// Rows per second a dropped letter falls on average (it speeds up as it goes)
+const DROP_SPEED = 8;
+// Seconds for letters to settle into the gap left by a word
+const SETTLE_DURATION = 0.25;
+
+interface Drop extends FallingLetter {
+  animation: Animation;
+}
+
+const sameCell = (a: GridCell, b: GridCell) => a.row === b.row && a.col === b.col;
+
+/**
+ * Button id for a letter tile, e.g. "letter:4"
+ */
+export function letterButtonId(index: number): string {
+  return `letter:${index}`;
+}
+
+export class WordSimulation implements EngineSimulation<WordSnapshot> {
+  revision = 0;
+
+  private level: Level;
+  private settings: WordLevelSettings;
+  private dictionary: Dawg;
+  private rng: SeededRandom;
+  private grid: (string | null)[][];
+  private drops: Drop[] = [];
+  private dropTimer = 0;
+  private settling: { falls: Record<number, number>; left: number; animation: Animation } | null = null;
+  private layout: GridLayout | null = null;
+  private path: GridCell[] = [];
+  private dragPoint: { x: number; y: number } | null = null;
+  private foundWords: string[] = [];
+  private score = 0;
+  private timeRemaining: number;
+  private feedback: WordFeedback | null = null;
+  private finished: 'won' | 'lost' | null = null;
+
+  constructor(
+    level: Level,
+    rng: SeededRandom,
+    settings: WordLevelSettings = getLevelSettings(GameType.WORD, level.id)
+  ) {
+    this.level = level;
+    this.settings = settings;
+    this.rng = rng;
+    this.dictionary = getDictionary(settings.dictionary);
+    this.timeRemaining = level.timeLimit;
+
+    const tower = settings.mode === 'tower';
+    const options = {
+      rows: tower ? TOWER_START_ROWS : GRID_ROWS,
+      cols: GRID_COLS,
+      minWords: settings.minWords,
+      minLength: settings.minWordLength
+    };
+    const filled = generateGrid(options, this.dictionary, rng);
+    const empty = Array.from({ length: GRID_ROWS - filled.length }, () => Array(GRID_COLS).fill(null));
+    this.grid = [...empty, ...filled];
+  }
+
+  update(deltaTime: number): void {
+    if (this.finished) return;
+
+    const shownTime = Math.ceil(this.timeRemaining);
+    this.timeRemaining = Math.max(0, this.timeRemaining - deltaTime);
+
+    if (this.timeRemaining === 0) {
+      this.finished = this.score >= this.level.targetScore ? 'won' : 'lost';
+      this.revision++;
+      return;
+    }
+    if (Math.ceil(this.timeRemaining) !== shownTime) {
+      this.revision++;
+    }
+
+    if (this.settings.mode === 'tower') this.updateTower(deltaTime);
+  }
+
+  handleInput(input: InputEvent): void {
+    if (this.finished) return;
+    const { type, position } = input;
+
+    if (type === 'button_press' && input.buttonId?.startsWith('letter:')) {
+      const index = Number(input.buttonId.split(':')[1]);
+      if (index >= 0 && index < GRID_ROWS * GRID_COLS) {
+        this.tapCell({ row: Math.floor(index / GRID_COLS), col: index % GRID_COLS });
+      }
+    } else if (type === 'button_press' && input.buttonId === 'submit') {
+      this.submitWord();
+    } else if (type === 'button_press' && input.buttonId === 'clear') {
+      this.clearPath();
+    } else if (type === 'drag_start') {
+      // drag_start reports the distance from where the touch went down
+      const start = { x: position.x - (input.deltaX ?? 0), y: position.y - (input.deltaY ?? 0) };
+      const cell = this.cellAt(start.x, start.y);
+      if (!cell) return;
+      this.path = [cell];
+      this.dragPoint = start;
+      this.feedback = null;
+      this.revision++;
+      this.dragTo(position.x, position.y);
+    } else if (type === 'drag_move' || type === 'drag_end') {
+      if (!this.dragPoint) return;
+      this.dragTo(position.x, position.y);
+      if (type === 'drag_end') {
+        // Letting go submits the word; the trace is cleared either way
+        this.dragPoint = null;
+        this.submitWord();
+        this.path = [];
+      }
+    }
+  }
+
+  /**
+   * Where the grid is on screen, for tracing drags. Until it is set, only
+   * letter presses work.
+   */
+  setLayout(layout: GridLayout): void {
+    this.layout = layout;
+  }
+
+  getState(): GameState {
+    return {
+      score: this.score,
+      lives: 1,
+      timeRemaining: this.timeRemaining,
+      isPaused: false,
+      isGameOver: this.finished !== null,
+      isWin: this.finished === 'won'
+    };
+  }
+
+  getSnapshot(): WordSnapshot {
+    const settling: Record<number, number> = {};
+    if (this.settling) {
+      Object.entries(this.settling.falls).forEach(([index, rows]) => {
+        settling[Number(index)] = rows * this.settling!.left;
+      });
+    }
+
+    return {
+      mode: this.settings.mode,
+      rows: GRID_ROWS,
+      cols: GRID_COLS,
+      letters: this.grid.flat(),
+      path: this.path.map(({ row, col }) => row * GRID_COLS + col),
+      falling: this.drops.map(({ col, row, letter }) => ({ col, row, letter })),
+      settling,
+      currentWord: this.currentWord(),
+      foundWords: [...this.foundWords],
+      score: this.score,
+      timeLeft: Math.ceil(this.timeRemaining),
+      feedback: this.feedback
+    };
+  }
+
+  /**
+   * The best words left unfound (in tower mode, any left in the stack),
+   * longest first
+   */
+  getSummary(): string | null {
+    const { mode, minWordLength } = this.settings;
+    const missed = findWords(this.grid, this.dictionary, minWordLength)
+      .filter(word => mode === 'tower' || !this.foundWords.includes(word))
+      .sort((a, b) => b.length - a.length || a.localeCompare(b));
+    if (missed.length === 0) return null;
+
+    const shown = missed.slice(0, MISSED_SHOWN).join(', ');
+    const more = missed.length > MISSED_SHOWN ? ` and ${missed.length - MISSED_SHOWN} more` : '';
+    return `Words you missed: ${shown}${more}`;
+  }
+
+  private currentWord(): string {
+    return this.path.map(({ row, col }) => this.grid[row][col] ?? '').join('');
+  }
+
+  private updateTower(deltaTime: number): void {
+    // Drops come faster as the clock runs down
+    const elapsed = 1 - this.timeRemaining / this.level.timeLimit;
+    const interval = (this.settings.dropInterval ?? DROP_INTERVAL) * (1 - DROP_SPEED_UP * elapsed);
+    this.dropTimer += deltaTime;
+    if (this.dropTimer >= interval) {
+      this.dropTimer -= interval;
+      this.dropLetter();
+    }
+
+    [...this.drops].forEach(drop => drop.animation.step(deltaTime));
+    this.settling?.animation.step(deltaTime);
+    if (this.drops.length > 0 || this.settling) this.revision++;
+  }
+
+  private dropLetter(): void {
+    this.fall(this.rng.int(0, GRID_COLS - 1), drawLetter(this.rng), -1);
+  }
+
+  /**
+   * Drop a letter from a row down to the top of its column's stack
+   */
+  private fall(col: number, letter: string, from: number): void {
+    const target = landingRow(this.grid, col);
+    if (target <= from) {
+      this.land(col, letter, target);
+      return;
+    }
+
+    const drop: Drop = {
+      col,
+      letter,
+      row: from,
+      animation: new Animation(from, target, (target - from) / DROP_SPEED, row => { drop.row = row; }, Easing.easeIn, () => {
+        this.drops.splice(this.drops.indexOf(drop), 1);
+        // Letters cleared from under it on the way leave it further to go
+        this.fall(col, letter, target);
+      })
+    };
+    drop.animation.start();
+    this.drops.push(drop);
+  }
+
+  private land(col: number, letter: string, row: number): void {
+    if (row >= 0) this.grid[row][col] = letter;
+    this.revision++;
+
+    // The stack has reached the top
+    if (row <= 0) {
+      this.finished = 'lost';
+    }
+  }
+
+  /**
+   * Take a word's letters out of the tower and let the ones above drop
+   */
+  private clearLetters(path: GridCell[]): void {
+    const falls: Record<number, number> = {};
+    collapseCells(this.grid, path).forEach(({ row, col, rows }) => {
+      falls[row * GRID_COLS + col] = rows;
+    });
+    const settling = {
+      falls,
+      left: 1,
+      animation: new Animation(1, 0, SETTLE_DURATION, left => { settling.left = left; }, Easing.easeIn, () => {
+        if (this.settling === settling) this.settling = null;
+      })
+    };
+    settling.animation.start();
+    this.settling = settling;
+  }
+
+  private cellAt(x: number, y: number): GridCell | null {
+    if (!this.layout) return null;
+    const row = Math.floor((y - this.layout.y) / this.layout.cellSize);
+    const col = Math.floor((x - this.layout.x) / this.layout.cellSize);
+    return row >= 0 && row < GRID_ROWS && col >= 0 && col < GRID_COLS ? { row, col } : null;
+  }
+
+  /**
+   * Follow the finger from the last drag point, in steps small enough that a
+   * fast swipe can't jump over a cell
+   */
+  private dragTo(x: number, y: number): void {
+    if (!this.dragPoint || !this.layout) return;
+    const { cellSize } = this.layout;
+    const from = this.dragPoint;
+    const steps = Math.max(1, Math.ceil(Math.hypot(x - from.x, y - from.y) / (cellSize / 4)));
+
+    for (let i = 1; i <= steps; i++) {
+      const px = from.x + ((x - from.x) * i) / steps;
+      const py = from.y + ((y - from.y) * i) / steps;
+      const cell = this.cellAt(px, py);
+      if (!cell) continue;
+
+      const cx = this.layout.x + (cell.col + 0.5) * cellSize;
+      const cy = this.layout.y + (cell.row + 0.5) * cellSize;
+      if (Math.hypot(px - cx, py - cy) <= cellSize * PICK_RADIUS) this.extendPath(cell);
+    }
+    this.dragPoint = { x, y };
+  }
+
+  /**
+   * Add a touching cell to the path, or step back off the last one by
+   * returning to the cell before it
+   */
+  private extendPath(cell: GridCell): void {
+    const last = this.path[this.path.length - 1];
+    const previous = this.path[this.path.length - 2];
+    if (last && sameCell(last, cell)) return;
+
+    if (previous && sameCell(previous, cell)) {
+      this.path.pop();
+    } else if (this.canAdd(cell)) {
+      this.path.push(cell);
+    } else {
+      return;
+    }
+    this.feedback = null;
+    this.revision++;
+  }
+
+  /**
+   * Tapping letters builds the same path one cell at a time; tapping the
+   * last letter again takes it back
+   */
+  private tapCell(cell: GridCell): void {
+    const last = this.path[this.path.length - 1];
+    if (last && sameCell(last, cell)) {
+      this.path.pop();
+    } else if (this.canAdd(cell)) {
+      this.path.push(cell);
+    } else {
+      return;
+    }
+    this.feedback = null;
+    this.revision++;
+  }
+
+  private canAdd(cell: GridCell): boolean {
+    const last = this.path[this.path.length - 1];
+    if (this.grid[cell.row][cell.col] === null) return false;
+    return !last || (areNeighbours(last, cell) && !this.path.some(other => sameCell(other, cell)));
+  }
+
+  private clearPath(): void {
+    this.path = [];
+    this.feedback = null;
+    this.revision++;
+  }
+
+  private submitWord(): void {
+    const word = this.currentWord();
+    const { minWordLength } = this.settings;
+    this.revision++;
+
+    if (word.length < minWordLength) {
+      this.feedback = { title: 'Too Short', message: `Words must be at least ${minWordLength} letters!` };
+      return;
+    }
+
+    // A tower keeps refilling, so only a fixed grid runs out of a word
+    if (this.settings.mode === 'grid' && this.foundWords.includes(word)) {
+      this.feedback = { title: 'Already Found', message: 'You already found that word!' };
+      return;
+    }
+
+    if (!this.dictionary.has(word)) {
+      this.feedback = { title: 'Invalid', message: 'Not a valid word. Try again!' };
+      return;
+    }
+
+    this.score += scoreWord(word) * this.level.coinValue;
+    this.foundWords.push(word);
+    if (this.settings.mode === 'tower') this.clearLetters(this.path);
+    this.path = [];
+    this.feedback = null;
+
+    if (this.score >= this.level.targetScore) {
+      this.finished = 'won';
+    }
+  }
+}
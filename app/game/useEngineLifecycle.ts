@@ -0,0 +1,205 @@
+/**
+ * Engine Lifecycle Hook
+ * Connects an EngineSimulation to GameRuntime so every engine shares the
+ * same loop, pause handling and input path, and exposes the engine's
+ * IGameEngine handle
+ */
+
+import React, { useState, useRef, useMemo, useCallback, useImperativeHandle } from 'react';
+import { GameEngineProps, EngineSimulation, IGameEngine, GameState } from './GameEngine';
+import { GameLifecycle } from './runtime/GameRuntime';
+import { InputEvent, InputManager, INPUT_EVENT_TYPES } from './runtime/input';
+import { SeededRandom } from './runtime/random';
+import { ReplayRecorder, ReplayPlayer } from './runtime/replay';
+
+/**
+ * Seed for a new run: the replay's, an explicit prop, then the level's,
+ * else a fresh one
+ */
+function createRunRandom(props: GameEngineProps): SeededRandom {
+  return new SeededRandom(props.replay?.seed ?? props.seed ?? props.level.seed);
+}
+
+/**
+ * Typed by the engine's own simulation class, so getSimulation() hands back
+ * its extra methods (layout, ghost runs, ...) without a cast. The
+ * intersection lets TypeScript infer the snapshot type from the class too.
+ */
+export function useEngineLifecycle<TSnapshot, TSimulation extends EngineSimulation<TSnapshot>>(
+  createSimulation: (rng: SeededRandom) => TSimulation & EngineSimulation<TSnapshot>,
+  props: GameEngineProps,
+  ref: React.ForwardedRef<IGameEngine>
+) {
+  // The run's RNG is owned here and handed to the simulation
+  const rngRef = useRef<SeededRandom | null>(null);
+  const simulationRef = useRef<TSimulation | null>(null);
+
+  // Fixed steps run this session; inputs are recorded against it
+  const tickRef = useRef(0);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const playerRef = useRef<ReplayPlayer | null>(null);
+
+  const createSimulationRef = useRef(createSimulation);
+  createSimulationRef.current = createSimulation;
+
+  const beginRun = useCallback((runProps: GameEngineProps): TSimulation => {
+    rngRef.current = createRunRandom(runProps);
+    tickRef.current = 0;
+    recorderRef.current = new ReplayRecorder(runProps.level.id, rngRef.current.seed);
+    playerRef.current = runProps.replay ? new ReplayPlayer(runProps.replay) : null;
+    return createSimulationRef.current(rngRef.current);
+  }, []);
+
+  if (!simulationRef.current) {
+    simulationRef.current = beginRun(props);
+  }
+
+  const [snapshot, setSnapshot] = useState<TSnapshot>(() => simulationRef.current!.getSnapshot());
+  const [started, setStarted] = useState(props.autoStart ?? true);
+  const [heldPaused, setHeldPaused] = useState(false);
+  const [session, setSession] = useState(0);
+
+  const paused = props.isPaused || heldPaused || !started;
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  const propsRef = useRef(props);
+  propsRef.current = props;
+
+  const inputManagerRef = useRef<InputManager | null>(null);
+  const pendingInputRef = useRef<InputEvent[]>([]);
+  const revisionRef = useRef(simulationRef.current.revision);
+  const reportedRef = useRef({
+    score: simulationRef.current.getState().score,
+    lives: simulationRef.current.getState().lives
+  });
+
+  /**
+   * Push a new snapshot and report score/lives changes to the host
+   */
+  const publish = useCallback((simulation: TSimulation) => {
+    revisionRef.current = simulation.revision;
+    setSnapshot(simulation.getSnapshot());
+
+    const { score, lives } = simulation.getState();
+    const reported = reportedRef.current;
+    if (score !== reported.score) {
+      reported.score = score;
+      propsRef.current.onScoreChange(score);
+    }
+    if (lives !== reported.lives) {
+      reported.lives = lives;
+      propsRef.current.onLivesChange(lives);
+    }
+  }, []);
+
+  const lifecycle = useMemo<GameLifecycle>(() => ({
+    onUpdate: (deltaTime, state) => {
+      const simulation = simulationRef.current!;
+      const tick = tickRef.current++;
+
+      // Input is applied at step boundaries so runs are frame-rate independent
+      let events = pendingInputRef.current;
+      pendingInputRef.current = [];
+      if (playerRef.current) {
+        events = playerRef.current.eventsAt(tick);
+      } else {
+        events.forEach(event => recorderRef.current!.record(tick, event));
+      }
+      events.forEach(event => simulation.handleInput(event));
+
+      simulation.update(deltaTime);
+      recorderRef.current!.setTicks(tickRef.current);
+
+      const engineState = simulation.getState();
+      state.score = engineState.score;
+      state.lives = engineState.lives;
+      state.won = engineState.isWin;
+      state.gameOver = engineState.isGameOver && !engineState.isWin;
+    },
+
+    onRender: (renderQueue, _state, alpha, camera) => {
+      const simulation = simulationRef.current!;
+      if (simulation.render) {
+        simulation.render(renderQueue, alpha, camera);
+      }
+
+      if (simulation.revision !== revisionRef.current) {
+        publish(simulation);
+      }
+    },
+
+    onGameOver: won => {
+      recorderRef.current!.finish(tickRef.current, simulationRef.current!.getState().score, won);
+      if (won) {
+        propsRef.current.onWin();
+      } else {
+        propsRef.current.onLose();
+      }
+    },
+
+    onInput: inputManager => {
+      inputManagerRef.current = inputManager;
+      INPUT_EVENT_TYPES.forEach(type => {
+        inputManager.on(type, event => {
+          // Input while paused is dropped, not replayed on resume
+          if (!pausedRef.current) {
+            pendingInputRef.current.push(event);
+          }
+        });
+      });
+    }
+  }), [publish]);
+
+  useImperativeHandle(ref, (): IGameEngine => ({
+    start: () => setStarted(true),
+    pause: () => setHeldPaused(true),
+    resume: () => setHeldPaused(false),
+
+    reset: () => {
+      const simulation = beginRun(propsRef.current);
+      simulationRef.current = simulation;
+      pendingInputRef.current = [];
+      publish(simulation);
+      // A new runtime session clears its finished flag and restarts the loop
+      setSession(current => current + 1);
+    },
+
+    getState: (): GameState => ({
+      ...simulationRef.current!.getState(),
+      isPaused: pausedRef.current
+    }),
+
+    getSeed: () => rngRef.current!.seed,
+
+    getReplay: () => playerRef.current?.replay ?? recorderRef.current!.toReplay(),
+
+    getSummary: () => simulationRef.current!.getSummary?.() ?? null,
+
+    handleInput: input => {
+      inputManagerRef.current?.dispatch(input);
+    }
+  }), [beginRun, publish]);
+
+  /**
+   * On-screen controls report through the runtime's InputManager
+   */
+  const pressButton = useCallback((buttonId: string) => {
+    inputManagerRef.current?.pressButton(buttonId);
+  }, []);
+
+  const releaseButton = useCallback((buttonId: string) => {
+    inputManagerRef.current?.releaseButton(buttonId);
+  }, []);
+
+  // Current run's simulation (replaced on reset)
+  const getSimulation = useCallback(() => simulationRef.current!, []);
+
+  return {
+    runtimeProps: { lifecycle, paused, session },
+    getSimulation,
+    snapshot,
+    pressButton,
+    releaseButton
+  };
+}
@@ -1,9 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { StatusBar } from 'expo-status-bar';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import MenuScreen from './screens/MenuScreen';
 import GameScreen from './screens/GameScreen';
 import ShopScreen from './screens/ShopScreen';
+import ConfigErrorScreen from './screens/ConfigErrorScreen';
+import { resolveActiveGameType } from './game/bootstrap';
+import { GhostRun, StoredGhost, isBetterGhost, storeGhost, storedGhostFor } from './game/types/racing/ghost';
 
 type Screen = 'menu' | 'game' | 'shop';
 
@@ -11,8 +14,12 @@ interface GameState {
   coins: number;
   highScores: { [levelId: number]: number };
   unlockedLevels: number[];
+  ghosts?: StoredGhost[]; // Best completed run for recently raced levels (racing)
 }
 
+// Resolved once at startup; changing the game type requires a new build
+const activeGame = resolveActiveGameType();
+
 export default function App() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('menu');
   const [currentLevelId, setCurrentLevelId] = useState<number>(1);
@@ -22,6 +29,10 @@ export default function App() {
     unlockedLevels: [1]
   });
 
+  // Latest state for handlers captured by in-flight dialogs (e.g. end-of-level alerts)
+  const gameStateRef = useRef(gameState);
+  gameStateRef.current = gameState;
+
   // Load game state from storage
   useEffect(() => {
     loadGameState();
@@ -39,6 +50,7 @@ export default function App() {
   };
 
   const saveGameState = async (newState: GameState) => {
+    gameStateRef.current = newState;
     try {
       await AsyncStorage.setItem('spaceRacingGameState', JSON.stringify(newState));
       setGameState(newState);
@@ -52,6 +64,18 @@ export default function App() {
     setCurrentScreen('game');
   };
 
+  const ghostForLevel = storedGhostFor(gameState.ghosts, currentLevelId) ?? undefined;
+
+  const handleGhostRecorded = (run: GhostRun) => {
+    const current = gameStateRef.current;
+    if (!isBetterGhost(run, storedGhostFor(current.ghosts, currentLevelId))) return;
+
+    saveGameState({
+      ...current,
+      ghosts: storeGhost(current.ghosts, currentLevelId, run)
+    });
+  };
+
   const handleOpenShop = () => {
     setCurrentScreen('shop');
   };
@@ -61,12 +85,13 @@ export default function App() {
     const coinsEarned = currentLevelId * 10;
     const nextLevel = currentLevelId + 1;
     
+    const current = gameStateRef.current;
     const newState = {
-      ...gameState,
-      coins: gameState.coins + coinsEarned,
-      unlockedLevels: gameState.unlockedLevels.includes(nextLevel) 
-        ? gameState.unlockedLevels 
-        : [...gameState.unlockedLevels, nextLevel]
+      ...current,
+      coins: current.coins + coinsEarned,
+      unlockedLevels: current.unlockedLevels.includes(nextLevel) 
+        ? current.unlockedLevels 
+        : [...current.unlockedLevels, nextLevel]
     };
     
     saveGameState(newState);
@@ -85,21 +110,34 @@ export default function App() {
     setCurrentScreen('menu');
   };
 
+  if (!activeGame.ok) {
+    return (
+      <>
+        <StatusBar style="light" />
+        <ConfigErrorScreen title="Invalid game configuration" message={activeGame.error} />
+      </>
+    );
+  }
+
   return (
     <>
       <StatusBar style="light" />
       {currentScreen === 'menu' && (
         <MenuScreen
+          gameConfig={activeGame.config}
           onStartGame={handleStartGame}
           onOpenShop={handleOpenShop}
         />
       )}
       {currentScreen === 'game' && (
         <GameScreen
+          gameType={activeGame.gameType}
           levelId={currentLevelId}
           onLevelComplete={handleLevelComplete}
           onGameOver={handleGameOver}
           onExit={handleExit}
+          ghost={ghostForLevel}
+          onGhostRecorded={handleGhostRecorded}
         />
       )}
       {currentScreen === 'shop' && (
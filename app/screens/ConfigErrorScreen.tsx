@@ -0,0 +1,55 @@
+/**
+ * Config Error Screen
+ * Startup diagnostic shown when the build's game configuration is invalid
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, SafeAreaView } from 'react-native';
+
+export interface ConfigErrorScreenProps {
+  title: string;
+  message: string;
+}
+
+export default function ConfigErrorScreen({ title, message }: ConfigErrorScreenProps) {
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.content}>
+        <Text style={styles.title}>{title}</Text>
+        <Text style={styles.message}>{message}</Text>
+        <Text style={styles.hint}>Fix app.json and restart the app.</Text>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#1a1a2e',
+  },
+  content: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  title: {
+    color: '#e94560',
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 10,
+    textAlign: 'center',
+  },
+  message: {
+    color: '#ffffff',
+    fontSize: 14,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  hint: {
+    color: '#cccccc',
+    fontSize: 12,
+    textAlign: 'center',
+  },
+});
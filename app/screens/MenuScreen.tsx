@@ -8,22 +8,24 @@ import {
   SafeAreaView
 } from 'react-native';
 import { LEVELS } from '../config/levels';
+import { GameTypeConfig } from '../game/config/gameTypes';
 
 const { width, height } = Dimensions.get('window');
 
 interface MenuScreenProps {
+  gameConfig: GameTypeConfig;
   onStartGame: (level: number) => void;
   onOpenShop: () => void;
 }
 
-export default function MenuScreen({ onStartGame, onOpenShop }: MenuScreenProps) {
+export default function MenuScreen({ gameConfig, onStartGame, onOpenShop }: MenuScreenProps) {
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.content}>
         {/* Title */}
         <View style={styles.titleContainer}>
-          <Text style={styles.title}>SPACE RACER</Text>
-          <Text style={styles.subtitle}>Navigate through the cosmos</Text>
+          <Text style={styles.title}>{gameConfig.displayName.toUpperCase()}</Text>
+          <Text style={styles.subtitle}>{gameConfig.description}</Text>
         </View>
 
         {/* Level Selection */}
@@ -58,11 +60,10 @@ export default function MenuScreen({ onStartGame, onOpenShop }: MenuScreenProps)
 
         {/* Instructions */}
         <View style={styles.instructionsContainer}>
-          <Text style={styles.instructionsTitle}>Controls:</Text>
-          <Text style={styles.instructionText}>• Tap left/right sides to turn</Text>
-          <Text style={styles.instructionText}>• Hold both sides to boost</Text>
-          <Text style={styles.instructionText}>• Release all to brake</Text>
-          <Text style={styles.instructionText}>• Avoid asteroids, collect coins!</Text>
+          <Text style={styles.instructionsTitle}>How to play:</Text>
+          <Text style={styles.instructionText}>• {gameConfig.mechanics.playerControl}</Text>
+          <Text style={styles.instructionText}>• Win: {gameConfig.mechanics.winCondition}</Text>
+          <Text style={styles.instructionText}>• Lose: {gameConfig.mechanics.loseCondition}</Text>
         </View>
       </View>
     </SafeAreaView>
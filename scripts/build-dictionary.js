@@ -0,0 +1,47 @@
+/**
+ * Pack a word list into a bundled dictionary
+ * Run with: node scripts/build-dictionary.js <name> <word list>...
+ *
+ * Word lists are plain text (one word per line) or JSON arrays. Only
+ * all-lower-case words of 2-12 letters are kept, which drops proper nouns,
+ * abbreviations and words with punctuation. The packed DAWG (see
+ * app/game/types/word/dawg.ts) is written to
+ * app/game/types/word/dictionaries/<name>.json.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+require('./register-ts');
+const { packWords } = require('../app/game/types/word/dawg');
+
+const [name, ...sources] = process.argv.slice(2);
+if (!name || sources.length === 0) {
+  console.error('Usage: node scripts/build-dictionary.js <name> <word list>...');
+  process.exit(1);
+}
+
+const WORD_PATTERN = /^[a-z]{2,12}$/;
+
+const words = new Set();
+let skipped = 0;
+sources.forEach(file => {
+  const text = fs.readFileSync(file, 'utf8');
+  const entries = file.endsWith('.json') ? JSON.parse(text) : text.split(/\r?\n/);
+  entries.forEach(entry => {
+    const word = String(entry).trim();
+    if (WORD_PATTERN.test(word)) {
+      words.add(word);
+    } else if (word) {
+      skipped++;
+    }
+  });
+});
+
+const packed = packWords(words);
+const outputFile = path.join(__dirname, '..', 'app', 'game', 'types', 'word', 'dictionaries', `${name}.json`);
+fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+fs.writeFileSync(outputFile, JSON.stringify(packed) + '\n');
+
+const kb = (fs.statSync(outputFile).size / 1024).toFixed(0);
+console.log(`Wrote ${path.relative(process.cwd(), outputFile)}: ${packed.words} words (${skipped} skipped), ${kb} KB`);
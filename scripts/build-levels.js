@@ -0,0 +1,189 @@
+/**
+ * Validate level JSON and build the bundled level list
+ * Run with: node scripts/build-levels.js [--check] [levels-dir]
+ *
+ * Reads one JSON file per level from levels/, checks each against the Level
+ * schema and the difficulty curve, checks the per-game-type settings bundles
+ * in app/config/bundles/, then writes app/config/levelData.ts. With --check
+ * nothing is written and the run fails if that module is out of date.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const rootDir = path.join(__dirname, '..');
+const bundlesDir = path.join(rootDir, 'app', 'config', 'bundles');
+const outputFile = path.join(rootDir, 'app', 'config', 'levelData.ts');
+
+// Load the app's TypeScript validators so the rules live in one place
+require('./register-ts');
+
+const {
+  LEVEL_FIELD_NAMES,
+  checkDifficultyCurve,
+  parseLevel,
+  parseLevelBundle
+} = require('../app/config/levelSchemas');
+const { getPlatformerMapNames } = require('../app/game/types/platformer/maps');
+
+const args = process.argv.slice(2);
+const checkOnly = args.includes('--check');
+const levelsDir = path.resolve(args.find(arg => !arg.startsWith('--')) || path.join(rootDir, 'levels'));
+
+const problems = [];
+
+function report(file, line, severity, message) {
+  problems.push({ file: path.relative(process.cwd(), file), line, severity, message });
+}
+
+/**
+ * Line of a field, searching from the line that holds the given level id
+ */
+function lineOf(text, field, levelId) {
+  const lines = text.split('\n');
+  let start = 0;
+  if (levelId !== undefined) {
+    const pattern = new RegExp(`"(levelId|id)"\\s*:\\s*${levelId}\\b`);
+    start = Math.max(0, lines.findIndex(line => pattern.test(line)));
+  }
+  if (field) {
+    const found = lines.findIndex((line, index) => index >= start && line.includes(`"${field}"`));
+    if (found >= 0) return found + 1;
+  }
+  return start + 1;
+}
+
+/**
+ * Parse a JSON file, reporting syntax errors at their line
+ */
+function readJson(file) {
+  const text = fs.readFileSync(file, 'utf8');
+  try {
+    return { text, data: JSON.parse(text) };
+  } catch (error) {
+    const position = /position (\d+)/.exec(error.message);
+    const line = position ? text.slice(0, Number(position[1])).split('\n').length : 1;
+    report(file, line, 'error', `invalid JSON: ${error.message}`);
+    return null;
+  }
+}
+
+function listJson(dir) {
+  if (!fs.existsSync(dir)) {
+    console.error(`No such directory: ${path.relative(process.cwd(), dir)}`);
+    process.exit(1);
+  }
+  return fs.readdirSync(dir)
+    .filter(name => name.endsWith('.json'))
+    .map(name => path.join(dir, name));
+}
+
+function loadLevels() {
+  const levels = [];
+  const sources = new Map();
+
+  listJson(levelsDir).forEach(file => {
+    const json = readJson(file);
+    if (!json) return;
+
+    const result = parseLevel(json.data);
+    if (!result.ok) {
+      report(file, lineOf(json.text, result.field), 'error', result.error);
+      return;
+    }
+    const { id } = result.level;
+    if (sources.has(id)) {
+      report(file, lineOf(json.text, 'id'), 'error',
+        `level ${id} is also defined in ${path.basename(sources.get(id).file)}`);
+      return;
+    }
+    sources.set(id, { file, text: json.text });
+    levels.push(result.level);
+  });
+
+  levels.sort((a, b) => a.id - b.id);
+  checkDifficultyCurve(levels).forEach(issue => {
+    const source = sources.get(issue.levelId);
+    report(source.file, lineOf(source.text, issue.field), issue.severity, issue.message);
+  });
+  return levels;
+}
+
+function checkBundles(levelIds) {
+  const mapNames = getPlatformerMapNames();
+
+  listJson(bundlesDir).forEach(file => {
+    const json = readJson(file);
+    if (!json) return;
+
+    const gameType = path.basename(file, '.json');
+    const result = parseLevelBundle(json.data, gameType);
+    if (!result.ok) {
+      report(file, lineOf(json.text, result.field, result.levelId), 'error', result.error);
+      return;
+    }
+    result.bundle.levels.forEach(settings => {
+      const line = field => lineOf(json.text, field, settings.levelId);
+      if (!levelIds.includes(settings.levelId)) {
+        report(file, line('levelId'), 'error', `${gameType} level ${settings.levelId} has no level definition`);
+      }
+      if (gameType === 'platformer' && !mapNames.includes(settings.map)) {
+        report(file, line('map'), 'error', `platformer level ${settings.levelId}: unknown map "${settings.map}"`);
+      }
+    });
+  });
+}
+
+function formatValue(value) {
+  return typeof value === 'string'
+    ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+    : String(value);
+}
+
+function renderModule(levels) {
+  const entries = levels.map(level => {
+    const fields = LEVEL_FIELD_NAMES
+      .filter(name => level[name] !== undefined)
+      .map(name => `    ${name}: ${formatValue(level[name])}`);
+    return `  {\n${fields.join(',\n')}\n  }`;
+  });
+
+  return [
+    '/**',
+    ' * Level Data',
+    ' * Generated by scripts/build-levels.js from levels/*.json. Do not edit by hand.',
+    ' */',
+    '',
+    "import { Level } from './levels';",
+    '',
+    'export const LEVEL_DATA: Level[] = [',
+    entries.join(',\n'),
+    '];',
+    ''
+  ].join('\n');
+}
+
+const levels = loadLevels();
+checkBundles(levels.map(level => level.id));
+
+const output = renderModule(levels);
+const current = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, 'utf8') : null;
+const errors = problems.filter(problem => problem.severity === 'error').length;
+
+if (errors === 0 && current !== output) {
+  if (checkOnly) {
+    report(outputFile, 1, 'error', 'out of date; run node scripts/build-levels.js');
+  } else {
+    fs.writeFileSync(outputFile, output);
+    console.log(`Wrote ${path.relative(process.cwd(), outputFile)} (${levels.length} levels)`);
+  }
+}
+
+problems.forEach(({ file, line, severity, message }) => {
+  console.log(`${file}:${line}: ${severity}: ${message}`);
+});
+
+const failed = problems.filter(problem => problem.severity === 'error').length;
+const warnings = problems.length - failed;
+console.log(`${levels.length} levels checked: ${failed} errors, ${warnings} warnings`);
+process.exit(failed > 0 ? 1 : 0);
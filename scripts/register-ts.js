@@ -0,0 +1,22 @@
+/**
+ * Lets build scripts require the app's TypeScript modules
+ * Usage: require('./register-ts') before requiring any .ts file
+ *
+ * Modules are transpiled one at a time without type checking, so scripts
+ * reuse the app's code (validators, packers) instead of copying it.
+ */
+
+const fs = require('fs');
+const ts = require('typescript');
+
+require.extensions['.ts'] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, 'utf8'), {
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2019,
+      esModuleInterop: true
+    },
+    fileName: filename
+  });
+  module._compile(outputText, filename);
+};